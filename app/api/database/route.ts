@@ -45,10 +45,16 @@ async function eraseDatabase() {
     
     // Delete all data from tables in proper order (respecting foreign key constraints)
     await client.query('DELETE FROM tweets');
+    await client.query('DELETE FROM session_changes');
     await client.query('DELETE FROM votes');
     await client.query('DELETE FROM voting_sessions');
+    await client.query('DELETE FROM agenda_items');
+    await client.query('DELETE FROM bills');
     await client.query('DELETE FROM scraping_logs');
+    await client.query('DELETE FROM politician_memberships');
+    await client.query('DELETE FROM politician_aliases');
     await client.query('DELETE FROM politicians');
+    await client.query('DELETE FROM provenance_records');
     
     // Commit transaction
     await client.query('COMMIT');
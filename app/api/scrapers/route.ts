@@ -17,21 +17,21 @@ async function forwardRequest(
         'Content-Type': 'application/json',
       },
     };
-
+    
     if (body && (method === 'POST' || method === 'PUT')) {
       options.body = JSON.stringify(body);
     }
-
+    
     const response = await fetch(`${SCRAPER_API}/${service}${endpoint}`, options);
     const data = await response.json();
-
+    
     if (!response.ok) {
       return NextResponse.json(
         { error: data.error || 'An error occurred' },
         { status: response.status }
       );
     }
-
+    
     return NextResponse.json(data);
   } catch (error) {
     console.error('API route error:', error);
@@ -49,6 +49,12 @@ async function forwardRequest(
  * Query parameters:
  * - service: 'twitter', 'vote', or 'cache'
  * - action: The specific action to perform
+ * - term: Optional electoral term number scoping vote stats and sessions
+ * - includeAnnulled: Optional 'true' to count annulled votes in vote stats
+ * - chamber: Optional 'deputies', 'senate' or 'european_parliament' scoping vote stats, sessions and bills; terms are numbered per chamber
+ * - print: Print (tisk) number of the bill, required by the vote 'bill' action
+ * - status: Optional 'staged', 'applied' or 'superseded' for the vote 'changes' action
+ * - jobId: Optional scrape job ID for the vote 'status' action; the latest job by default
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -90,6 +96,9 @@ export async function GET(request: NextRequest) {
       case 'recent-tweets':
         endpoint = '/recent-tweets';
         break;
+      case 'budget':
+        endpoint = '/budget';
+        break;
       default:
         return NextResponse.json(
           { error: 'Invalid action parameter for Twitter service' },
@@ -110,12 +119,101 @@ export async function GET(request: NextRequest) {
       case 'config':
         endpoint = '/config';
         break;
+      case 'terms':
+        endpoint = '/terms';
+        break;
+      case 'bills':
+        endpoint = '/bills';
+        break;
+      case 'bill':
+        endpoint = '/bill';
+        break;
+      case 'changes':
+        endpoint = '/changes';
+        break;
+      case 'jobs':
+        endpoint = '/jobs';
+        break;
       default:
         return NextResponse.json(
           { error: 'Invalid action parameter for Vote service' },
           { status: 400 }
         );
     }
+    
+    // Scope stats and sessions to a single electoral term
+    const query = new URLSearchParams();
+    const term = searchParams.get('term');
+    if (term) {
+      if (!/^\d+$/.test(term)) {
+        return NextResponse.json(
+          { error: 'Invalid term parameter (must be a term number)' },
+          { status: 400 }
+        );
+      }
+      query.set('term', term);
+    }
+    
+    // Terms and session IDs are numbered per chamber
+    const chamber = searchParams.get('chamber');
+    if (chamber) {
+      if (!['deputies', 'senate', 'european_parliament'].includes(chamber)) {
+        return NextResponse.json(
+          { error: 'Invalid chamber parameter (must be "deputies", "senate" or "european_parliament")' },
+          { status: 400 }
+        );
+      }
+      query.set('chamber', chamber);
+    }
+    
+    // A bill is identified by its print number within the term
+    if (action === 'bill') {
+      const print = searchParams.get('print');
+      if (!term || !print || !/^\d+$/.test(print)) {
+        return NextResponse.json(
+          { error: 'The bill action needs term and print parameters (print must be a print number)' },
+          { status: 400 }
+        );
+      }
+      query.set('print', print);
+    }
+    
+    // Changes found by revalidation are listed by status, staged ones by default
+    if (action === 'changes') {
+      const status = searchParams.get('status');
+      if (status) {
+        if (!['staged', 'applied', 'superseded'].includes(status)) {
+          return NextResponse.json(
+            { error: 'Invalid status parameter (must be "staged", "applied" or "superseded")' },
+            { status: 400 }
+          );
+        }
+        query.set('status', status);
+      }
+    }
+    
+    // Status describes one scrape job, the latest one unless a job is named
+    if (action === 'status') {
+      const jobId = searchParams.get('jobId');
+      if (jobId) {
+        if (!/^\d+$/.test(jobId)) {
+          return NextResponse.json(
+            { error: 'Invalid jobId parameter (must be a job ID)' },
+            { status: 400 }
+          );
+        }
+        query.set('jobId', jobId);
+      }
+    }
+    
+    // Annulled votes are left out of stats unless asked for
+    if (searchParams.get('includeAnnulled') === 'true') {
+      query.set('includeAnnulled', 'true');
+    }
+    
+    if (query.toString()) {
+      endpoint += `?${query.toString()}`;
+    }
   }
   
   return forwardRequest(service, endpoint);
@@ -184,6 +282,12 @@ export async function POST(request: NextRequest) {
       case 'politician':
         endpoint = '/politician';
         break;
+      case 'revalidate':
+        endpoint = '/revalidate';
+        break;
+      case 'apply-changes':
+        endpoint = '/apply-changes';
+        break;
       default:
         return NextResponse.json(
           { error: 'Invalid action parameter for Vote service' },
@@ -44,6 +44,31 @@ interface Tweet {
   created_at: string;
 }
 
+interface EndpointRateLimit {
+  endpoint: string;
+  limit: number | null;
+  remaining: number;
+  reset_at: string;
+  exhausted: boolean;
+}
+
+interface TweetBudgetSummary {
+  month: string;
+  monthly_budget: number;
+  spent: number;
+  planned: number;
+  projected: number;
+  remaining: number;
+  runs: {
+    id: number;
+    started_at: string;
+    finished_at: string | null;
+    planned: number;
+    spent: number;
+    politicians: number;
+  }[];
+}
+
 interface FetchResults {
   totalPoliticians: number;
   processedPoliticians: number;
@@ -76,7 +101,8 @@ export default function TwitterScraper() {
   const [selectedPolitician, setSelectedPolitician] = useState<number | null>(null);
   const [isAddingHandle, setIsAddingHandle] = useState(false);
   const [activeTab, setActiveTab] = useState("dashboard");
-
+  const [budget, setBudget] = useState<TweetBudgetSummary | null>(null);
+  
   // Fetch politicians with Twitter handles
   const fetchPoliticians = useCallback(async () => {
     try {
@@ -91,7 +117,7 @@ export default function TwitterScraper() {
       setError(err.message || 'Failed to fetch politicians');
     }
   }, []);
-
+  
   // Fetch recent tweets
   const fetchRecentTweets = useCallback(async () => {
     try {
@@ -115,25 +141,44 @@ export default function TwitterScraper() {
       // Don't set error for tweets, just log it
     }
   }, []);
-
+  
+  // Fetch the month's API budget and spend
+  const fetchBudget = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scrapers?service=twitter&action=budget');
+      if (!response.ok) {
+        throw new Error('Failed to fetch API budget');
+      }
+      setBudget(await response.json());
+    } catch (err) {
+      console.error('Error fetching API budget:', err);
+      // Don't set error for the budget, just log it
+    }
+  }, []);
+  
   // Fetch politicians and recent tweets on mount
   useEffect(() => {
     fetchPoliticians();
     fetchRecentTweets();
+    fetchBudget();
     
-    // Set up polling for recent tweets
+    // Set up polling for recent tweets and the budget
     const interval = setInterval(fetchRecentTweets, 10000);
+    const budgetInterval = setInterval(fetchBudget, 30000);
     
-    return () => clearInterval(interval);
-  }, [fetchPoliticians, fetchRecentTweets]);
-
+    return () => {
+      clearInterval(interval);
+      clearInterval(budgetInterval);
+    };
+  }, [fetchPoliticians, fetchRecentTweets, fetchBudget]);
+  
   // Refetch recent tweets when results change
   useEffect(() => {
     if (results) {
       fetchRecentTweets();
     }
   }, [results, fetchRecentTweets]);
-
+  
   // Start scraping from the new endpoint
   const startScraping = async () => {
     setError(null);
@@ -158,17 +203,17 @@ export default function TwitterScraper() {
       setError(err.message || 'Failed to start scraping');
     }
   };
-
+  
   // Fetch tweets from the old endpoint
   const fetchTweets = async () => {
     setIsLoading(true);
     setError(null);
     setResults(null);
-
+    
     try {
       // Use a smaller batch size to avoid rate limiting
       const maxTweets = 10; // Reduced from 100 to avoid rate limiting
-
+      
       const response = await fetch('/api/twitter?action=fetch-tweets', {
         method: 'POST',
         headers: {
@@ -176,7 +221,7 @@ export default function TwitterScraper() {
         },
         body: JSON.stringify({ maxTweets }),
       });
-
+      
       if (!response.ok) {
         const errorData = await response.json();
         
@@ -187,7 +232,7 @@ export default function TwitterScraper() {
         
         throw new Error(errorData.error || 'Failed to fetch tweets');
       }
-
+      
       const data = await response.json();
       setResults(data.results);
       
@@ -205,20 +250,20 @@ export default function TwitterScraper() {
       setIsLoading(false);
     }
   };
-
+  
   // Check and fix Twitter handles
   const checkAndFixHandles = async () => {
     setIsFixingHandles(true);
     setError(null);
     setFixResults(null);
-
+    
     try {
       const response = await fetch('/api/twitter?action=fix-handles');
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to fix Twitter handles');
       }
-
+      
       const data = await response.json();
       setFixResults(data);
       
@@ -231,17 +276,17 @@ export default function TwitterScraper() {
       setIsFixingHandles(false);
     }
   };
-
+  
   // Add or update a Twitter handle for a politician
   const addTwitterHandle = async () => {
     if (!selectedPolitician || !newHandle) {
       setError('Please select a politician and enter a Twitter handle');
       return;
     }
-
+    
     setIsAddingHandle(true);
     setError(null);
-
+    
     try {
       const response = await fetch('/api/twitter?action=update-handle', {
         method: 'POST',
@@ -253,12 +298,12 @@ export default function TwitterScraper() {
           twitterHandle: newHandle.startsWith('@') ? newHandle.substring(1) : newHandle,
         }),
       });
-
+      
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to update Twitter handle');
       }
-
+      
       const data = await response.json();
       
       // Refresh politicians list after updating handle
@@ -277,7 +322,7 @@ export default function TwitterScraper() {
       setIsAddingHandle(false);
     }
   };
-
+  
   return (
     <div className="container mx-auto py-8">
       <div className="flex items-center gap-2 mb-8">
@@ -328,11 +373,84 @@ export default function TwitterScraper() {
                 latest_tweet: { 
                   label: "Latest Tweet", 
                   format: (value) => new Date(value).toLocaleDateString() 
+                },
+                rate_limits: {
+                  label: "API Quota",
+                  format: (limits: EndpointRateLimit[]) => {
+                    // Endpoints closest to running out come first
+                    const tightest = limits[0];
+                    if (!tightest) {
+                      return "No requests yet";
+                    }
+                    const reset = new Date(tightest.reset_at).toLocaleTimeString();
+                    return tightest.exhausted
+                      ? `Blocked until ${reset}`
+                      : `${tightest.remaining}${tightest.limit !== null ? `/${tightest.limit}` : ""} left, resets ${reset}`;
+                  }
                 }
               }}
             />
           </div>
           
+          {budget && budget.monthly_budget > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Monthly API Budget</CardTitle>
+                <CardDescription>
+                  Reads spent in {budget.month} against the budget, and where the month ends at the current pace
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span>{budget.spent.toLocaleString()} of {budget.monthly_budget.toLocaleString()} reads spent</span>
+                    <span>{budget.remaining.toLocaleString()} left</span>
+                  </div>
+                  <Progress value={Math.min(100, (budget.spent / budget.monthly_budget) * 100)} />
+                </div>
+                
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <div className="text-sm text-muted-foreground">Planned by Runs</div>
+                    <div className="text-2xl font-bold">{budget.planned.toLocaleString()}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-sm text-muted-foreground">Actually Spent</div>
+                    <div className="text-2xl font-bold">{budget.spent.toLocaleString()}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-sm text-muted-foreground">Projected Month-End</div>
+                    <div className="text-2xl font-bold flex items-center gap-2">
+                      {budget.projected.toLocaleString()}
+                      {budget.projected > budget.monthly_budget && (
+                        <Badge variant="destructive">Over Budget</Badge>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                
+                {budget.runs.length > 0 && (
+                  <div>
+                    <h3 className="font-medium mb-2">Recent Runs</h3>
+                    <div className="space-y-1">
+                      {budget.runs.slice(0, 10).map((run) => (
+                        <div key={run.id} className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            {new Date(run.started_at).toLocaleString()} ({run.politicians} politicians)
+                          </span>
+                          <span>
+                            {run.spent.toLocaleString()} spent / {run.planned.toLocaleString()} planned
+                            {!run.finished_at && " (running)"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+          
           <Card>
             <CardHeader>
               <CardTitle>Scrape Tweets from Politicians</CardTitle>
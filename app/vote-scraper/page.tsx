@@ -8,6 +8,17 @@ import { Badge } from "../components/ui/badge";
 import { ScraperStatus } from "../components/shared/scraper-status";
 import { DataStats } from "../components/shared/data-stats";
 
+// Labels of the vote types stored in votes.vote
+const VOTE_LABELS: Record<string, string> = {
+  yes: 'Yes',
+  no: 'No',
+  abstain: 'Abstain',
+  not_voting: 'Not voting',
+  absent: 'Absent',
+  excused: 'Excused',
+  abstain_or_not_voting: 'Abstain / not voting',
+};
+
 // Define types for our data
 interface VoteStats {
   vote: string;
@@ -19,6 +30,17 @@ interface RecentVote {
   title: string;
   date: string;
   session_id: string;
+  party: string | null;
+  annulled: boolean;
+}
+
+interface Membership {
+  id: number;
+  party: string | null;
+  partyName: string;
+  type: string;
+  validFrom: string;
+  validTo: string | null;
 }
 
 interface PoliticianData {
@@ -30,12 +52,32 @@ interface PoliticianData {
   totalVotes: number;
   voteStats: VoteStats[];
   recentVotes: RecentVote[];
+  memberships: Membership[];
+}
+
+interface ResultSummary {
+  yes: number;
+  no: number;
+  abstain: number;
+  notVoting: number;
+  absent: number | null;
+  present: number | null;
+  required: number | null;
 }
 
 interface RecentSession {
   session_id: string;
   title: string;
   date: string;
+  meeting_number: number | null;
+  vote_number: number | null;
+  voted_at: string | null;
+  outcome: string | null;
+  majority_type: string | null;
+  result_summary: ResultSummary | null;
+  annulled: boolean;
+  annulment_reason: string | null;
+  repeat_session_id: string | null;
   vote_count: number;
 }
 
@@ -274,16 +316,44 @@ export default function VoteScraper() {
               {recentSessions.map((session, index) => (
                 <div key={index} className="border border-border rounded-md p-4 bg-card">
                   <div className="flex justify-between mb-2">
-                    <span className="font-medium">Session ID: {session.session_id}</span>
+                    <span className="font-medium">
+                      Session ID: {session.session_id}
+                      {session.meeting_number && session.vote_number && (
+                        <span className="text-muted-foreground font-normal">
+                          {' '}· {session.meeting_number}. schůze, {session.vote_number}. hlasování
+                        </span>
+                      )}
+                    </span>
                     <span className="text-muted-foreground text-sm">
-                      {session.date ? new Date(session.date).toLocaleDateString() : 'No date'}
+                      {session.voted_at
+                        ? new Date(session.voted_at).toLocaleString('cs-CZ', { timeZone: 'Europe/Prague' })
+                        : session.date ? new Date(session.date).toLocaleDateString() : 'No date'}
                     </span>
                   </div>
                   <p className="text-foreground mb-2">
                     {session.title || 'No title available'}
                   </p>
-                  <div className="text-sm text-muted-foreground">
-                    Votes recorded: {session.vote_count || 0}
+                  <div className="flex justify-between items-center text-sm text-muted-foreground">
+                    <span>
+                      Votes recorded: {session.vote_count || 0}
+                      {session.result_summary && (
+                        <span>
+                          {' '}· Yes {session.result_summary.yes}, No {session.result_summary.no}, Abstain {session.result_summary.abstain}
+                          {session.result_summary.required !== null && <span>, {session.result_summary.required} required</span>}
+                          {session.majority_type && <span> ({session.majority_type} majority)</span>}
+                        </span>
+                      )}
+                    </span>
+                    {session.annulled ? (
+                      <Badge variant="outline">
+                        {session.annulment_reason === 'contested' ? 'Repeated' : 'Void'}
+                        {session.repeat_session_id && <span> · see {session.repeat_session_id}</span>}
+                      </Badge>
+                    ) : session.outcome && (
+                      <Badge variant={session.outcome === 'passed' ? 'default' : 'destructive'}>
+                        {session.outcome === 'passed' ? 'Passed' : 'Rejected'}
+                      </Badge>
+                    )}
                   </div>
                 </div>
               ))}
@@ -332,7 +402,7 @@ export default function VoteScraper() {
                 <h3 className="text-lg font-medium mb-2">{politicianData.politician.name}</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <p className="text-sm text-muted-foreground">Party</p>
+                    <p className="text-sm text-muted-foreground">Current Party</p>
                     <p className="font-medium">{politicianData.politician.party || "Unknown"}</p>
                   </div>
                   <div>
@@ -348,7 +418,7 @@ export default function VoteScraper() {
                   <div className="grid grid-cols-2 gap-4">
                     {politicianData.voteStats.map((stat: VoteStats, index: number) => (
                       <div key={index}>
-                        <p className="text-sm text-muted-foreground">{stat.vote}</p>
+                        <p className="text-sm text-muted-foreground">{VOTE_LABELS[stat.vote] || stat.vote}</p>
                         <p className="font-medium">{stat.count}</p>
                       </div>
                     ))}
@@ -356,6 +426,25 @@ export default function VoteScraper() {
                 </div>
               </div>
               
+              {politicianData.memberships && politicianData.memberships.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Membership History</h4>
+                  <div className="bg-card border border-border p-4 rounded-md space-y-2">
+                    {politicianData.memberships.map((membership: Membership) => (
+                      <div key={membership.id} className="flex justify-between text-sm">
+                        <span>
+                          <span className="font-medium">{membership.party || membership.partyName}</span>{' '}
+                          <span className="text-muted-foreground">({membership.type === 'club' ? 'club' : 'party'})</span>
+                        </span>
+                        <span className="text-muted-foreground">
+                          {new Date(membership.validFrom).toLocaleDateString()} – {membership.validTo ? new Date(membership.validTo).toLocaleDateString() : 'present'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               <div>
                 <h4 className="text-sm font-medium mb-2">Recent Votes</h4>
                 <div className="space-y-2">
@@ -363,9 +452,13 @@ export default function VoteScraper() {
                     <div key={index} className="bg-card border border-border p-4 rounded-md">
                       <p className="font-medium">{vote.title}</p>
                       <div className="flex justify-between mt-2">
-                        <p className="text-sm text-muted-foreground">{new Date(vote.date).toLocaleDateString()}</p>
-                        <Badge variant={vote.vote === 'A' ? 'default' : vote.vote === 'N' ? 'destructive' : 'outline'}>
-                          {vote.vote === 'A' ? 'Yes' : vote.vote === 'N' ? 'No' : vote.vote}
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(vote.date).toLocaleDateString()}
+                          {vote.party && <span> · voted as {vote.party}</span>}
+                          {vote.annulled && <span> · annulled, not counted</span>}
+                        </p>
+                        <Badge variant={vote.vote === 'yes' ? 'default' : vote.vote === 'no' ? 'destructive' : 'outline'}>
+                          {VOTE_LABELS[vote.vote] || vote.vote}
                         </Badge>
                       </div>
                     </div>
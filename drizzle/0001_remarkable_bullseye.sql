@@ -0,0 +1 @@
+ALTER TABLE "voting_sessions" ADD COLUMN "vote_count" integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "scrape_checkpoints" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"external_id" integer NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"reason" text,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"last_attempt_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "scrape_checkpoint_source_id_idx" ON "scrape_checkpoints" USING btree ("source","external_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "scrape_checkpoint_status_idx" ON "scrape_checkpoints" USING btree ("status");
\ No newline at end of file
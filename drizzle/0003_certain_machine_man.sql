@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "politician_aliases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"politician_id" integer NOT NULL,
+	"alias" varchar(150) NOT NULL,
+	"normalized_alias" varchar(150) NOT NULL,
+	"source" varchar(50),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "politicians" ADD COLUMN "external_id" varchar(50);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "politician_aliases" ADD CONSTRAINT "politician_aliases_politician_id_politicians_id_fk" FOREIGN KEY ("politician_id") REFERENCES "public"."politicians"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "politician_alias_politician_idx" ON "politician_aliases" USING btree ("politician_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "politician_alias_normalized_idx" ON "politician_aliases" USING btree ("normalized_alias");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "politician_alias_unique_idx" ON "politician_aliases" USING btree ("politician_id","normalized_alias");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "politician_external_id_idx" ON "politicians" USING btree ("external_id");--> statement-breakpoint
+ALTER TABLE "politicians" ADD CONSTRAINT "politicians_external_id_unique" UNIQUE("external_id");
\ No newline at end of file
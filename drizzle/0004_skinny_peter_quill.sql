@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS "politician_memberships" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"politician_id" integer NOT NULL,
+	"party_id" integer NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"valid_from" date NOT NULL,
+	"valid_to" date,
+	"source" varchar(50),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "politician_memberships" ADD CONSTRAINT "politician_memberships_politician_id_politicians_id_fk" FOREIGN KEY ("politician_id") REFERENCES "public"."politicians"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "politician_memberships" ADD CONSTRAINT "politician_memberships_party_id_parties_id_fk" FOREIGN KEY ("party_id") REFERENCES "public"."parties"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "politician_membership_politician_idx" ON "politician_memberships" USING btree ("politician_id","valid_from");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "politician_membership_party_idx" ON "politician_memberships" USING btree ("party_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "politician_membership_unique_idx" ON "politician_memberships" USING btree ("politician_id","type","valid_from");--> statement-breakpoint
+-- Seed one open-ended membership per politician from the party stored so far, starting at their first vote
+INSERT INTO "politician_memberships" ("politician_id", "party_id", "type", "valid_from", "source")
+SELECT p."id", p."party_id", 'party', COALESCE(MIN(vs."date"), CURRENT_DATE), 'backfill'
+FROM "politicians" p
+LEFT JOIN "votes" v ON v."politician_id" = p."id"
+LEFT JOIN "voting_sessions" vs ON vs."id" = v."session_id"
+WHERE p."party_id" IS NOT NULL
+GROUP BY p."id", p."party_id"
+ON CONFLICT DO NOTHING;
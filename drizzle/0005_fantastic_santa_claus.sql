@@ -0,0 +1,73 @@
+CREATE TABLE IF NOT EXISTS "electoral_terms" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"number" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"external_id" varchar(50),
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"seat_count" integer DEFAULT 200 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "electoral_terms_number_unique" UNIQUE("number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "term_seats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"term_id" integer NOT NULL,
+	"party_id" integer NOT NULL,
+	"seats" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "politician_memberships" ADD COLUMN "term_id" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "term_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "term_seats" ADD CONSTRAINT "term_seats_term_id_electoral_terms_id_fk" FOREIGN KEY ("term_id") REFERENCES "public"."electoral_terms"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "term_seats" ADD CONSTRAINT "term_seats_party_id_parties_id_fk" FOREIGN KEY ("party_id") REFERENCES "public"."parties"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "electoral_term_start_date_idx" ON "electoral_terms" USING btree ("start_date");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "term_seat_unique_idx" ON "term_seats" USING btree ("term_id","party_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "politician_memberships" ADD CONSTRAINT "politician_memberships_term_id_electoral_terms_id_fk" FOREIGN KEY ("term_id") REFERENCES "public"."electoral_terms"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "voting_sessions" ADD CONSTRAINT "voting_sessions_term_id_electoral_terms_id_fk" FOREIGN KEY ("term_id") REFERENCES "public"."electoral_terms"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "politician_membership_term_idx" ON "politician_memberships" USING btree ("term_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "voting_session_term_idx" ON "voting_sessions" USING btree ("term_id");--> statement-breakpoint
+-- Seed the terms of the Chamber of Deputies; each term starts on the last day of its election
+INSERT INTO "electoral_terms" ("number", "name", "external_id", "start_date", "end_date") VALUES
+	(1, '1. volební období (1993–1996)', 'PSP1', '1993-01-01', '1996-05-31'),
+	(2, '2. volební období (1996–1998)', 'PSP2', '1996-06-01', '1998-06-19'),
+	(3, '3. volební období (1998–2002)', 'PSP3', '1998-06-20', '2002-06-14'),
+	(4, '4. volební období (2002–2006)', 'PSP4', '2002-06-15', '2006-06-02'),
+	(5, '5. volební období (2006–2010)', 'PSP5', '2006-06-03', '2010-05-28'),
+	(6, '6. volební období (2010–2013)', 'PSP6', '2010-05-29', '2013-10-25'),
+	(7, '7. volební období (2013–2017)', 'PSP7', '2013-10-26', '2017-10-20'),
+	(8, '8. volební období (2017–2021)', 'PSP8', '2017-10-21', '2021-10-08'),
+	(9, '9. volební období (2021–2025)', 'PSP9', '2021-10-09', '2025-10-03'),
+	(10, '10. volební období (2025–)', 'PSP10', '2025-10-04', NULL)
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+UPDATE "voting_sessions" vs SET "term_id" = t."id"
+FROM "electoral_terms" t
+WHERE vs."term_id" IS NULL AND vs."date" >= t."start_date" AND (t."end_date" IS NULL OR vs."date" <= t."end_date");
+--> statement-breakpoint
+UPDATE "politician_memberships" m SET "term_id" = t."id"
+FROM "electoral_terms" t
+WHERE m."term_id" IS NULL AND m."valid_from" >= t."start_date" AND (t."end_date" IS NULL OR m."valid_from" <= t."end_date");
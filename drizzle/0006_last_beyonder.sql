@@ -0,0 +1,8 @@
+ALTER TABLE "voting_sessions" ADD COLUMN "meeting_number" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "vote_number" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "voted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "present_count" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "quorum" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "outcome" varchar(20);--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "majority_type" varchar(20);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "voting_session_meeting_vote_idx" ON "voting_sessions" USING btree ("term_id","meeting_number","vote_number");
\ No newline at end of file
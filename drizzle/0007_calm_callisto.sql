@@ -0,0 +1,10 @@
+ALTER TABLE "voting_sessions" ADD COLUMN "annulled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "annulment_reason" varchar(20);--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "repeat_session_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "voting_sessions" ADD CONSTRAINT "voting_sessions_repeat_session_id_voting_sessions_id_fk" FOREIGN KEY ("repeat_session_id") REFERENCES "public"."voting_sessions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "voting_session_repeat_idx" ON "voting_sessions" USING btree ("repeat_session_id");
\ No newline at end of file
@@ -0,0 +1,24 @@
+ALTER TABLE "votes" ALTER COLUMN "vote" SET DATA TYPE varchar(30);--> statement-breakpoint
+ALTER TABLE "votes" ADD COLUMN "source_code" varchar(5);--> statement-breakpoint
+-- Rows saved with raw psp.cz symbols keep the symbol as their source code
+UPDATE "votes" SET "source_code" = "vote" WHERE "vote" IN ('A', 'N', 'Z', 'X', '0', 'M');--> statement-breakpoint
+UPDATE "votes" SET "vote" = CASE "vote"
+	WHEN 'A' THEN 'yes'
+	WHEN 'N' THEN 'no'
+	WHEN 'Z' THEN 'abstain'
+	WHEN 'X' THEN 'not_voting'
+	WHEN '0' THEN 'absent'
+	WHEN 'M' THEN 'excused'
+END
+WHERE "vote" IN ('A', 'N', 'Z', 'X', '0', 'M');--> statement-breakpoint
+DO $$
+DECLARE unknown text;
+BEGIN
+ SELECT string_agg(DISTINCT "vote", ', ') INTO unknown FROM "votes"
+ WHERE "vote" NOT IN ('yes', 'no', 'abstain', 'not_voting', 'absent', 'excused', 'abstain_or_not_voting');
+ IF unknown IS NOT NULL THEN
+  RAISE EXCEPTION 'votes.vote holds values outside the vote model: %', unknown;
+ END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "votes" ADD CONSTRAINT "vote_type_check" CHECK ("vote" IN ('yes', 'no', 'abstain', 'not_voting', 'absent', 'excused', 'abstain_or_not_voting'));
@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS "agenda_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"term_id" integer NOT NULL,
+	"meeting_number" integer NOT NULL,
+	"item_number" integer NOT NULL,
+	"title" text,
+	"bill_id" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bills" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"term_id" integer NOT NULL,
+	"print_number" integer NOT NULL,
+	"title" text,
+	"external_id" varchar(50),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "agenda_item_id" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "bill_id" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "reading" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "vote_kind" varchar(20);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "agenda_items" ADD CONSTRAINT "agenda_items_term_id_electoral_terms_id_fk" FOREIGN KEY ("term_id") REFERENCES "public"."electoral_terms"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "agenda_items" ADD CONSTRAINT "agenda_items_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "public"."bills"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bills" ADD CONSTRAINT "bills_term_id_electoral_terms_id_fk" FOREIGN KEY ("term_id") REFERENCES "public"."electoral_terms"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "agenda_item_meeting_item_idx" ON "agenda_items" USING btree ("term_id","meeting_number","item_number");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "agenda_item_bill_idx" ON "agenda_items" USING btree ("bill_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "bill_term_print_idx" ON "bills" USING btree ("term_id","print_number");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "voting_sessions" ADD CONSTRAINT "voting_sessions_agenda_item_id_agenda_items_id_fk" FOREIGN KEY ("agenda_item_id") REFERENCES "public"."agenda_items"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "voting_sessions" ADD CONSTRAINT "voting_sessions_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "public"."bills"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "voting_session_bill_idx" ON "voting_sessions" USING btree ("bill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "voting_session_agenda_item_idx" ON "voting_sessions" USING btree ("agenda_item_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "electoral_terms" DROP CONSTRAINT "electoral_terms_number_unique";--> statement-breakpoint
+ALTER TABLE "voting_sessions" DROP CONSTRAINT "voting_sessions_external_id_unique";--> statement-breakpoint
+DROP INDEX IF EXISTS "politician_membership_unique_idx";--> statement-breakpoint
+DROP INDEX IF EXISTS "voting_session_external_id_idx";--> statement-breakpoint
+ALTER TABLE "electoral_terms" ADD COLUMN "chamber" varchar(20) DEFAULT 'deputies' NOT NULL;--> statement-breakpoint
+ALTER TABLE "politician_memberships" ADD COLUMN "chamber" varchar(20) DEFAULT 'deputies' NOT NULL;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "chamber" varchar(20) DEFAULT 'deputies' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "electoral_term_chamber_number_idx" ON "electoral_terms" USING btree ("chamber","number");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "politician_membership_unique_idx" ON "politician_memberships" USING btree ("politician_id","chamber","type","valid_from");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "voting_session_external_id_idx" ON "voting_sessions" USING btree ("chamber","external_id");
\ No newline at end of file
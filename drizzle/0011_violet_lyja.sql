@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "raw_archive_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"source_url" text NOT NULL,
+	"fetched_at" timestamp with time zone NOT NULL,
+	"external_id" varchar(50),
+	"hash" varchar(64) NOT NULL,
+	"content_type" varchar(100),
+	"byte_size" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "tweets" ADD COLUMN "archive_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "archive_hash" varchar(64);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "raw_archive_url_fetched_idx" ON "raw_archive_entries" USING btree ("source_url","fetched_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "raw_archive_source_id_idx" ON "raw_archive_entries" USING btree ("source","external_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "raw_archive_hash_idx" ON "raw_archive_entries" USING btree ("hash");
\ No newline at end of file
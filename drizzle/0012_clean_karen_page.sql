@@ -0,0 +1,39 @@
+CREATE TABLE IF NOT EXISTS "provenance_records" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"adapter" varchar(50) NOT NULL,
+	"source_url" text NOT NULL,
+	"fetched_at" timestamp with time zone NOT NULL,
+	"parser_version" varchar(30) NOT NULL,
+	"archive_hash" varchar(64),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "politicians" ADD COLUMN "provenance_id" integer;--> statement-breakpoint
+ALTER TABLE "tweets" ADD COLUMN "provenance_id" integer;--> statement-breakpoint
+ALTER TABLE "votes" ADD COLUMN "provenance_id" integer;--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "provenance_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "provenance_unique_idx" ON "provenance_records" USING btree ("adapter","source_url","fetched_at","parser_version");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "provenance_archive_hash_idx" ON "provenance_records" USING btree ("archive_hash");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "politicians" ADD CONSTRAINT "politicians_provenance_id_provenance_records_id_fk" FOREIGN KEY ("provenance_id") REFERENCES "public"."provenance_records"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tweets" ADD CONSTRAINT "tweets_provenance_id_provenance_records_id_fk" FOREIGN KEY ("provenance_id") REFERENCES "public"."provenance_records"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "votes" ADD CONSTRAINT "votes_provenance_id_provenance_records_id_fk" FOREIGN KEY ("provenance_id") REFERENCES "public"."provenance_records"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "voting_sessions" ADD CONSTRAINT "voting_sessions_provenance_id_provenance_records_id_fk" FOREIGN KEY ("provenance_id") REFERENCES "public"."provenance_records"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
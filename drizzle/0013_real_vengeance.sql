@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS "session_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"field" varchar(50) NOT NULL,
+	"politician_id" integer,
+	"member_name" varchar(150),
+	"before_value" json,
+	"after_value" json,
+	"status" varchar(20) NOT NULL,
+	"provenance_id" integer,
+	"detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"applied_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "voting_sessions" ADD COLUMN "revalidated_at" timestamp with time zone;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_changes" ADD CONSTRAINT "session_changes_session_id_voting_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."voting_sessions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_changes" ADD CONSTRAINT "session_changes_politician_id_politicians_id_fk" FOREIGN KEY ("politician_id") REFERENCES "public"."politicians"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_changes" ADD CONSTRAINT "session_changes_provenance_id_provenance_records_id_fk" FOREIGN KEY ("provenance_id") REFERENCES "public"."provenance_records"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "session_change_session_idx" ON "session_changes" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "session_change_status_idx" ON "session_changes" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "session_change_politician_idx" ON "session_changes" USING btree ("politician_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "http_validators" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"url" text NOT NULL,
+	"etag" varchar(200),
+	"last_modified" varchar(100),
+	"content_type" varchar(100),
+	"hash" varchar(64) NOT NULL,
+	"checked_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "http_validator_url_idx" ON "http_validators" USING btree ("url");
\ No newline at end of file
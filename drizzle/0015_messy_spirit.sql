@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "scrape_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service" varchar(20) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"config" json,
+	"total_items" integer DEFAULT 0 NOT NULL,
+	"processed_items" integer DEFAULT 0 NOT NULL,
+	"errors" json DEFAULT '[]'::json NOT NULL,
+	"logs" json DEFAULT '[]'::json NOT NULL,
+	"results" json,
+	"stop_requested_at" timestamp with time zone,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "scrape_job_service_status_idx" ON "scrape_jobs" USING btree ("service","status");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "tweet_sync_cursors" (
+	"politician_id" integer PRIMARY KEY NOT NULL,
+	"newest_tweet_id" varchar(50),
+	"oldest_tweet_id" varchar(50),
+	"backfilled_to" timestamp,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tweet_sync_cursors" ADD CONSTRAINT "tweet_sync_cursors_politician_id_politicians_id_fk" FOREIGN KEY ("politician_id") REFERENCES "public"."politicians"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
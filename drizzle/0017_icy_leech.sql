@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "api_rate_limits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service" varchar(50) NOT NULL,
+	"endpoint" varchar(200) NOT NULL,
+	"request_limit" integer,
+	"remaining" integer NOT NULL,
+	"reset_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "api_rate_limit_service_endpoint_idx" ON "api_rate_limits" USING btree ("service","endpoint");
\ No newline at end of file
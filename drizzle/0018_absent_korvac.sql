@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "tweet_fetch_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"month" varchar(7) NOT NULL,
+	"monthly_budget" integer NOT NULL,
+	"planned_reads" integer NOT NULL,
+	"spent_reads" integer DEFAULT 0 NOT NULL,
+	"politicians" integer NOT NULL,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "politicians" ADD COLUMN "twitter_priority" integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tweet_fetch_run_month_idx" ON "tweet_fetch_runs" USING btree ("month");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "politicians" ADD COLUMN "mastodon_handle" varchar(100);--> statement-breakpoint
+ALTER TABLE "politicians" ADD COLUMN "bluesky_handle" varchar(100);--> statement-breakpoint
+ALTER TABLE "tweets" ADD COLUMN "platform" varchar(20) DEFAULT 'twitter' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tweets" ALTER COLUMN "external_id" SET DATA TYPE varchar(300);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tweet_platform_idx" ON "tweets" USING btree ("platform");--> statement-breakpoint
+ALTER TABLE "tweet_sync_cursors" ADD COLUMN "platform" varchar(20) DEFAULT 'twitter' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tweet_sync_cursors" DROP CONSTRAINT "tweet_sync_cursors_pkey";--> statement-breakpoint
+ALTER TABLE "tweet_sync_cursors" ADD CONSTRAINT "tweet_sync_cursors_politician_id_platform_pk" PRIMARY KEY("politician_id","platform");
@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS "social_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"politician_id" integer NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"handle" varchar(100) NOT NULL,
+	"platform_user_id" varchar(100),
+	"account_type" varchar(20) DEFAULT 'official' NOT NULL,
+	"valid_from" timestamp DEFAULT now() NOT NULL,
+	"valid_to" timestamp,
+	"source" varchar(50),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "social_accounts" ADD CONSTRAINT "social_accounts_politician_id_politicians_id_fk" FOREIGN KEY ("politician_id") REFERENCES "public"."politicians"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "social_account_politician_idx" ON "social_accounts" USING btree ("politician_id","platform");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "social_account_handle_idx" ON "social_accounts" USING btree ("platform","handle");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "social_account_user_id_idx" ON "social_accounts" USING btree ("platform","platform_user_id");--> statement-breakpoint
+-- Seed one current account per handle stored so far, starting when the politician was created
+INSERT INTO "social_accounts" ("politician_id", "platform", "handle", "valid_from", "source")
+SELECT "id", 'twitter', "twitter_handle", COALESCE("created_at", now()), 'backfill' FROM "politicians"
+WHERE "twitter_handle" IS NOT NULL AND "twitter_handle" <> ''
+UNION ALL
+SELECT "id", 'mastodon', "mastodon_handle", COALESCE("created_at", now()), 'backfill' FROM "politicians"
+WHERE "mastodon_handle" IS NOT NULL AND "mastodon_handle" <> ''
+UNION ALL
+SELECT "id", 'bluesky', "bluesky_handle", COALESCE("created_at", now()), 'backfill' FROM "politicians"
+WHERE "bluesky_handle" IS NOT NULL AND "bluesky_handle" <> '';
@@ -0,0 +1,2 @@
+ALTER TABLE "tweet_sync_cursors" ADD COLUMN "gap_since_id" varchar(50);--> statement-breakpoint
+ALTER TABLE "tweet_sync_cursors" ADD COLUMN "gap_until_id" varchar(50);
\ No newline at end of file
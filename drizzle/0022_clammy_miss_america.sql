@@ -0,0 +1 @@
+ALTER TABLE "politicians" DROP CONSTRAINT "politicians_external_id_unique";
\ No newline at end of file
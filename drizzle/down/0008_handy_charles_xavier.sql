@@ -0,0 +1,8 @@
+-- Reverts 0008_handy_charles_xavier to the five-value vote model.
+-- Excused absences fall back to 'absent' and undistinguished abstentions to 'abstain'.
+ALTER TABLE "votes" DROP CONSTRAINT IF EXISTS "vote_type_check";
+UPDATE "votes" SET "vote" = 'absent' WHERE "vote" = 'excused';
+UPDATE "votes" SET "vote" = 'abstain' WHERE "vote" = 'abstain_or_not_voting';
+ALTER TABLE "votes" DROP COLUMN IF EXISTS "source_code";
+ALTER TABLE "votes" ALTER COLUMN "vote" SET DATA TYPE varchar(20);
+DELETE FROM "drizzle"."__drizzle_migrations" WHERE "created_at" = 1792340246974;
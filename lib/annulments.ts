@@ -0,0 +1,128 @@
+/**
+ * Annulled Votes Module
+ *
+ * This module handles votes the Chamber declared void (zmatečné hlasování) or repeated
+ * after their result was contested. Annulled sessions stay in the database, linked to the
+ * vote that repeated them, but are left out of attendance and statistics unless asked for.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { votingSessions, AnnulmentReason } from '../src/db/schema';
+import { and, eq, inArray, or, sql, SQL } from 'drizzle-orm';
+
+/**
+ * Annulment reason type
+ */
+export type AnnulmentReasonValue = typeof AnnulmentReason[keyof typeof AnnulmentReason];
+
+/**
+ * Build the session filter used by counting queries
+ * @param includeAnnulled Whether annulled sessions should be counted too
+ * @returns Condition on voting_sessions, or undefined when every session counts
+ */
+export function countedSessions(includeAnnulled: boolean = false): SQL | undefined {
+  return includeAnnulled ? undefined : eq(votingSessions.annulled, false);
+}
+
+/**
+ * Mark a session as annulled
+ * Sessions already marked this way are left alone, so re-imports do not touch them.
+ * @param sessionId Internal session ID
+ * @param reason Why the vote was annulled
+ * @param repeatSessionId Internal ID of the session that repeated the vote, if known
+ * @param executor Database or open transaction to use
+ * @returns Whether the session changed
+ */
+export async function markSessionAnnulled(
+  sessionId: number,
+  reason: AnnulmentReasonValue,
+  repeatSessionId: number | null = null,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  const changed = await executor
+    .update(votingSessions)
+    .set({
+      annulled: true,
+      annulmentReason: reason,
+      ...(repeatSessionId !== null ? { repeatSessionId } : {}),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(votingSessions.id, sessionId),
+      or(
+        sql`${votingSessions.annulled} IS DISTINCT FROM true`,
+        sql`${votingSessions.annulmentReason} IS DISTINCT FROM ${reason}`,
+        repeatSessionId !== null ? sql`${votingSessions.repeatSessionId} IS DISTINCT FROM ${repeatSessionId}` : undefined
+      )
+    ))
+    .returning({ id: votingSessions.id });
+  
+  return changed.length > 0;
+}
+
+/**
+ * Clear the annulment of sessions the source no longer lists as annulled
+ * @param sessionIds Internal session IDs to clear, e.g. the sessions of an imported year that were not listed
+ * @param reason Only clear sessions annulled for this reason
+ * @param executor Database or open transaction to use
+ * @returns Number of sessions cleared
+ */
+export async function clearSessionAnnulments(
+  sessionIds: number[],
+  reason: AnnulmentReasonValue,
+  executor: DbExecutor = db
+): Promise<number> {
+  if (sessionIds.length === 0) {
+    return 0;
+  }
+  
+  const cleared = await executor
+    .update(votingSessions)
+    .set({ annulled: false, annulmentReason: null, repeatSessionId: null, updatedAt: new Date() })
+    .where(and(
+      inArray(votingSessions.id, sessionIds),
+      eq(votingSessions.annulled, true),
+      eq(votingSessions.annulmentReason, reason)
+    ))
+    .returning({ id: votingSessions.id });
+  
+  return cleared.length;
+}
+
+/**
+ * Link annulled sessions to the vote that repeated them
+ * The repeat is a later vote of the same meeting and day with the same title, or else the vote right after.
+ * Links are recomputed on every run, so a session saved later or a corrected title moves the link;
+ * contested votes keep the repeat the open data names.
+ * @param executor Database or open transaction to use
+ * @returns Number of sessions whose link changed
+ */
+export async function linkRepeatSessions(executor: DbExecutor = db): Promise<number> {
+  const linked = await executor.execute(sql`
+    WITH candidates AS (
+      SELECT s.id, (
+               SELECT r.id FROM ${votingSessions} r
+               WHERE r.term_id = s.term_id
+                 AND r.meeting_number = s.meeting_number
+                 AND r.date = s.date
+                 AND r.vote_number > s.vote_number
+                 AND (r.title = s.title OR r.vote_number = s.vote_number + 1)
+                 AND NOT r.annulled
+               ORDER BY (r.title = s.title) DESC, r.vote_number
+               LIMIT 1
+             ) AS repeat_id
+      FROM ${votingSessions} s
+      WHERE s.annulled
+        AND s.annulment_reason IS DISTINCT FROM ${AnnulmentReason.CONTESTED}
+        AND s.meeting_number IS NOT NULL
+    )
+    UPDATE ${votingSessions} s
+    SET repeat_session_id = c.repeat_id,
+        updated_at = now()
+    FROM candidates c
+    WHERE s.id = c.id
+      AND s.repeat_session_id IS DISTINCT FROM c.repeat_id
+  `);
+  
+  return linked.rowCount ?? 0;
+}
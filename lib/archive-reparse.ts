@@ -0,0 +1,255 @@
+/**
+ * Archive Re-parse Module
+ *
+ * This module parses archived voting pages again with the current parsers and compares
+ * the result with what is stored, so a markup change or parser fix can be checked and
+ * applied without downloading anything. Only the latest archived fetch of each source ID is used.
+ * Applied sessions are credited to the archived fetch and the current parser version.
+ */
+
+import { db } from '../src/db/config';
+import { votingSessions, votes, politicians, Chamber } from '../src/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { ParsedVotingPage } from './psp-parser';
+import { normalizeName } from './politician-resolver';
+import { fetchLatestArchiveEntries, readArchivedPayload } from './raw-archive';
+import { saveParsedSession } from './vote-scraper';
+import { getVoteSource, VoteSourceAdapter } from './vote-sources';
+import { linkRepeatSessions } from './annulments';
+import { recordProvenance, ProvenanceInput } from './provenance';
+import { ChamberValue } from './chambers';
+
+/**
+ * Field change interface
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Vote change interface
+ * `before` is null for members the stored session lacks, `after` for members the page no longer lists.
+ */
+export interface VoteChange {
+  name: string;
+  politicianId: number | null;  // null for members the stored session lacks
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Re-parsed session interface
+ */
+export interface ReparsedSession {
+  externalId: string;
+  sessionId: number | null;  // null when the archived page was never saved as a session
+  archiveHash: string;
+  fetchedAt: Date;
+  status: 'changed' | 'new' | 'unparseable' | 'missing';
+  fields: FieldChange[];
+  votes: VoteChange[];
+}
+
+/**
+ * Re-parse options interface
+ */
+export interface ReparseOptions {
+  from: number;                // First source ID
+  to: number;                  // Last source ID
+  chamber?: ChamberValue;      // Chamber whose default source parses the pages (defaults to the Chamber of Deputies)
+  source?: VoteSourceAdapter;  // Source to parse with instead, e.g. the European Parliament adapter
+  apply?: boolean;             // Save the re-parsed sessions
+}
+
+/**
+ * Re-parse report interface
+ */
+export interface ReparseReport {
+  checked: number;
+  unchanged: number;
+  changed: number;
+  added: number;        // Archived pages that parse into a session which is not stored
+  unparseable: number;  // Archived pages the current parser cannot read
+  missing: number;      // Archive entries whose payload file is gone
+  applied: number;
+  sessions: ReparsedSession[];  // Every session that is not unchanged
+}
+
+/**
+ * Load a stored session with its votes
+ */
+export async function loadStoredSession(chamber: ChamberValue, externalId: string) {
+  const session = await db
+    .select()
+    .from(votingSessions)
+    .where(and(eq(votingSessions.chamber, chamber), eq(votingSessions.externalId, externalId)))
+    .limit(1);
+  
+  if (session.length === 0) {
+    return null;
+  }
+  
+  const storedVotes = await db
+    .select({ politicianId: politicians.id, name: politicians.name, externalId: politicians.externalId, vote: votes.vote })
+    .from(votes)
+    .innerJoin(politicians, eq(votes.politicianId, politicians.id))
+    .where(eq(votes.sessionId, session[0].id));
+  
+  return { ...session[0], votes: storedVotes };
+}
+
+/**
+ * Stored session with its votes, as compared with a re-parsed page
+ */
+export type StoredSession = NonNullable<Awaited<ReturnType<typeof loadStoredSession>>>;
+
+/**
+ * Compare a stored session with its re-parsed page
+ * Values the page does not give (null, or not annulled) are not compared,
+ * since other sources such as the open data import may have filled them in.
+ */
+export function diffSession(
+  stored: StoredSession,
+  parsed: ParsedVotingPage
+): { fields: FieldChange[]; votes: VoteChange[] } {
+  const fields: FieldChange[] = [];
+  const compare = (field: string, before: unknown, after: unknown) => {
+    if (after !== null && after !== undefined && JSON.stringify(before ?? null) !== JSON.stringify(after)) {
+      fields.push({ field, before: before ?? null, after });
+    }
+  };
+  
+  compare('title', stored.title, parsed.title.slice(0, 200));
+  compare('date', stored.date, parsed.date);
+  compare('meetingNumber', stored.meetingNumber, parsed.meetingNumber);
+  compare('voteNumber', stored.voteNumber, parsed.voteNumber);
+  compare('presentCount', stored.presentCount, parsed.presentCount);
+  compare('quorum', stored.quorum, parsed.quorum);
+  compare('outcome', stored.outcome, parsed.outcome);
+  compare('majorityType', stored.majorityType, parsed.majorityType);
+  compare('annulled', stored.annulled, parsed.annulled || null);
+  for (const [key, value] of Object.entries(parsed.resultSummary)) {
+    compare(`resultSummary.${key}`, stored.resultSummary?.[key as keyof typeof parsed.resultSummary], value);
+  }
+  
+  // Members are matched by official ID when the page gives one, by normalised name otherwise
+  const unmatched = new Set(stored.votes);
+  const voteChanges: VoteChange[] = [];
+  for (const vote of parsed.votes) {
+    const key = normalizeName(vote.name);
+    const match = stored.votes.find(row => unmatched.has(row) && (vote.pspId ? row.externalId === vote.pspId : normalizeName(row.name) === key));
+    if (match) {
+      unmatched.delete(match);
+    }
+    if (!match || match.vote !== vote.vote) {
+      voteChanges.push({ name: vote.name, politicianId: match ? match.politicianId : null, before: match ? match.vote : null, after: vote.vote });
+    }
+  }
+  for (const row of Array.from(unmatched)) {
+    voteChanges.push({ name: row.name, politicianId: row.politicianId, before: row.vote, after: null });
+  }
+  
+  return { fields, votes: voteChanges };
+}
+
+/**
+ * Save a re-read page over its stored session
+ * Title and date are only written when a session is created, so they are updated here first.
+ * @param sessionId Internal ID of the stored session
+ * @param provenance Fetch and parser the page came from
+ * @returns Number of votes saved
+ */
+export async function applyReparsedSession(sessionId: number, parsed: ParsedVotingPage, provenance: ProvenanceInput): Promise<number> {
+  await db
+    .update(votingSessions)
+    .set({ title: parsed.title.slice(0, 200), date: parsed.date, updatedAt: new Date() })
+    .where(eq(votingSessions.id, sessionId));
+  return saveParsedSession(parsed, provenance);
+}
+
+/**
+ * Re-parse archived pages of a source ID range and report what changed
+ * @param options Range, source and whether to save the re-parsed sessions
+ * @returns Counts and every session whose re-parsed page differs from what is stored
+ */
+export async function reparseArchive(options: ReparseOptions): Promise<ReparseReport> {
+  const adapter = options.source || getVoteSource(options.chamber || Chamber.DEPUTIES);
+  const report: ReparseReport = { checked: 0, unchanged: 0, changed: 0, added: 0, unparseable: 0, missing: 0, applied: 0, sessions: [] };
+  
+  try {
+    const entries = await fetchLatestArchiveEntries(adapter.name, options.from, options.to);
+    
+    for (const entry of entries) {
+      const externalId = entry.externalId as string;
+      const id = parseInt(externalId, 10);
+      const base = { externalId, archiveHash: entry.hash, fetchedAt: entry.fetchedAt, fields: [], votes: [] };
+      const provenance: ProvenanceInput = {
+        adapter: adapter.name,
+        sourceUrl: entry.sourceUrl,
+        fetchedAt: entry.fetchedAt,
+        parserVersion: adapter.parserVersion,
+        archiveHash: entry.hash,
+      };
+      report.checked++;
+      
+      const raw = await readArchivedPayload(entry.hash);
+      if (raw === null) {
+        report.missing++;
+        report.sessions.push({ ...base, sessionId: null, status: 'missing' });
+        continue;
+      }
+      
+      const stored = await loadStoredSession(adapter.chamber, externalId);
+      const session = adapter.parseSession(raw, id);
+      if (!session) {
+        report.unparseable++;
+        // Pages without a vote are archived too; only stored sessions are worth listing
+        if (stored) {
+          report.sessions.push({ ...base, sessionId: stored.id, status: 'unparseable' });
+        }
+        continue;
+      }
+      
+      const parsed: ParsedVotingPage = { ...session, votes: adapter.parseMembers(raw, id) };
+      
+      if (!stored) {
+        report.added++;
+        report.sessions.push({ ...base, sessionId: null, status: 'new' });
+        if (options.apply) {
+          await saveParsedSession(parsed, provenance);
+          report.applied++;
+        }
+        continue;
+      }
+      
+      const diff = diffSession(stored, parsed);
+      if (diff.fields.length === 0 && diff.votes.length === 0) {
+        report.unchanged++;
+        if (options.apply && stored.archiveHash !== entry.hash) {
+          const provenanceId = await recordProvenance(provenance);
+          await db.update(votingSessions).set({ archiveHash: entry.hash, provenanceId }).where(eq(votingSessions.id, stored.id));
+        }
+        continue;
+      }
+      
+      report.changed++;
+      report.sessions.push({ ...base, sessionId: stored.id, status: 'changed', ...diff });
+      
+      if (options.apply) {
+        await applyReparsedSession(stored.id, parsed, provenance);
+        report.applied++;
+      }
+    }
+    
+    if (report.applied > 0) {
+      await linkRepeatSessions();
+    }
+    
+    return report;
+  } catch (error) {
+    console.error('Error re-parsing archive:', error);
+    throw new Error('Failed to re-parse archive');
+  }
+}
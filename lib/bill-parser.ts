@@ -0,0 +1,119 @@
+/**
+ * Bill Parser Module
+ *
+ * This module reads bill references out of voting titles and page text.
+ * Titles on psp.cz are free text such as "Vládní návrh zákona ... /sněmovní tisk 123/ - 3. čtení";
+ * the parser pulls out the print (tisk) number, the reading and whether the vote
+ * decided an amendment, the bill as a whole or a procedural question.
+ * Parsing is pure: no network or database access happens here.
+ */
+
+import { VoteKind } from '../src/db/schema';
+
+/**
+ * Vote kind type
+ */
+export type VoteKindValue = typeof VoteKind[keyof typeof VoteKind];
+
+/**
+ * Bill reference interface
+ */
+export interface BillReference {
+  printNumber: number | null;   // Sněmovní tisk number (e.g. 123 for "tisk 123/2")
+  reading: number | null;       // Reading the vote belongs to (1, 2 or 3)
+  voteKind: VoteKindValue | null;
+}
+
+// Ordinal words used for readings ("prvé čtení", "třetí čtení")
+const READING_WORDS: Record<string, number> = {
+  'prvé': 1,
+  'první': 1,
+  'prvním': 1,
+  'druhé': 2,
+  'druhém': 2,
+  'třetí': 3,
+  'třetím': 3,
+};
+
+// "sněmovní tisk 123", "sněm. tisk 123/2", "tisku č. 123"
+const PRINT_PATTERN = /\btisk(?:u|em|y|ů)?\s*(?:č\.\s*)?(\d+)(?:\s*\/\s*\d+)?/i;
+
+// "3. čtení", "3.čtení", "třetí čtení", "ve třetím čtení"
+const READING_PATTERN = /(?:\b([123])\.\s*|\b(prvé|první|prvním|druhé|druhém|třetí|třetím)\s+)čtení/i;
+
+// Amendments are named in full or by their "PN" shorthand
+const AMENDMENT_PATTERN = /pozměňovac|pozm\.\s*návrh|\bPN\b/i;
+
+// The vote on the bill as a whole closes the third reading
+const FINAL_PATTERN = /jako\s+cel(?:ek|ku)|závěrečné\s+hlasování|\bcelek\b/i;
+
+// Questions about the proceedings rather than the bill's content
+const PROCEDURAL_PATTERN = /pořadu?\s+schůze|procedurální|přerušení|zkrácení\s+lhůty|námitk|sloučení\s+rozpravy|lhůt[ay]\s+k\s+projednání|přikázání/i;
+
+/**
+ * Parse the print number of a bill from text
+ * @returns Print number, or null if the text names no print
+ */
+export function parsePrintNumber(text: string): number | null {
+  const match = text.match(PRINT_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Parse the reading a vote belongs to from text
+ * @returns Reading (1, 2 or 3), or null if the text names none
+ */
+export function parseReading(text: string): number | null {
+  const match = text.match(READING_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return match[1] ? parseInt(match[1], 10) : READING_WORDS[match[2].toLowerCase()] ?? null;
+}
+
+/**
+ * Classify what a vote decided
+ * Amendments are checked first since their titles often also name the final text.
+ * @returns VoteKind value, or null if the text gives no hint
+ */
+export function parseVoteKind(text: string): VoteKindValue | null {
+  if (AMENDMENT_PATTERN.test(text)) {
+    return VoteKind.AMENDMENT;
+  }
+  if (FINAL_PATTERN.test(text)) {
+    return VoteKind.FINAL;
+  }
+  if (PROCEDURAL_PATTERN.test(text)) {
+    return VoteKind.PROCEDURAL;
+  }
+  return null;
+}
+
+/**
+ * Parse a bill reference from the title of a vote and any further page text
+ * Later texts only fill in what earlier ones left out, so pass the title first.
+ * @param texts Voting title, followed by page metadata such as the agenda item name
+ * @returns Bill reference; fields the texts do not mention are null
+ */
+export function parseBillReference(...texts: Array<string | null | undefined>): BillReference {
+  const reference: BillReference = { printNumber: null, reading: null, voteKind: null };
+  
+  for (const text of texts) {
+    if (!text) {
+      continue;
+    }
+    reference.printNumber = reference.printNumber ?? parsePrintNumber(text);
+    reference.reading = reference.reading ?? parseReading(text);
+    reference.voteKind = reference.voteKind ?? parseVoteKind(text);
+  }
+  
+  // A final vote only happens in the third reading
+  if (reference.voteKind === VoteKind.FINAL && reference.printNumber && !reference.reading) {
+    reference.reading = 3;
+  }
+  
+  return reference;
+}
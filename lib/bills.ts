@@ -0,0 +1,340 @@
+/**
+ * Bills Module
+ *
+ * This module links voting sessions to the bills (sněmovní tisky) and agenda items
+ * they decide, and returns the voting history of a bill.
+ * Print numbers restart with every electoral term, so bills are keyed by term and number.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { bills, agendaItems, votingSessions, ResultSummary, Chamber } from '../src/db/schema';
+import { and, asc, desc, eq, isNull, sql } from 'drizzle-orm';
+import { PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { parseBillReference, BillReference } from './bill-parser';
+import { requireTerm } from './terms';
+import { chamberScope, ChamberValue } from './chambers';
+
+/**
+ * Session bill link interface
+ * What a source tells us about the bill and agenda item behind a vote
+ */
+export interface SessionBillLink extends BillReference {
+  agendaItemNumber?: number | null;
+  agendaItemTitle?: string | null;
+  billTitle?: string | null;
+  billExternalId?: string | null;
+}
+
+/**
+ * Bill interface
+ */
+export interface Bill {
+  id: number;
+  term: number;
+  printNumber: number;
+  title: string | null;
+  voteCount: number;
+  lastVoteDate: string | null;
+}
+
+/**
+ * Bill vote interface
+ * One voting session in the history of a bill
+ */
+export interface BillVote {
+  id: number;
+  sessionId: string | null;
+  title: string;
+  date: string;
+  votedAt: string | null;
+  meetingNumber: number | null;
+  voteNumber: number | null;
+  agendaItemNumber: number | null;
+  reading: number | null;
+  voteKind: string | null;
+  outcome: string | null;
+  resultSummary: ResultSummary | null;
+  annulled: boolean;
+}
+
+/**
+ * Bill voting history interface
+ */
+export interface BillVotingHistory {
+  bill: Omit<Bill, 'voteCount' | 'lastVoteDate'>;
+  agendaItems: Array<{ meetingNumber: number; itemNumber: number; title: string | null }>;
+  votes: BillVote[];
+}
+
+/**
+ * Find a bill by term and print number, creating it if needed
+ * A missing title or source ID is filled in when given.
+ * @returns Bill ID
+ */
+export async function findOrCreateBill(
+  termId: number,
+  printNumber: number,
+  title: string | null = null,
+  externalId: string | null = null,
+  executor: DbExecutor = db
+): Promise<number> {
+  const existing = await executor
+    .select({ id: bills.id, title: bills.title, externalId: bills.externalId })
+    .from(bills)
+    .where(and(eq(bills.termId, termId), eq(bills.printNumber, printNumber)))
+    .limit(1);
+  
+  if (existing.length > 0) {
+    if ((title && !existing[0].title) || (externalId && !existing[0].externalId)) {
+      await executor
+        .update(bills)
+        .set({ title: existing[0].title || title, externalId: existing[0].externalId || externalId, updatedAt: new Date() })
+        .where(eq(bills.id, existing[0].id));
+    }
+    return existing[0].id;
+  }
+  
+  const result = await executor
+    .insert(bills)
+    .values({ termId, printNumber, title, externalId })
+    .returning({ id: bills.id });
+  
+  return result[0].id;
+}
+
+/**
+ * Find an agenda item by term, meeting and item number, creating it if needed
+ * A missing title or bill is filled in when given.
+ * @returns Agenda item ID and the bill it discusses
+ */
+export async function findOrCreateAgendaItem(
+  termId: number,
+  meetingNumber: number,
+  itemNumber: number,
+  title: string | null = null,
+  billId: number | null = null,
+  executor: DbExecutor = db
+): Promise<{ id: number; billId: number | null }> {
+  const existing = await executor
+    .select({ id: agendaItems.id, title: agendaItems.title, billId: agendaItems.billId })
+    .from(agendaItems)
+    .where(and(
+      eq(agendaItems.termId, termId),
+      eq(agendaItems.meetingNumber, meetingNumber),
+      eq(agendaItems.itemNumber, itemNumber)
+    ))
+    .limit(1);
+  
+  if (existing.length > 0) {
+    const item = existing[0];
+    if ((title && !item.title) || (billId && !item.billId)) {
+      await executor
+        .update(agendaItems)
+        .set({ title: item.title || title, billId: item.billId || billId, updatedAt: new Date() })
+        .where(eq(agendaItems.id, item.id));
+    }
+    return { id: item.id, billId: item.billId || billId };
+  }
+  
+  const result = await executor
+    .insert(agendaItems)
+    .values({ termId, meetingNumber, itemNumber, title, billId })
+    .returning({ id: agendaItems.id });
+  
+  return { id: result[0].id, billId };
+}
+
+/**
+ * Link a voting session to its bill and agenda item
+ * Votes held under an agenda item about a bill belong to that bill even when their
+ * own title does not name it. Unknown values leave the stored ones untouched.
+ * @param sessionId Internal session ID
+ * @param link Print number, reading, vote kind and agenda item of the vote
+ * @param executor Database or open transaction to use
+ */
+export async function linkSessionToBill(
+  sessionId: number,
+  link: SessionBillLink,
+  executor: DbExecutor = db
+): Promise<void> {
+  const session = await executor
+    .select({ termId: votingSessions.termId, meetingNumber: votingSessions.meetingNumber })
+    .from(votingSessions)
+    .where(eq(votingSessions.id, sessionId))
+    .limit(1);
+  
+  if (session.length === 0) {
+    return;
+  }
+  
+  const { termId, meetingNumber } = session[0];
+  const columns: PgUpdateSetSource<typeof votingSessions> = {};
+  
+  // Bills and agenda items are numbered per term, so nothing can be linked without one
+  if (termId) {
+    let billId = link.printNumber
+      ? await findOrCreateBill(termId, link.printNumber, link.billTitle ?? null, link.billExternalId ?? null, executor)
+      : null;
+    
+    if (link.agendaItemNumber && meetingNumber) {
+      const item = await findOrCreateAgendaItem(termId, meetingNumber, link.agendaItemNumber, link.agendaItemTitle ?? null, billId, executor);
+      columns.agendaItemId = item.id;
+      billId = billId ?? item.billId;
+    }
+    
+    if (billId) columns.billId = billId;
+  }
+  
+  if (link.reading) columns.reading = link.reading;
+  if (link.voteKind) columns.voteKind = link.voteKind;
+  
+  if (Object.keys(columns).length > 0) {
+    await executor
+      .update(votingSessions)
+      .set({ ...columns, updatedAt: new Date() })
+      .where(eq(votingSessions.id, sessionId));
+  }
+}
+
+/**
+ * Fetch the bills of an electoral term that were voted on, most recently voted first
+ * @param termNumber Ordinal number of the term
+ * @param chamber Chamber the term belongs to; Senate prints (senátní tisky) are numbered separately
+ */
+export async function fetchBills(
+  termNumber: number,
+  limit: number = 50,
+  chamber: ChamberValue = Chamber.DEPUTIES
+): Promise<Bill[]> {
+  const term = await requireTerm(termNumber, chamber);
+  
+  try {
+    const rows = await db
+      .select({
+        id: bills.id,
+        printNumber: bills.printNumber,
+        title: bills.title,
+        voteCount: sql<string>`count(${votingSessions.id})`,
+        lastVoteDate: sql<string | null>`max(${votingSessions.date})`,
+      })
+      .from(bills)
+      .leftJoin(votingSessions, eq(votingSessions.billId, bills.id))
+      .where(eq(bills.termId, term!.id))
+      .groupBy(bills.id)
+      .orderBy(sql`max(${votingSessions.date}) DESC NULLS LAST`, desc(bills.printNumber))
+      .limit(limit);
+    
+    return rows.map(row => ({
+      ...row,
+      term: termNumber,
+      voteCount: parseInt(row.voteCount, 10),
+    }));
+  } catch (error) {
+    console.error('Error fetching bills:', error);
+    throw new Error('Failed to fetch bills');
+  }
+}
+
+/**
+ * Fetch the entire voting history of a bill
+ * Annulled votes are included and marked, so the history shows why a vote was repeated.
+ * @param termNumber Ordinal number of the term the print was filed in
+ * @param printNumber Print (tisk) number
+ * @param chamber Chamber the term belongs to
+ * @returns Bill with its agenda items and votes in the order they were held, or null if the bill is unknown
+ */
+export async function fetchBillVotingHistory(
+  termNumber: number,
+  printNumber: number,
+  chamber: ChamberValue = Chamber.DEPUTIES
+): Promise<BillVotingHistory | null> {
+  const term = await requireTerm(termNumber, chamber);
+  
+  try {
+    const bill = await db
+      .select({ id: bills.id, printNumber: bills.printNumber, title: bills.title })
+      .from(bills)
+      .where(and(eq(bills.termId, term!.id), eq(bills.printNumber, printNumber)))
+      .limit(1);
+    
+    if (bill.length === 0) {
+      return null;
+    }
+    
+    const items = await db
+      .select({ meetingNumber: agendaItems.meetingNumber, itemNumber: agendaItems.itemNumber, title: agendaItems.title })
+      .from(agendaItems)
+      .where(eq(agendaItems.billId, bill[0].id))
+      .orderBy(asc(agendaItems.meetingNumber), asc(agendaItems.itemNumber));
+    
+    const sessions = await db
+      .select({
+        id: votingSessions.id,
+        sessionId: votingSessions.externalId,
+        title: votingSessions.title,
+        date: votingSessions.date,
+        votedAt: votingSessions.votedAt,
+        meetingNumber: votingSessions.meetingNumber,
+        voteNumber: votingSessions.voteNumber,
+        agendaItemNumber: agendaItems.itemNumber,
+        reading: votingSessions.reading,
+        voteKind: votingSessions.voteKind,
+        outcome: votingSessions.outcome,
+        resultSummary: votingSessions.resultSummary,
+        annulled: votingSessions.annulled,
+      })
+      .from(votingSessions)
+      .leftJoin(agendaItems, eq(votingSessions.agendaItemId, agendaItems.id))
+      .where(eq(votingSessions.billId, bill[0].id))
+      .orderBy(asc(votingSessions.date), asc(votingSessions.meetingNumber), asc(votingSessions.voteNumber));
+    
+    return {
+      bill: { ...bill[0], term: termNumber },
+      agendaItems: items,
+      votes: sessions.map(session => ({
+        ...session,
+        votedAt: session.votedAt ? session.votedAt.toISOString() : null,
+      })),
+    };
+  } catch (error) {
+    console.error('Error fetching bill voting history:', error);
+    throw new Error('Failed to fetch bill voting history');
+  }
+}
+
+/**
+ * Link stored sessions to bills by parsing their titles
+ * Run once after upgrading, or after improving the title parser.
+ * @param termNumber Only link sessions of this electoral term
+ * @param chamber Only link sessions of this chamber; the term number is looked up in it
+ * @returns Number of sessions checked and linked to a bill
+ */
+export async function backfillBillLinks(
+  termNumber: number | null = null,
+  chamber: ChamberValue | null = null
+): Promise<{ checked: number; linked: number }> {
+  const term = await requireTerm(termNumber, chamber ?? Chamber.DEPUTIES);
+  
+  try {
+    const sessions = await db
+      .select({ id: votingSessions.id, title: votingSessions.title, description: votingSessions.description })
+      .from(votingSessions)
+      .where(and(isNull(votingSessions.billId), term ? eq(votingSessions.termId, term.id) : undefined, chamberScope(chamber)));
+    
+    let linked = 0;
+    for (const session of sessions) {
+      const reference = parseBillReference(session.title, session.description);
+      if (reference.printNumber || reference.reading || reference.voteKind) {
+        await linkSessionToBill(session.id, reference);
+        if (reference.printNumber) {
+          linked++;
+        }
+      }
+    }
+    
+    return { checked: sessions.length, linked };
+  } catch (error) {
+    console.error('Error backfilling bill links:', error);
+    throw new Error('Failed to backfill bill links');
+  }
+}
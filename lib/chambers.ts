@@ -0,0 +1,61 @@
+/**
+ * Chambers Module
+ *
+ * This module holds what the vote pipeline needs to tell the Chamber of Deputies and the Senate apart.
+ * Sessions, terms and memberships carry a chamber; queries accept an optional chamber filter
+ * and cover both chambers when it is left out.
+ */
+
+import { votingSessions, Chamber } from '../src/db/schema';
+import { eq, SQL } from 'drizzle-orm';
+
+/**
+ * Chamber type
+ */
+export type ChamberValue = typeof Chamber[keyof typeof Chamber];
+
+// Number of seats in each chamber
+export const CHAMBER_SEAT_COUNTS: Record<ChamberValue, number> = {
+  [Chamber.DEPUTIES]: 200,
+  [Chamber.SENATE]: 81,
+  [Chamber.EUROPEAN_PARLIAMENT]: 720,
+};
+
+// Source name of each chamber's voting pages, used for checkpoints and name aliases
+export const CHAMBER_SOURCES: Record<ChamberValue, string> = {
+  [Chamber.DEPUTIES]: 'psp',
+  [Chamber.SENATE]: 'senat',
+  [Chamber.EUROPEAN_PARLIAMENT]: 'ep',
+};
+
+/**
+ * Build the display name of a term created from source pages
+ * @param chamber Chamber the term belongs to
+ * @param termNumber Ordinal number of the term
+ */
+export function termName(chamber: ChamberValue, termNumber: number): string {
+  switch (chamber) {
+    case Chamber.SENATE:
+      return `${termNumber}. funkční období Senátu`;
+    case Chamber.EUROPEAN_PARLIAMENT:
+      return `${termNumber}. volební období Evropského parlamentu`;
+    default:
+      return `${termNumber}. volební období`;
+  }
+}
+
+/**
+ * Check whether a value is a known chamber
+ */
+export function isChamber(value: string): value is ChamberValue {
+  return (Object.values(Chamber) as string[]).includes(value);
+}
+
+/**
+ * Build the session filter for an optional chamber
+ * @param chamber Chamber to keep, or null/undefined for both chambers
+ * @returns Condition on voting_sessions, or undefined when every chamber counts
+ */
+export function chamberScope(chamber: ChamberValue | null | undefined): SQL | undefined {
+  return chamber ? eq(votingSessions.chamber, chamber) : undefined;
+}
@@ -0,0 +1,173 @@
+/**
+ * Dry Run Module
+ *
+ * This module works out what a scrape would write without writing it. In dry-run mode the
+ * scrapers fetch and parse as usual, then hand each result to a planner here instead of saving it.
+ * Planners only read the database.
+ */
+
+import { db } from '../src/db/config';
+import { tweets } from '../src/db/schema';
+import { inArray } from 'drizzle-orm';
+import { ParsedVotingPage } from './psp-parser';
+import { loadStoredSession, diffSession, FieldChange } from './archive-reparse';
+import { findPoliticianCandidates } from './politician-resolver';
+
+/**
+ * What a scrape would do with a session
+ */
+export type DryRunAction = 'insert' | 'update' | 'unchanged' | 'skip' | 'not_found' | 'failed';
+
+/**
+ * Dry-run session interface
+ */
+export interface DryRunSession {
+  g: number;
+  action: DryRunAction;
+  title: string | null;
+  date: string | null;
+  reason: string | null;            // Why the session would be skipped, or why it failed
+  fields: FieldChange[];            // Stored fields that would change
+  votesToInsert: number;
+  votesToUpdate: number;
+  votesUnchanged: number;
+  newPoliticians: string[];         // Members matching no stored politician, who would be created
+  ambiguousPoliticians: string[];   // Members matching several politicians, whose votes would fail
+}
+
+/**
+ * Dry-run report interface
+ */
+export interface DryRunReport {
+  sessions: DryRunSession[];
+  totals: {
+    insert: number;
+    update: number;
+    unchanged: number;
+    skip: number;
+    notFound: number;
+    failed: number;
+    votesToInsert: number;
+    votesToUpdate: number;
+    newPoliticians: number;
+  };
+}
+
+/**
+ * Create an empty dry-run report
+ */
+export function createDryRunReport(): DryRunReport {
+  return {
+    sessions: [],
+    totals: { insert: 0, update: 0, unchanged: 0, skip: 0, notFound: 0, failed: 0, votesToInsert: 0, votesToUpdate: 0, newPoliticians: 0 },
+  };
+}
+
+/**
+ * Add a session to a dry-run report
+ */
+export function addDryRunSession(report: DryRunReport, session: DryRunSession): void {
+  report.sessions.push(session);
+  
+  const { totals } = report;
+  if (session.action === 'not_found') {
+    totals.notFound++;
+  } else {
+    totals[session.action]++;
+  }
+  totals.votesToInsert += session.votesToInsert;
+  totals.votesToUpdate += session.votesToUpdate;
+  totals.newPoliticians += session.newPoliticians.length;
+}
+
+/**
+ * Describe a session with nothing counted yet, such as one the scrape would not save
+ * @param action What the scrape would do with it
+ * @param reason Skip or failure reason
+ */
+export function unsavedSession(g: number, action: DryRunAction, reason: string | null = null): DryRunSession {
+  return {
+    g,
+    action,
+    title: null,
+    date: null,
+    reason,
+    fields: [],
+    votesToInsert: 0,
+    votesToUpdate: 0,
+    votesUnchanged: 0,
+    newPoliticians: [],
+    ambiguousPoliticians: [],
+  };
+}
+
+/**
+ * Work out what saving a parsed session would write
+ * Compares the page with the stored session the way re-parsing does; like saving, it never counts
+ * votes the page no longer lists as deleted.
+ * @param parsed Parsed session with its members
+ */
+export async function planSessionSave(parsed: ParsedVotingPage): Promise<DryRunSession> {
+  try {
+    const stored = await loadStoredSession(parsed.chamber, String(parsed.g));
+    const plan: DryRunSession = {
+      ...unsavedSession(parsed.g, 'insert'),
+      title: parsed.title,
+      date: parsed.date,
+    };
+    
+    // Members the stored session lacks are inserted, possibly creating their politician
+    let newMembers = parsed.votes;
+    if (stored) {
+      const diff = diffSession(stored, parsed);
+      const added = new Set(diff.votes.filter(change => change.before === null).map(change => change.name));
+      
+      plan.fields = diff.fields;
+      plan.votesToUpdate = diff.votes.filter(change => change.before !== null && change.after !== null).length;
+      newMembers = parsed.votes.filter(vote => added.has(vote.name));
+    }
+    plan.votesToInsert = newMembers.length;
+    plan.votesUnchanged = parsed.votes.length - plan.votesToInsert - plan.votesToUpdate;
+    
+    for (const vote of newMembers) {
+      const { candidates } = await findPoliticianCandidates({ name: vote.name, externalId: vote.pspId });
+      if (candidates.length === 0) {
+        plan.newPoliticians.push(vote.name);
+      } else if (candidates.length > 1) {
+        plan.ambiguousPoliticians.push(vote.name);
+      }
+    }
+    
+    if (stored) {
+      plan.action = plan.fields.length > 0 || plan.votesToInsert > 0 || plan.votesToUpdate > 0 ? 'update' : 'unchanged';
+    }
+    return plan;
+  } catch (error) {
+    console.error('Error planning session save:', error);
+    throw new Error(`Failed to plan saving session ${parsed.g}`);
+  }
+}
+
+/**
+ * Work out which fetched tweets saving would insert
+ * @param fetched Tweets as returned by the API, identified by `id`
+ * @returns Number of tweets that would be inserted and of those already stored
+ */
+export async function planTweetSave(fetched: Array<{ id?: unknown }>): Promise<{ insert: number; skip: number }> {
+  const ids = Array.from(new Set(fetched.map(tweet => String(tweet.id ?? '')).filter(id => id)));
+  if (ids.length === 0) {
+    return { insert: 0, skip: fetched.length };
+  }
+  
+  try {
+    const existing = await db
+      .select({ externalId: tweets.externalId })
+      .from(tweets)
+      .where(inArray(tweets.externalId, ids));
+    
+    return { insert: ids.length - existing.length, skip: fetched.length - ids.length + existing.length };
+  } catch (error) {
+    console.error('Error planning tweet save:', error);
+    throw new Error('Failed to plan saving tweets');
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * European Parliament Parser Module
+ *
+ * This module parses the roll-call vote XML published with the minutes of every
+ * European Parliament sitting (PV-<term>-<date>-RCV_<lang>.xml).
+ * One file holds every roll-call vote of a sitting, keyed by the vote's `Identifier`.
+ * Parsing is pure: no network or database access happens here.
+ */
+
+import { Chamber } from '../src/db/schema';
+import { mapVoteCode, VoteCodeSource } from './vote-codes';
+import { stripTags, summarizeVotes, ParsedSession, ParsedVote } from './psp-parser';
+
+// Base URL of the documents published with the minutes
+export const EUROPARL_DOCUMENT_URL = 'https://www.europarl.europa.eu/doceo/document';
+
+// Parser version saved with the provenance of every roll-call row; bump it when a fix changes what a file yields
+export const EUROPARL_PARSER_VERSION = 'ep-rcv-xml/1';
+
+// Result lists and the vote code their members get
+const RESULT_LISTS: Array<{ element: string; code: string }> = [
+  { element: 'Result.For', code: '+' },
+  { element: 'Result.Against', code: '-' },
+  { element: 'Result.Abstention', code: '0' },
+];
+
+/**
+ * Build the URL of the roll-call XML of a sitting
+ * @param termNumber Parliamentary term (e.g. 9)
+ * @param sittingDate Sitting date (YYYY-MM-DD)
+ */
+export function buildEuroparlRollCallUrl(termNumber: number, sittingDate: string): string {
+  return `${EUROPARL_DOCUMENT_URL}/PV-${termNumber}-${sittingDate}-RCV_EN.xml`;
+}
+
+/**
+ * Escape dots in an element name for use in a pattern
+ */
+function elementPattern(element: string): string {
+  return element.replace(/\./g, '\\.');
+}
+
+/**
+ * Read an attribute from an opening tag
+ */
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${elementPattern(name)}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+/**
+ * List the IDs of the votes in a roll-call file
+ * @param xml File content
+ * @returns Vote identifiers in file order
+ */
+export function listEuroparlVoteIds(xml: string): number[] {
+  return Array.from(xml.matchAll(/<RollCallVote\.Result\b[^>]*\sIdentifier="(\d+)"/g))
+    .map(match => parseInt(match[1], 10));
+}
+
+/**
+ * Cut a single vote out of a roll-call file
+ * The sitting element is kept around the vote, so the result is a document of its own.
+ * @param xml File content
+ * @param id Vote identifier
+ * @returns XML of the vote, or null if the file does not hold it
+ */
+export function extractEuroparlVote(xml: string, id: number): string | null {
+  const rootMatch = xml.match(/<PV\.RollCallVoteResults\b[^>]*>/);
+  const voteMatch = xml.match(new RegExp(`<RollCallVote\\.Result\\b[^>]*\\sIdentifier="${id}"[^>]*>[\\s\\S]*?<\\/RollCallVote\\.Result>`));
+  if (!rootMatch || !voteMatch) {
+    return null;
+  }
+  
+  return `${rootMatch[0]}\n${voteMatch[0]}\n</PV.RollCallVoteResults>\n`;
+}
+
+/**
+ * Find a vote element in a roll-call document
+ * Corrections of vote intentions are published inside the vote but do not change its result, so they are removed.
+ */
+function findVote(xml: string, id: number): { tag: string; body: string } | null {
+  const match = xml.match(new RegExp(`(<RollCallVote\\.Result\\b[^>]*\\sIdentifier="${id}"[^>]*>)([\\s\\S]*?)<\\/RollCallVote\\.Result>`));
+  if (!match) {
+    return null;
+  }
+  
+  return { tag: match[1], body: match[2].replace(/<Intentions>[\s\S]*?<\/Intentions>/g, '') };
+}
+
+/**
+ * Parse a vote of a roll-call document
+ * The XML gives no outcome or required majority, so both are left empty.
+ * @param xml Roll-call document, either a whole file or a vote cut out by extractEuroparlVote
+ * @param id Vote identifier
+ * @returns Parsed session, or null if the document does not hold the vote
+ */
+export function parseEuroparlVote(xml: string, id: number): ParsedSession | null {
+  const vote = findVote(xml, id);
+  const rootMatch = xml.match(/<PV\.RollCallVoteResults\b[^>]*>/);
+  if (!vote || !rootMatch) {
+    return null;
+  }
+  
+  // "2023-03-14 12:31:47", in Strasbourg or Brussels time, which matches Europe/Prague
+  const dateMatch = (readAttribute(vote.tag, 'Date') || '').match(/^(\d{4}-\d{2}-\d{2})(?:\s+(\d{2}:\d{2}(?::\d{2})?))?/);
+  if (!dateMatch) {
+    return null;
+  }
+  
+  const date = dateMatch[1];
+  let time = dateMatch[2] || null;
+  if (time && time.length === 5) {
+    time = `${time}:00`;
+  }
+  
+  // "P9_PV(2023)03-14" names the term
+  const reference = readAttribute(rootMatch[0], 'EP.Reference');
+  const termMatch = reference ? reference.match(/^P(\d+)_/) : null;
+  const termNumber = termMatch ? parseInt(termMatch[1], 10) : null;
+  const sittingDate = readAttribute(rootMatch[0], 'Sitting.Date') || date;
+  
+  const titleMatch = vote.body.match(/<RollCallVote\.Description\.Text>([\s\S]*?)<\/RollCallVote\.Description\.Text>/);
+  const title = titleMatch ? stripTags(titleMatch[1]) : '';
+  
+  // Totals come from the Number attributes, since members may be filtered out
+  const totals = RESULT_LISTS.map(({ element }) => {
+    const match = vote.body.match(new RegExp(`<${elementPattern(element)}\\b[^>]*\\sNumber="(\\d+)"`));
+    return match ? parseInt(match[1], 10) : 0;
+  });
+  const [yes, no, abstain] = totals;
+  
+  return {
+    g: id,
+    chamber: Chamber.EUROPEAN_PARLIAMENT,
+    termNumber,
+    title: title || `Roll-call vote ${id}`,
+    date,
+    time,
+    meetingNumber: null,
+    voteNumber: null,
+    meetingDetails: reference || sittingDate,
+    presentCount: yes + no + abstain,
+    quorum: null,
+    outcome: null,
+    majorityType: null,
+    annulled: false,
+    agendaItemNumber: null,
+    bill: { printNumber: null, reading: null, voteKind: null },
+    resultSummary: { ...summarizeVotes([]), yes, no, abstain, absent: null, present: yes + no + abstain },
+    sourceUrl: termNumber ? buildEuroparlRollCallUrl(termNumber, sittingDate) : EUROPARL_DOCUMENT_URL,
+  };
+}
+
+/**
+ * Parse the members who took part in a vote
+ * Names are published as surnames only. When `members` is given, only the listed
+ * members are kept, under the full names it maps their person IDs to.
+ * @param xml Roll-call document
+ * @param id Vote identifier
+ * @param members Person ID (PersId) to full name, e.g. of Czech MEPs
+ * @returns Votes with the political group as party
+ */
+export function parseEuroparlMembers(xml: string, id: number, members?: Record<string, string>): ParsedVote[] {
+  const vote = findVote(xml, id);
+  if (!vote) {
+    return [];
+  }
+  
+  const votes: ParsedVote[] = [];
+  
+  for (const { element, code } of RESULT_LISTS) {
+    const listMatch = vote.body.match(new RegExp(`<${elementPattern(element)}\\b[^>]*>([\\s\\S]*?)<\\/${elementPattern(element)}>`));
+    if (!listMatch) {
+      continue;
+    }
+    
+    const voteType = mapVoteCode(VoteCodeSource.EUROPARL_XML, code);
+    if (!voteType) {
+      continue;
+    }
+    
+    const groups = listMatch[1].matchAll(/<Result\.PoliticalGroup\.List\b[^>]*\sIdentifier="([^"]*)"[^>]*>([\s\S]*?)<\/Result\.PoliticalGroup\.List>/g);
+    for (const group of Array.from(groups)) {
+      const names = group[2].matchAll(/<PoliticalGroup\.Member\.Name\b([^>]*)>([\s\S]*?)<\/PoliticalGroup\.Member\.Name>/g);
+      for (const member of Array.from(names)) {
+        const personId = readAttribute(member[1], 'PersId') || readAttribute(member[1], 'MepId');
+        const name = members ? (personId ? members[personId] : undefined) : stripTags(member[2]);
+        if (!name) {
+          continue;
+        }
+        
+        votes.push({
+          name,
+          party: stripTags(group[1]),
+          symbol: code,
+          vote: voteType,
+          pspId: null,
+        });
+      }
+    }
+  }
+  
+  return votes;
+}
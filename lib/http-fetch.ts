@@ -0,0 +1,572 @@
+/**
+ * HTTP Fetch Module
+ *
+ * This module is the shared, polite way scrapers download pages. Requests to each host are
+ * capped in number and spaced by a delay, failures are retried with jittered exponential backoff,
+ * robots.txt is honoured, and pages fetched before are requested conditionally (ETag/Last-Modified).
+ * Requests go through a pluggable transport: plain fetch by default, a local fixture server in tests,
+ * and a headless browser (puppeteer) only as an opt-in fallback.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { httpValidators } from '../src/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { storePayload, readArchivedPayload } from './raw-archive';
+
+// Defaults, overridable per fetcher or through the environment for the shared fetcher
+const DEFAULT_USER_AGENT = 'VoxEngineBot/0.1';
+const DEFAULT_MAX_PER_HOST = 2;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+const BROWSER_TIMEOUT_MS = 30 * 1000;
+
+// Responses worth retrying; everything else is final
+const RETRY_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Responses meaning the page does not exist
+const MISSING_STATUSES = new Set([404, 410]);
+
+/**
+ * Transport request interface
+ */
+export interface TransportRequest {
+  url: string;
+  headers: Record<string, string>;
+  signal?: AbortSignal;  // Cancels the request
+}
+
+/**
+ * Transport response interface
+ * Header names are lower-case.
+ */
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Uint8Array;
+}
+
+/**
+ * Transport sending a single request
+ */
+export interface FetchTransport {
+  (request: TransportRequest): Promise<TransportResponse>;
+  close?: () => Promise<void>;  // Releases what the transport holds, such as a browser
+}
+
+/**
+ * Cached page interface
+ * Last response to a URL, kept to send conditional requests
+ */
+export interface CachedPage {
+  etag: string | null;
+  lastModified: string | null;
+  contentType: string | null;
+  body: string;
+}
+
+/**
+ * Validator store interface
+ */
+export interface ValidatorStore {
+  get(url: string): Promise<CachedPage | null>;
+  set(url: string, page: CachedPage): Promise<void>;
+}
+
+/**
+ * Polite fetch options interface
+ */
+export interface PoliteFetchOptions {
+  transport?: FetchTransport;         // How requests are sent (defaults to fetch)
+  fallback?: FetchTransport | null;   // Tried once when the transport keeps failing, e.g. createPuppeteerTransport()
+  userAgent?: string;                 // Also the product token matched against robots.txt
+  maxPerHost?: number;                // Requests in flight per host
+  delayMs?: number;                   // Minimum gap between request starts per host; a longer robots.txt Crawl-delay wins
+  maxRetries?: number;
+  backoffMs?: number;                 // Base of the exponential backoff; every wait is drawn at random up to it
+  respectRobots?: boolean;            // Refuse URLs robots.txt disallows (default true)
+  validators?: ValidatorStore | null; // Where ETag/Last-Modified are kept (defaults to memory; null turns conditional requests off)
+}
+
+/**
+ * Fetched page interface
+ */
+export interface FetchedPage {
+  url: string;
+  status: number;
+  body: string | null;   // null when the page does not exist
+  notModified: boolean;  // The server answered 304 and the body was served from the validator store
+  contentType: string | null;
+}
+
+/**
+ * Polite fetcher interface
+ */
+export interface PoliteFetcher {
+  // Fetch a page; charset is the one assumed when the response names none (defaults to utf-8)
+  // and an aborted signal cancels the request, including any wait for its turn
+  fetchPage(url: string, charset?: string, signal?: AbortSignal): Promise<FetchedPage>;
+  
+  // Release the transports
+  close(): Promise<void>;
+}
+
+/**
+ * Robots rules interface
+ */
+export interface RobotsRules {
+  allows(path: string): boolean;
+  crawlDelayMs: number | null;
+}
+
+/**
+ * Per-host state: slots in use, waiting requests, next allowed start and robots rules
+ */
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  nextStart: number;
+  delayMs: number;
+  robots: Promise<RobotsRules> | null;
+}
+
+/**
+ * Sleep for a number of milliseconds, or until the signal is aborted
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Send a request with the global fetch
+ */
+export const fetchTransport: FetchTransport = async request => {
+  const response = await fetch(request.url, { headers: request.headers, redirect: 'follow', signal: request.signal });
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+  
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: new Uint8Array(await response.arrayBuffer()),
+  };
+};
+
+/**
+ * Create a transport that loads pages in headless Chromium
+ * Slow and heavy, so only meant as a fallback for pages plain requests cannot get.
+ * The browser is launched on first use and closed with close().
+ */
+export function createPuppeteerTransport(timeoutMs: number = BROWSER_TIMEOUT_MS): FetchTransport {
+  let browser: Promise<import('puppeteer').Browser> | null = null;
+  
+  const transport: FetchTransport = async request => {
+    request.signal?.throwIfAborted();
+    if (!browser) {
+      browser = import('puppeteer').then(puppeteer => puppeteer.default.launch({ headless: true }));
+    }
+    
+    const page = await (await browser).newPage();
+    try {
+      const { 'user-agent': userAgent, ...headers } = request.headers;
+      if (userAgent) {
+        await page.setUserAgent(userAgent);
+      }
+      await page.setExtraHTTPHeaders(headers);
+      
+      const response = await page.goto(request.url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+      if (!response) {
+        throw new Error(`No response from ${request.url}`);
+      }
+      
+      return {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: response.headers(),
+        body: new Uint8Array(await response.buffer()),
+      };
+    } finally {
+      await page.close();
+    }
+  };
+  
+  transport.close = async () => {
+    const launched = browser;
+    browser = null;
+    if (launched) {
+      await (await launched).close();
+    }
+  };
+  
+  return transport;
+}
+
+/**
+ * Create a validator store kept in memory for the life of the process
+ */
+export function createMemoryValidatorStore(): ValidatorStore {
+  const pages = new Map<string, CachedPage>();
+  return {
+    get: async url => pages.get(url) ?? null,
+    set: async (url, page) => {
+      pages.set(url, page);
+    },
+  };
+}
+
+/**
+ * Create a validator store kept in http_validators, with bodies in the raw archive
+ * Conditional requests then work across runs, e.g. when revalidating sessions weeks later.
+ * @param executor Database or open transaction to use
+ * @param readOnly Use stored validators without saving new ones, e.g. for dry runs
+ */
+export function createArchiveValidatorStore(executor: DbExecutor = db, readOnly: boolean = false): ValidatorStore {
+  return {
+    get: async url => {
+      const result = await executor
+        .select()
+        .from(httpValidators)
+        .where(eq(httpValidators.url, url))
+        .limit(1);
+      
+      // Without its body a 304 is useless, so the URL is requested unconditionally
+      const body = result.length > 0 ? await readArchivedPayload(result[0].hash) : null;
+      if (body === null) {
+        return null;
+      }
+      return { etag: result[0].etag, lastModified: result[0].lastModified, contentType: result[0].contentType, body };
+    },
+    set: async (url, page) => {
+      if (readOnly) {
+        return;
+      }
+      
+      const hash = await storePayload(page.body);
+      const values = {
+        etag: page.etag?.slice(0, 200) ?? null,
+        lastModified: page.lastModified?.slice(0, 100) ?? null,
+        contentType: page.contentType?.slice(0, 100) ?? null,
+        hash,
+        checkedAt: new Date(),
+      };
+      
+      await executor
+        .insert(httpValidators)
+        .values({ url, ...values })
+        .onConflictDoUpdate({ target: httpValidators.url, set: { ...values, updatedAt: sql`now()` } });
+    },
+  };
+}
+
+/**
+ * Turn a robots.txt path pattern into a regular expression
+ * `*` matches any characters and a trailing `$` anchors the end.
+ */
+function robotsPattern(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt for a user agent
+ * Follows RFC 9309: the groups naming the agent's product token apply, or else the `*` groups;
+ * the longest matching rule wins and Allow wins ties. Crawl-delay is read as well.
+ * @param text robots.txt content
+ * @param userAgent User agent, whose product token (before the slash) is matched
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const groups: Array<{ agents: string[]; rules: Array<{ allow: boolean; pattern: string }>; crawlDelay: number | null }> = [];
+  let current: typeof groups[number] | null = null;
+  let readingAgents = false;
+  
+  for (const line of text.split(/\r?\n/)) {
+    const content = line.replace(/#.*$/, '').trim();
+    const separator = content.indexOf(':');
+    if (separator < 0) {
+      continue;
+    }
+    
+    const key = content.slice(0, separator).trim().toLowerCase();
+    const value = content.slice(separator + 1).trim();
+    
+    // Consecutive User-agent lines share one group
+    if (key === 'user-agent') {
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    
+    readingAgents = false;
+    if (!current) {
+      continue;
+    }
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay' && !isNaN(parseFloat(value))) {
+      current.crawlDelay = parseFloat(value);
+    }
+  }
+  
+  const named = groups.filter(group => group.agents.includes(token));
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+  const rules = matching.flatMap(group => group.rules).map(rule => ({ ...rule, regex: robotsPattern(rule.pattern) }));
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== null);
+  
+  return {
+    allows: (path: string) => {
+      let best: { allow: boolean; length: number } | null = null;
+      for (const rule of rules) {
+        if (rule.regex.test(path) && (!best || rule.pattern.length > best.length || (rule.pattern.length === best.length && rule.allow))) {
+          best = { allow: rule.allow, length: rule.pattern.length };
+        }
+      }
+      return best ? best.allow : true;
+    },
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) * 1000 : null,
+  };
+}
+
+/**
+ * Read how long a Retry-After header asks to wait
+ * @returns Milliseconds, or 0 if the header is missing or unreadable
+ */
+function retryAfterMs(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? 0 : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decode a response body using the charset it names, or the given default
+ */
+function decodeBody(response: TransportResponse, charset: string): string {
+  const named = (response.headers['content-type'] || '').match(/charset=([^;]+)/i);
+  return new TextDecoder(named ? named[1].trim().replace(/"/g, '') : charset).decode(response.body);
+}
+
+/**
+ * Create a polite fetcher
+ * Hosts are tracked separately, so one fetcher can serve every scraper in the process.
+ * @param options Transport, politeness limits and validator store
+ */
+export function createPoliteFetcher(options: PoliteFetchOptions = {}): PoliteFetcher {
+  const transport = options.transport || fetchTransport;
+  const fallback = options.fallback || null;
+  const userAgent = options.userAgent || DEFAULT_USER_AGENT;
+  const maxPerHost = Math.max(1, options.maxPerHost ?? DEFAULT_MAX_PER_HOST);
+  const maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const respectRobots = options.respectRobots !== false;
+  const validators = options.validators === undefined ? createMemoryValidatorStore() : options.validators;
+  const hosts = new Map<string, HostState>();
+  
+  const hostState = (host: string): HostState => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, waiting: [], nextStart: 0, delayMs: options.delayMs ?? DEFAULT_DELAY_MS, robots: null };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+  
+  // Run a request in one of the host's slots, spaced from the previous start by the host's delay
+  const withSlot = async <T>(state: HostState, send: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    signal?.throwIfAborted();
+    if (state.active >= maxPerHost) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          state.waiting.splice(state.waiting.indexOf(wake), 1);
+          reject(signal?.reason);
+        };
+        const wake = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        state.waiting.push(wake);
+      });
+    } else {
+      state.active++;
+    }
+    
+    try {
+      const start = Math.max(Date.now(), state.nextStart);
+      state.nextStart = start + state.delayMs;
+      await sleep(start - Date.now(), signal);
+      return await send();
+    } finally {
+      // A freed slot passes straight to the next waiting request
+      const next = state.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        state.active--;
+      }
+    }
+  };
+  
+  // Send a request, retrying failures and retryable statuses with jittered exponential backoff
+  const send = async (state: HostState, request: TransportRequest): Promise<TransportResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      let failure: unknown = null;
+      let wait = 0;
+      
+      try {
+        const response = await withSlot(state, () => transport(request), request.signal);
+        if (!RETRY_STATUSES.has(response.status)) {
+          return response;
+        }
+        failure = new Error(`${new URL(request.url).host} responded with ${response.status} ${response.statusText}`);
+        wait = retryAfterMs(response.headers['retry-after']);
+        if (attempt >= maxRetries && !fallback) {
+          return response;
+        }
+      } catch (error) {
+        // A cancelled request is not retried
+        if (request.signal?.aborted) {
+          throw error;
+        }
+        failure = error;
+      }
+      
+      if (attempt >= maxRetries) {
+        if (!fallback) {
+          throw failure;
+        }
+        // Browsers do not send conditional requests well, so the fallback asks for the full page
+        return withSlot(state, () => fallback({ url: request.url, headers: { 'user-agent': userAgent }, signal: request.signal }), request.signal);
+      }
+      
+      const ceiling = Math.min(MAX_BACKOFF_MS, backoffMs * Math.pow(2, attempt));
+      await sleep(Math.max(wait, Math.random() * ceiling), request.signal);
+    }
+  };
+  
+  // Load the host's robots.txt once; per RFC 9309 a missing file allows everything and an unreachable one nothing
+  const robotsFor = (state: HostState, origin: string): Promise<RobotsRules> => {
+    if (!state.robots) {
+      state.robots = send(state, { url: `${origin}/robots.txt`, headers: { 'user-agent': userAgent } })
+        .then(response => {
+          if (response.status >= 500) {
+            throw new Error(`robots.txt responded with ${response.status}`);
+          }
+          return response.status >= 400
+            ? parseRobotsTxt('', userAgent)
+            : parseRobotsTxt(decodeBody(response, 'utf-8'), userAgent);
+        })
+        .then(rules => {
+          if (rules.crawlDelayMs && rules.crawlDelayMs > state.delayMs) {
+            state.delayMs = rules.crawlDelayMs;
+          }
+          return rules;
+        })
+        .catch(error => {
+          console.error(`Error reading robots.txt of ${origin}:`, error);
+          state.robots = null;
+          return { allows: () => false, crawlDelayMs: null };
+        });
+    }
+    return state.robots;
+  };
+  
+  return {
+    fetchPage: async (url: string, charset: string = 'utf-8', signal?: AbortSignal) => {
+      const target = new URL(url);
+      const state = hostState(target.host);
+      
+      if (respectRobots) {
+        const rules = await robotsFor(state, target.origin);
+        if (!rules.allows(`${target.pathname}${target.search}`)) {
+          throw new Error(`robots.txt of ${target.host} disallows ${url}`);
+        }
+      }
+      
+      const cached = validators ? await validators.get(url) : null;
+      const headers: Record<string, string> = { 'user-agent': userAgent };
+      if (cached?.etag) headers['if-none-match'] = cached.etag;
+      if (cached?.lastModified) headers['if-modified-since'] = cached.lastModified;
+      
+      const response = await send(state, { url, headers, signal });
+      
+      if (response.status === 304 && cached) {
+        return { url, status: 304, body: cached.body, notModified: true, contentType: cached.contentType };
+      }
+      
+      if (MISSING_STATUSES.has(response.status)) {
+        return { url, status: response.status, body: null, notModified: false, contentType: null };
+      }
+      
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`${target.host} responded with ${response.status} ${response.statusText}`);
+      }
+      
+      const body = decodeBody(response, charset);
+      const contentType = response.headers['content-type'] || null;
+      const etag = response.headers['etag'] || null;
+      const lastModified = response.headers['last-modified'] || null;
+      if (validators && (etag || lastModified)) {
+        await validators.set(url, { etag, lastModified, contentType, body });
+      }
+      
+      return { url, status: response.status, body, notModified: false, contentType };
+    },
+    close: async () => {
+      await transport.close?.();
+      await fallback?.close?.();
+    },
+  };
+}
+
+// Shared fetchers, keyed by whether they save validators
+const sharedFetchers = new Map<boolean, PoliteFetcher>();
+
+/**
+ * Get the fetcher shared by every scraper in the process
+ * Configured from FETCH_DELAY_MS, FETCH_MAX_PER_HOST and FETCH_USER_AGENT; FETCH_BROWSER_FALLBACK=1
+ * adds the puppeteer fallback. Validators are kept in the database, so conditional requests work across runs.
+ * @param readOnly Get the fetcher that uses stored validators but never saves any, for dry runs
+ */
+export function getSharedFetcher(readOnly: boolean = false): PoliteFetcher {
+  let fetcher = sharedFetchers.get(readOnly);
+  if (!fetcher) {
+    const number = (value: string | undefined) => (value && !isNaN(parseInt(value, 10)) ? parseInt(value, 10) : undefined);
+    fetcher = createPoliteFetcher({
+      delayMs: number(process.env.FETCH_DELAY_MS),
+      maxPerHost: number(process.env.FETCH_MAX_PER_HOST),
+      userAgent: process.env.FETCH_USER_AGENT || undefined,
+      fallback: process.env.FETCH_BROWSER_FALLBACK === '1' ? createPuppeteerTransport() : null,
+      validators: createArchiveValidatorStore(db, readOnly),
+    });
+    sharedFetchers.set(readOnly, fetcher);
+  }
+  return fetcher;
+}
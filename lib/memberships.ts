@@ -0,0 +1,300 @@
+/**
+ * Memberships Module
+ *
+ * This module keeps the dated party and parliamentary club history of politicians.
+ * Votes are attributed to the affiliation in force on the session date, so a party
+ * switch no longer rewrites who an older vote came from.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { politicianMemberships, politicians, parties, systemLogs, MembershipType, Chamber } from '../src/db/schema';
+import { and, asc, eq, isNull, ne, sql, SQL, AnyColumn } from 'drizzle-orm';
+import { findTermIdForDate } from './terms';
+import { ChamberValue } from './chambers';
+
+/**
+ * Membership type
+ */
+export type MembershipTypeValue = typeof MembershipType[keyof typeof MembershipType];
+
+/**
+ * Membership interface
+ */
+export interface Membership {
+  id: number;
+  partyId: number;
+  party: string | null;
+  partyName: string;
+  type: string;
+  chamber: string;
+  validFrom: string;
+  validTo: string | null;
+  source: string | null;
+}
+
+/**
+ * Add days to an ISO date
+ * @param isoDate Date in YYYY-MM-DD format
+ * @param days Number of days to add (negative to subtract)
+ * @returns Shifted date in YYYY-MM-DD format
+ */
+export function addDays(isoDate: string, days: number): string {
+  const day = new Date(`${isoDate}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the day before an ISO date
+ */
+export function previousDay(isoDate: string): string {
+  return addDays(isoDate, -1);
+}
+
+/**
+ * Build a subquery selecting the party or club a politician belonged to on a date
+ * Club memberships win over party memberships, since clubs are what the Chamber votes by.
+ * @param politicianId Column or expression holding the politician ID
+ * @param date Column or expression holding the date
+ * @param chamber Column or expression holding the chamber; clubs of the other chamber are ignored
+ * @returns SQL expression evaluating to a party ID, or null if no membership covers the date
+ */
+export function affiliationPartyId(
+  politicianId: AnyColumn | SQL,
+  date: AnyColumn | SQL,
+  chamber: AnyColumn | SQL | ChamberValue = Chamber.DEPUTIES
+): SQL<number | null> {
+  return sql<number | null>`(
+    SELECT ${politicianMemberships.partyId} FROM ${politicianMemberships}
+    WHERE ${politicianMemberships.politicianId} = ${politicianId}
+      AND ${politicianMemberships.chamber} = ${chamber}
+      AND ${politicianMemberships.validFrom} <= ${date}
+      AND (${politicianMemberships.validTo} IS NULL OR ${politicianMemberships.validTo} >= ${date})
+    ORDER BY (${politicianMemberships.type} = ${MembershipType.CLUB}) DESC, ${politicianMemberships.validFrom} DESC
+    LIMIT 1
+  )`;
+}
+
+/**
+ * Write a membership conflict to system_logs
+ */
+async function logMembershipConflict(message: string, details: Record<string, unknown>): Promise<void> {
+  try {
+    await db.insert(systemLogs).values({
+      type: 'membership',
+      status: 'conflict',
+      message,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging membership conflict:', error);
+  }
+}
+
+/**
+ * Point politicians.party_id at the current affiliation in a chamber
+ * The column is kept as a shortcut for "party today"; history lives in politician_memberships.
+ * Only the chamber's own memberships are read, so clubs of other chambers never replace it,
+ * and a finished membership is not applied while the politician holds an ongoing one in another chamber.
+ * @param executor Database or open transaction to use
+ * @param chamber Chamber whose memberships were just saved
+ */
+export async function refreshCurrentParty(
+  politicianId: number,
+  executor: DbExecutor = db,
+  chamber: ChamberValue = Chamber.DEPUTIES
+): Promise<void> {
+  const current = await executor
+    .select({ partyId: politicianMemberships.partyId, validTo: politicianMemberships.validTo })
+    .from(politicianMemberships)
+    .where(and(eq(politicianMemberships.politicianId, politicianId), eq(politicianMemberships.chamber, chamber)))
+    .orderBy(
+      sql`(${politicianMemberships.validTo} IS NULL) DESC`,
+      sql`${politicianMemberships.validFrom} DESC`,
+      sql`(${politicianMemberships.type} = ${MembershipType.CLUB}) DESC`
+    )
+    .limit(1);
+  
+  if (current.length === 0) {
+    return;
+  }
+  
+  if (current[0].validTo !== null) {
+    const elsewhere = await executor
+      .select({ id: politicianMemberships.id })
+      .from(politicianMemberships)
+      .where(and(
+        eq(politicianMemberships.politicianId, politicianId),
+        ne(politicianMemberships.chamber, chamber),
+        isNull(politicianMemberships.validTo)
+      ))
+      .limit(1);
+    if (elsewhere.length > 0) {
+      return;
+    }
+  }
+  
+  await executor
+    .update(politicians)
+    .set({ partyId: current[0].partyId, updatedAt: new Date() })
+    .where(sql`${politicians.id} = ${politicianId} AND ${politicians.partyId} IS DISTINCT FROM ${current[0].partyId}`);
+}
+
+/**
+ * Record that a politician was seen in a party or club on a date
+ * Sources such as voting pages only tell us the affiliation on the day of a vote,
+ * so ranges are grown from observations, which may arrive in any order:
+ * - an open-ended membership in another party is closed the day before (a switch);
+ * - a gap next to a membership in the same party extends that membership;
+ * - anything else starts a new membership.
+ * Observations contradicting a closed range are logged as conflicts and not applied.
+ * Ranges are kept per chamber, so a senator who used to be a deputy keeps both histories.
+ * @param politicianId Politician ID
+ * @param partyId Party or club ID
+ * @param type Kind of affiliation
+ * @param date Date of the observation (YYYY-MM-DD)
+ * @param source Source of the observation
+ * @param executor Database or open transaction to use
+ * @param chamber Chamber the club or party list belongs to
+ */
+export async function recordMembershipObservation(
+  politicianId: number,
+  partyId: number,
+  type: MembershipTypeValue,
+  date: string,
+  source: string = 'psp',
+  executor: DbExecutor = db,
+  chamber: ChamberValue = Chamber.DEPUTIES
+): Promise<void> {
+  const memberships = await executor
+    .select({
+      id: politicianMemberships.id,
+      partyId: politicianMemberships.partyId,
+      validFrom: politicianMemberships.validFrom,
+      validTo: politicianMemberships.validTo,
+    })
+    .from(politicianMemberships)
+    .where(and(
+      eq(politicianMemberships.politicianId, politicianId),
+      eq(politicianMemberships.chamber, chamber),
+      eq(politicianMemberships.type, type)
+    ))
+    .orderBy(asc(politicianMemberships.validFrom));
+  
+  const now = new Date();
+  const covering = memberships.find(m => m.validFrom <= date && (!m.validTo || m.validTo >= date));
+  
+  if (covering) {
+    if (covering.partyId === partyId) {
+      return;
+    }
+    
+    const next = covering.validTo ? memberships.find(m => m.validFrom > (covering.validTo as string)) : undefined;
+    
+    if (!covering.validTo && covering.validFrom < date) {
+      // Switch going forward in time: close the old membership, open the new one
+      await executor
+        .update(politicianMemberships)
+        .set({ validTo: previousDay(date), updatedAt: now })
+        .where(eq(politicianMemberships.id, covering.id));
+      await executor
+        .insert(politicianMemberships)
+        .values({ politicianId, partyId, type, chamber, validFrom: date, source, termId: await findTermIdForDate(date, chamber, executor) });
+    } else if (next && next.partyId === partyId && next.validFrom === addDays(covering.validTo as string, 1) && covering.validFrom < date) {
+      // Switch seen while going back in time: move the boundary between the two memberships
+      await executor
+        .update(politicianMemberships)
+        .set({ validTo: previousDay(date), updatedAt: now })
+        .where(eq(politicianMemberships.id, covering.id));
+      await executor
+        .update(politicianMemberships)
+        .set({ validFrom: date, updatedAt: now })
+        .where(eq(politicianMemberships.id, next.id));
+    } else {
+      await logMembershipConflict(
+        `Politician ${politicianId} seen in party ${partyId} on ${date}, inside membership ${covering.id} of party ${covering.partyId}`,
+        { politicianId, partyId, type, chamber, date, source, membershipId: covering.id }
+      );
+      return;
+    }
+  } else {
+    const next = memberships.find(m => m.validFrom > date);
+    const previous = memberships.filter(m => m.validTo && m.validTo < date).pop();
+    
+    if (next && next.partyId === partyId) {
+      await executor
+        .update(politicianMemberships)
+        .set({ validFrom: date, updatedAt: now })
+        .where(eq(politicianMemberships.id, next.id));
+    } else if (previous && previous.partyId === partyId) {
+      await executor
+        .update(politicianMemberships)
+        .set({ validTo: date, updatedAt: now })
+        .where(eq(politicianMemberships.id, previous.id));
+    } else {
+      await executor
+        .insert(politicianMemberships)
+        .values({
+          politicianId,
+          partyId,
+          type,
+          chamber,
+          validFrom: date,
+          validTo: next ? previousDay(next.validFrom) : null,
+          source,
+          termId: await findTermIdForDate(date, chamber, executor),
+        });
+    }
+  }
+  
+  await refreshCurrentParty(politicianId, executor, chamber);
+}
+
+/**
+ * Fetch the membership history of a politician, oldest first
+ * @param chamber Only return memberships in this chamber
+ */
+export async function getMembershipHistory(politicianId: number, chamber: ChamberValue | null = null): Promise<Membership[]> {
+  try {
+    return await db
+      .select({
+        id: politicianMemberships.id,
+        partyId: politicianMemberships.partyId,
+        party: parties.shortName,
+        partyName: parties.name,
+        type: politicianMemberships.type,
+        chamber: politicianMemberships.chamber,
+        validFrom: politicianMemberships.validFrom,
+        validTo: politicianMemberships.validTo,
+        source: politicianMemberships.source,
+      })
+      .from(politicianMemberships)
+      .innerJoin(parties, eq(politicianMemberships.partyId, parties.id))
+      .where(and(
+        eq(politicianMemberships.politicianId, politicianId),
+        chamber ? eq(politicianMemberships.chamber, chamber) : undefined
+      ))
+      .orderBy(asc(politicianMemberships.validFrom), asc(politicianMemberships.type));
+  } catch (error) {
+    console.error('Error fetching membership history:', error);
+    throw new Error('Failed to fetch membership history');
+  }
+}
+
+/**
+ * Fetch the party or club a politician belonged to on a date
+ * @param chamber Only consider memberships in this chamber
+ * @returns Membership in force, or null if none covers the date
+ */
+export async function getAffiliationOn(
+  politicianId: number,
+  date: string,
+  chamber: ChamberValue | null = null
+): Promise<Membership | null> {
+  const history = await getMembershipHistory(politicianId, chamber);
+  const inForce = history
+    .filter(m => m.validFrom <= date && (!m.validTo || m.validTo >= date))
+    .sort((a, b) => Number(b.type === MembershipType.CLUB) - Number(a.type === MembershipType.CLUB) || b.validFrom.localeCompare(a.validFrom));
+  
+  return inForce[0] || null;
+}
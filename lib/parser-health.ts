@@ -0,0 +1,166 @@
+/**
+ * Parser Health Module
+ *
+ * This module checks that the vote parsers still read their sources. Golden fixtures, saved
+ * pages kept with the output they should parse into, catch regressions in the parsers, and the
+ * structure check run on every fetched page catches markup the parsers no longer understand.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from '../src/db/config';
+import { systemLogs } from '../src/db/schema';
+import { ParsedVotingPage } from './psp-parser';
+import type { PageLoader, VoteSourceAdapter } from './vote-sources';
+
+// Manifest of a golden fixture directory
+const MANIFEST_FILE = 'cases.json';
+
+/**
+ * Golden case interface
+ * Entry of a fixture directory's cases.json; the page is `g<ID>.html` and its output `g<ID>.expected.json`
+ */
+export interface GoldenCase {
+  g: number;
+  name: string;         // Short case name (e.g., 'annulled')
+  description: string;
+  captured?: string;    // Date the page was downloaded from the source; hand-written pages have none
+}
+
+/**
+ * Golden result interface
+ */
+export interface GoldenResult {
+  g: number;
+  name: string;
+  passed: boolean;
+  captured: boolean;      // Whether the page was downloaded from the source rather than written by hand
+  differences: string[];  // Fields parsed differently from the expected output
+  structure: string[];    // Failed structure assertions
+}
+
+/**
+ * Parse a raw document through an adapter's parse hooks
+ * @returns The session with its members, or null if the document holds no vote
+ */
+export function parseDocument(adapter: VoteSourceAdapter, raw: string, id: number): ParsedVotingPage | null {
+  const session = adapter.parseSession(raw, id);
+  return session ? { ...session, votes: adapter.parseMembers(raw, id) } : null;
+}
+
+/**
+ * Collect the paths at which two JSON values differ
+ */
+function diffValues(expected: unknown, actual: unknown, at: string, differences: string[]): void {
+  if (expected !== null && actual !== null && typeof expected === 'object' && typeof actual === 'object') {
+    if (Array.isArray(expected) && Array.isArray(actual) && expected.length !== actual.length) {
+      differences.push(`${at}: expected ${expected.length} items, got ${actual.length}`);
+      return;
+    }
+    
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of Array.from(keys)) {
+      diffValues((expected as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key], at ? `${at}.${key}` : key, differences);
+    }
+    return;
+  }
+  
+  if (expected !== actual) {
+    differences.push(`${at || 'page'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+/**
+ * Parse every golden fixture of a directory and compare it with its expected output
+ * The adapter's structure check is run on each page as well, so the fixtures also keep it honest.
+ * @param adapter Adapter whose parser is checked
+ * @param directory Directory with cases.json, the pages and their expected output
+ * @param update Write the current output as the expected one instead of comparing
+ */
+export async function checkGoldenFixtures(adapter: VoteSourceAdapter, directory: string, update: boolean = false): Promise<GoldenResult[]> {
+  const cases: GoldenCase[] = JSON.parse(await fs.readFile(path.join(directory, MANIFEST_FILE), 'utf8'));
+  const results: GoldenResult[] = [];
+  
+  for (const goldenCase of cases) {
+    const raw = await fs.readFile(path.join(directory, `g${goldenCase.g}.html`), 'utf8');
+    const page = parseDocument(adapter, raw, goldenCase.g);
+    const actual: unknown = JSON.parse(JSON.stringify(page));
+    const expectedPath = path.join(directory, `g${goldenCase.g}.expected.json`);
+    const differences: string[] = [];
+    
+    if (update) {
+      await fs.writeFile(expectedPath, `${JSON.stringify(actual, null, 2)}\n`, 'utf8');
+    } else {
+      try {
+        diffValues(JSON.parse(await fs.readFile(expectedPath, 'utf8')), actual, '', differences);
+      } catch (error) {
+        differences.push(`expected output unreadable (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+    
+    const structure = adapter.checkStructure?.(raw, page) ?? [];
+    results.push({
+      g: goldenCase.g,
+      name: goldenCase.name,
+      passed: differences.length === 0 && structure.length === 0,
+      captured: !!goldenCase.captured,
+      differences,
+      structure,
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * Download the page of every golden case from its source, replacing the saved page
+ * Each case is stamped with the download date in cases.json. Run checkGoldenFixtures with update afterwards
+ * to save the output the captured pages parse into.
+ * @param loadPage Loader reading pages from the live source
+ * @param directory Directory with cases.json
+ * @returns IDs whose page was captured
+ */
+export async function captureGoldenPages(loadPage: PageLoader, directory: string): Promise<number[]> {
+  const manifestPath = path.join(directory, MANIFEST_FILE);
+  const cases: GoldenCase[] = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  const captured = new Date().toISOString().slice(0, 10);
+  
+  for (const goldenCase of cases) {
+    const raw = await loadPage(goldenCase.g);
+    if (raw === null) {
+      throw new Error(`The source has no page for g=${goldenCase.g}`);
+    }
+    await fs.writeFile(path.join(directory, `g${goldenCase.g}.html`), raw, 'utf8');
+    goldenCase.captured = captured;
+  }
+  
+  // One case per line, as the manifest is written by hand
+  const line = (goldenCase: GoldenCase) => `  { ${Object.entries(goldenCase).map(([key, value]) => `"${key}": ${JSON.stringify(value)}`).join(', ')} }`;
+  await fs.writeFile(manifestPath, `[\n${cases.map(line).join(',\n')}\n]\n`, 'utf8');
+  return cases.map(goldenCase => goldenCase.g);
+}
+
+/**
+ * Log a page whose structure the parser no longer matches
+ * @param adapter Adapter that fetched and parsed the page
+ * @param id Session ID of the page
+ * @param failures Failed structure assertions
+ */
+export async function recordParserFailure(adapter: VoteSourceAdapter, id: number, failures: string[]): Promise<void> {
+  try {
+    await db.insert(systemLogs).values({
+      type: 'parser_health',
+      status: 'error',
+      message: `${adapter.name} page ${id} no longer matches parser ${adapter.parserVersion}: ${failures.join('; ')}`,
+      details: {
+        source: adapter.name,
+        id,
+        url: adapter.documentUrl(id),
+        parserVersion: adapter.parserVersion,
+        failures,
+      },
+    });
+  } catch (error) {
+    console.error('Error logging parser failure:', error);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Politician Resolver Module
+ *
+ * This module maps names and official IDs seen in sources to politician rows.
+ * It prefers the official person ID, falls back to normalised name aliases,
+ * and reports ambiguous matches instead of silently creating duplicates.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { politicians, politicianAliases, systemLogs } from '../src/db/schema';
+import { eq, isNull, sql } from 'drizzle-orm';
+
+// Academic titles dropped during normalisation (compared without dots)
+const TITLES = new Set([
+  'bc', 'bca', 'ing', 'arch', 'mgr', 'mga', 'mudr', 'mddr', 'mvdr', 'judr', 'phdr', 'rndr',
+  'paeddr', 'pharmdr', 'thdr', 'thlic', 'thmgr', 'rsdr', 'dr', 'doc', 'prof', 'phd', 'csc',
+  'drsc', 'dis', 'mba', 'mpa', 'msc', 'ma', 'ba', 'bba', 'llm', 'llb',
+]);
+
+/**
+ * Politician identity interface
+ * What a source tells us about the person behind a vote or account
+ */
+export interface PoliticianIdentity {
+  name: string;
+  externalId?: string | null;
+  source?: string;
+  provenanceId?: number | null; // Provenance record saved on the politician if one is created
+}
+
+/**
+ * Resolution candidate interface
+ */
+export interface ResolutionCandidate {
+  id: number;
+  name: string;
+  externalId: string | null;
+}
+
+/**
+ * Politician resolution interface
+ */
+export interface PoliticianResolution {
+  status: 'matched_id' | 'matched_name' | 'created' | 'ambiguous';
+  politicianId: number | null;
+  candidates: ResolutionCandidate[];
+}
+
+/**
+ * Normalise a politician name for matching
+ * Drops academic titles, diacritics, case and punctuation, then sorts the words
+ * so "Ing. Andrej Babiš" and "Babiš Andrej" compare equal.
+ * @param name Name as it appears in a source
+ * @returns Normalised name
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .map(token => token.replace(/[^a-z0-9.-]/g, ''))
+    .filter(token => token && !TITLES.has(token.replace(/\./g, '')))
+    .map(token => token.replace(/\.$/, ''))
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Record a name variant for a politician
+ * @param politicianId Politician ID
+ * @param alias Name exactly as it appeared in the source
+ * @param source Source where the alias was seen
+ * @param executor Database or open transaction to use
+ */
+export async function addPoliticianAlias(
+  politicianId: number,
+  alias: string,
+  source: string | null = null,
+  executor: DbExecutor = db
+): Promise<void> {
+  const normalizedAlias = normalizeName(alias);
+  if (!normalizedAlias) {
+    return;
+  }
+  
+  await executor
+    .insert(politicianAliases)
+    .values({ politicianId, alias: alias.slice(0, 150), normalizedAlias: normalizedAlias.slice(0, 150), source })
+    .onConflictDoNothing();
+}
+
+/**
+ * Find the politicians a source identity could resolve to, without changing anything
+ * @param identity Name and official ID of the person
+ * @param executor Database or open transaction to use
+ * @returns The politician holding the official ID, or else those sharing the normalised name
+ */
+export async function findPoliticianCandidates(
+  identity: PoliticianIdentity,
+  executor: DbExecutor = db
+): Promise<{ matchedBy: 'id' | 'name' | null; candidates: ResolutionCandidate[] }> {
+  const externalId = identity.externalId || null;
+  
+  // 1. The official ID wins whenever we have it
+  if (externalId) {
+    const byId = await executor
+      .select({ id: politicians.id, name: politicians.name, externalId: politicians.externalId })
+      .from(politicians)
+      .where(eq(politicians.externalId, externalId))
+      .limit(1);
+    
+    if (byId.length > 0) {
+      return { matchedBy: 'id', candidates: byId };
+    }
+  }
+  
+  // 2. Fall back to normalised name aliases
+  let candidates: ResolutionCandidate[] = await executor
+    .selectDistinct({ id: politicians.id, name: politicians.name, externalId: politicians.externalId })
+    .from(politicianAliases)
+    .innerJoin(politicians, eq(politicianAliases.politicianId, politicians.id))
+    .where(eq(politicianAliases.normalizedAlias, normalizeName(identity.name)));
+  
+  // A candidate already carrying a different official ID is a namesake, not a match
+  if (externalId) {
+    candidates = candidates.filter(candidate => !candidate.externalId);
+  }
+  
+  return { matchedBy: candidates.length > 0 ? 'name' : null, candidates };
+}
+
+/**
+ * Resolve a politician from a source identity
+ * @param identity Name, official ID and source of the person
+ * @param executor Database or open transaction to use
+ * @returns Resolution status with the matched or created politician ID
+ */
+export async function resolvePolitician(
+  identity: PoliticianIdentity,
+  executor: DbExecutor = db
+): Promise<PoliticianResolution> {
+  const externalId = identity.externalId || null;
+  const source = identity.source || null;
+  const { matchedBy, candidates } = await findPoliticianCandidates(identity, executor);
+  
+  if (matchedBy === 'id') {
+    await addPoliticianAlias(candidates[0].id, identity.name, source, executor);
+    return { status: 'matched_id', politicianId: candidates[0].id, candidates };
+  }
+  
+  if (candidates.length > 1) {
+    return { status: 'ambiguous', politicianId: null, candidates };
+  }
+  
+  if (candidates.length === 1) {
+    const politicianId = candidates[0].id;
+    if (externalId) {
+      await executor
+        .update(politicians)
+        .set({ externalId, updatedAt: new Date() })
+        .where(eq(politicians.id, politicianId));
+    }
+    await addPoliticianAlias(politicianId, identity.name, source, executor);
+    return { status: 'matched_name', politicianId, candidates };
+  }
+  
+  // 3. Nobody matches: create the politician with its first alias
+  const created = await executor
+    .insert(politicians)
+    .values({ name: identity.name.slice(0, 100), externalId, provenanceId: identity.provenanceId ?? null })
+    .returning({ id: politicians.id });
+  
+  await addPoliticianAlias(created[0].id, identity.name, source, executor);
+  return { status: 'created', politicianId: created[0].id, candidates: [] };
+}
+
+/**
+ * Resolve a politician and fail loudly on ambiguous matches
+ * Ambiguous matches are written to system_logs for manual review.
+ * @param identity Name, official ID and source of the person
+ * @param executor Database or open transaction to use
+ * @returns Politician ID
+ */
+export async function requirePolitician(
+  identity: PoliticianIdentity,
+  executor: DbExecutor = db
+): Promise<number> {
+  const resolution = await resolvePolitician(identity, executor);
+  
+  if (resolution.status === 'ambiguous' || !resolution.politicianId) {
+    const message = `Ambiguous politician match for "${identity.name}": candidates ${resolution.candidates.map(c => c.id).join(', ')}`;
+    await logAmbiguousMatch(identity, resolution.candidates, message);
+    throw new Error(message);
+  }
+  
+  return resolution.politicianId;
+}
+
+/**
+ * Write an ambiguous match to system_logs
+ * Uses the shared connection so the entry survives a rolled-back transaction.
+ */
+export async function logAmbiguousMatch(
+  identity: PoliticianIdentity,
+  candidates: ResolutionCandidate[],
+  message: string
+): Promise<void> {
+  try {
+    await db.insert(systemLogs).values({
+      type: 'politician_resolution',
+      status: 'ambiguous',
+      message,
+      details: { identity, candidates },
+    });
+  } catch (error) {
+    console.error('Error logging ambiguous politician match:', error);
+  }
+}
+
+/**
+ * Create aliases for politicians that have none yet
+ * Run once after upgrading so rows created before aliases existed can be matched by name.
+ * @returns Number of aliases created
+ */
+export async function backfillPoliticianAliases(): Promise<number> {
+  try {
+    const withoutAliases = await db
+      .select({ id: politicians.id, name: politicians.name })
+      .from(politicians)
+      .leftJoin(politicianAliases, eq(politicianAliases.politicianId, politicians.id))
+      .where(isNull(politicianAliases.id));
+    
+    for (const politician of withoutAliases) {
+      await addPoliticianAlias(politician.id, politician.name, 'backfill');
+    }
+    
+    return withoutAliases.length;
+  } catch (error) {
+    console.error('Error backfilling politician aliases:', error);
+    throw new Error('Failed to backfill politician aliases');
+  }
+}
+
+/**
+ * Find groups of politicians that share a normalised name
+ * Useful for reviewing duplicates created before stable IDs existed.
+ */
+export async function findDuplicatePoliticians(): Promise<Array<{ normalizedAlias: string; politicianIds: number[] }>> {
+  try {
+    const rows = await db
+      .select({
+        normalizedAlias: politicianAliases.normalizedAlias,
+        politicianIds: sql<number[]>`array_agg(DISTINCT ${politicianAliases.politicianId})`,
+      })
+      .from(politicianAliases)
+      .groupBy(politicianAliases.normalizedAlias)
+      .having(sql`count(DISTINCT ${politicianAliases.politicianId}) > 1`);
+    
+    return rows;
+  } catch (error) {
+    console.error('Error finding duplicate politicians:', error);
+    throw new Error('Failed to find duplicate politicians');
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Provenance Module
+ *
+ * This module records where stored rows came from, so a number shown downstream can be cited
+ * back to the adapter that fetched it, the URL and time of the fetch, and the parser version that read it.
+ * One record is kept per fetch and parser version; sessions, votes, tweets and politicians point at theirs.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { provenanceRecords } from '../src/db/schema';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Provenance input interface
+ */
+export interface ProvenanceInput {
+  adapter: string;             // Adapter or importer that fetched the payload (e.g., 'psp', 'open_data')
+  sourceUrl: string;           // URL or file the payload was fetched from
+  fetchedAt: Date;
+  parserVersion: string;       // Version of the parser that read the payload
+  archiveHash?: string | null; // Hash of the archived payload, if it was archived
+}
+
+/**
+ * Row provenance interface
+ * Shape in which provenance is returned alongside rows in API responses
+ */
+export interface RowProvenance {
+  adapter: string;
+  source_url: string;
+  fetched_at: Date | string;
+  parser_version: string;
+  archive_hash: string | null;
+}
+
+/**
+ * Columns selecting the provenance of a row
+ * Use with a left join on provenance_records; rows without provenance get null.
+ * @param table Provenance table or an alias of it, when one query joins it more than once
+ */
+export function provenanceColumns(table: typeof provenanceRecords = provenanceRecords) {
+  return {
+    adapter: table.adapter,
+    source_url: table.sourceUrl,
+    fetched_at: table.fetchedAt,
+    parser_version: table.parserVersion,
+    archive_hash: table.archiveHash,
+  };
+}
+
+/**
+ * Record a fetch and the parser version that read it
+ * Saving the same fetch twice returns the existing record, filling in the archive hash if it was missing.
+ * @param input Adapter, URL, fetch time and parser version
+ * @param executor Database or open transaction to use
+ * @returns Provenance record ID
+ */
+export async function recordProvenance(input: ProvenanceInput, executor: DbExecutor = db): Promise<number> {
+  try {
+    const result = await executor
+      .insert(provenanceRecords)
+      .values({
+        adapter: input.adapter,
+        sourceUrl: input.sourceUrl,
+        fetchedAt: input.fetchedAt,
+        parserVersion: input.parserVersion,
+        archiveHash: input.archiveHash ?? null,
+      })
+      .onConflictDoUpdate({
+        target: [provenanceRecords.adapter, provenanceRecords.sourceUrl, provenanceRecords.fetchedAt, provenanceRecords.parserVersion],
+        set: { archiveHash: sql`coalesce(${provenanceRecords.archiveHash}, excluded.archive_hash)` },
+      })
+      .returning({ id: provenanceRecords.id });
+    
+    return result[0].id;
+  } catch (error) {
+    console.error('Error recording provenance:', error);
+    throw new Error(`Failed to record provenance of ${input.sourceUrl}`);
+  }
+}
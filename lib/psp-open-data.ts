@@ -0,0 +1,905 @@
+/**
+ * PSP Open Data Module
+ *
+ * This module imports the voting archive published by the Chamber of Deputies as open data.
+ * It reads the UNL dumps (`hl-YYYYps` for votes, `poslanci` for MPs and organs) from a local
+ * directory and loads them into the database in a single transaction.
+ * Re-running the import over a newer dump only inserts or updates rows that differ.
+ * Every row written is credited to the UNL file it was read from.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { db, Transaction } from '../src/db/config';
+import { votes, votingSessions, parties, politicianMemberships, electoralTerms, termSeats, MembershipType, SessionOutcome, AnnulmentReason, Chamber } from '../src/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { PgInsertValue } from 'drizzle-orm/pg-core';
+import { resolvePolitician, logAmbiguousMatch } from './politician-resolver';
+import { refreshCurrentParty } from './memberships';
+import { markSessionAnnulled, clearSessionAnnulments, linkRepeatSessions } from './annulments';
+import { inferMajorityType } from './psp-parser';
+import { pragueTimestamp } from './vote-scraper';
+import { mapVoteCode, VoteCodeSource } from './vote-codes';
+import { linkSessionToBill, SessionBillLink } from './bills';
+import { parseBillReference } from './bill-parser';
+import { recordProvenance } from './provenance';
+
+// Rows are written in batches to keep statements below the parameter limit
+const BATCH_SIZE = 1000;
+
+// UNL dumps are published in windows-1250
+const UNL_ENCODING = 'windows-1250';
+
+// Organ type of parliamentary clubs (typ_organu "Klub")
+const CLUB_ORGAN_TYPE = '1';
+
+// Source name stored on rows created by the import
+const OPEN_DATA_SOURCE = 'open_data';
+
+// Version of the UNL column mapping, recorded as provenance of imported rows
+export const OPEN_DATA_PARSER_VERSION = 'psp-unl/1';
+
+// Contest mode asking for the vote to be repeated (zpochybneni.mode); mode 1 is only a note for the record
+const REPEAT_REQUEST_MODE = '0';
+
+// Result codes of whole votings (hl_hlasovani.vysledek)
+const OUTCOME_CODES: Record<string, string> = {
+  'A': SessionOutcome.PASSED,    // přijato
+  'R': SessionOutcome.REJECTED,  // zamítnuto
+};
+
+/**
+ * Open data import options interface
+ */
+export interface OpenDataImportOptions {
+  years?: string[];
+}
+
+/**
+ * Import counters interface
+ */
+export interface ImportCounters {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+/**
+ * Open data import results interface
+ */
+export interface OpenDataImportResults {
+  years: string[];
+  parties: ImportCounters;
+  politicians: ImportCounters;
+  sessions: ImportCounters;
+  votes: ImportCounters;
+  memberships: ImportCounters;
+  terms: ImportCounters;
+  seats: ImportCounters;
+  annulledSessions: number;   // Sessions newly marked annulled or whose annulment changed
+  clearedAnnulments: number;  // Sessions no longer listed as annulled
+  billLinks: number;
+  skippedVotes: number;
+  ambiguousPoliticians: string[];
+}
+
+interface MpRecord {
+  personId: string;
+  listOrganId: string;
+  termOrganId: string;
+}
+
+interface OrganRecord {
+  parentId: string;
+  shortName: string;
+  name: string;
+  typeId: string;
+  validFrom: string | null;
+  validTo: string | null;
+}
+
+interface AgendaRecord {
+  printId: string;
+  title: string;
+}
+
+interface PrintRecord {
+  printNumber: number;
+  title: string;
+}
+
+/**
+ * Create an empty set of counters
+ */
+function emptyCounters(): ImportCounters {
+  return { inserted: 0, updated: 0, unchanged: 0 };
+}
+
+/**
+ * Read a UNL file row by row
+ * Columns are separated by `|` and every row ends with a trailing separator.
+ * @param file Path to the UNL file
+ * @param onRow Callback receiving the columns of each row
+ */
+export async function readUnlRows(file: string, onRow: (columns: string[]) => Promise<void> | void): Promise<void> {
+  const decoder = new TextDecoder(UNL_ENCODING);
+  let buffered = '';
+  
+  const handleLine = async (line: string) => {
+    const trimmed = line.replace(/\r$/, '');
+    if (!trimmed) {
+      return;
+    }
+    const columns = trimmed.split('|');
+    if (columns[columns.length - 1] === '') {
+      columns.pop();
+    }
+    await onRow(columns.map(column => column.trim()));
+  };
+  
+  for await (const chunk of createReadStream(file)) {
+    buffered += decoder.decode(chunk as Buffer, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines) {
+      await handleLine(line);
+    }
+  }
+  
+  buffered += decoder.decode();
+  await handleLine(buffered);
+}
+
+/**
+ * Check whether an optional UNL file is part of the dump
+ */
+async function fileExists(file: string): Promise<boolean> {
+  return fs.access(file).then(() => true, () => false);
+}
+
+/**
+ * Record where the rows of a UNL file come from
+ * Dumps are read from disk, so the file's modification time stands in for the fetch time.
+ * @returns Provenance record ID
+ */
+async function recordFileProvenance(tx: Transaction, file: string): Promise<number> {
+  const stats = await fs.stat(file);
+  return recordProvenance({
+    adapter: OPEN_DATA_SOURCE,
+    sourceUrl: pathToFileURL(path.resolve(file)).href,
+    fetchedAt: stats.mtime,
+    parserVersion: OPEN_DATA_PARSER_VERSION,
+  }, tx);
+}
+
+/**
+ * Parse an open data date ("4.3.2025" or "2025-03-04") into ISO format
+ * @returns ISO date (YYYY-MM-DD) or null if the value cannot be parsed
+ */
+export function parseOpenDataDate(value: string): string | null {
+  const czech = value.match(/^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})$/);
+  if (czech) {
+    return `${czech[3]}-${czech[2].padStart(2, '0')}-${czech[1].padStart(2, '0')}`;
+  }
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return iso ? `${iso[1]}-${iso[2]}-${iso[3]}` : null;
+}
+
+/**
+ * Parse a numeric column
+ * @returns Number, or null for empty or non-numeric values
+ */
+function parseCount(value: string | undefined): number | null {
+  return value && /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Map an open data result code to a VoteType value
+ * @returns VoteType value, or null for codes that do not count as a vote
+ */
+export function mapResultCode(code: string): string | null {
+  return mapVoteCode(VoteCodeSource.PSP_OPEN_DATA, code);
+}
+
+/**
+ * Find the yearly voting dumps in a directory
+ * @returns Years for which a `hlYYYYs.unl` file exists
+ */
+export async function findArchiveYears(directory: string): Promise<string[]> {
+  const files = await fs.readdir(directory);
+  return files
+    .map(file => file.match(/^hl(\d{4})s\.unl$/i))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[1])
+    .sort();
+}
+
+/**
+ * Resolve a party by short name inside the import transaction
+ */
+async function resolveParty(
+  tx: Transaction,
+  shortName: string,
+  name: string,
+  counters: ImportCounters
+): Promise<number> {
+  const existing = await tx
+    .select({ id: parties.id, name: parties.name })
+    .from(parties)
+    .where(eq(parties.shortName, shortName))
+    .limit(1);
+  
+  if (existing.length > 0) {
+    if (existing[0].name !== name) {
+      await tx.update(parties).set({ name, updatedAt: new Date() }).where(eq(parties.id, existing[0].id));
+      counters.updated++;
+    } else {
+      counters.unchanged++;
+    }
+    return existing[0].id;
+  }
+  
+  const result = await tx
+    .insert(parties)
+    .values({ name: name.slice(0, 100), shortName: shortName.slice(0, 20) })
+    .returning({ id: parties.id });
+  
+  counters.inserted++;
+  return result[0].id;
+}
+
+/**
+ * Resolve a politician by official person ID inside the import transaction
+ * @returns Politician ID, or null when the name matches several politicians
+ */
+async function resolveImportedPolitician(
+  tx: Transaction,
+  name: string,
+  personId: string,
+  results: OpenDataImportResults,
+  provenanceId: number | null = null
+): Promise<number | null> {
+  const identity = { name, externalId: personId, source: OPEN_DATA_SOURCE, provenanceId };
+  const resolution = await resolvePolitician(identity, tx);
+  
+  if (resolution.status === 'ambiguous' || !resolution.politicianId) {
+    const message = `Ambiguous politician match for "${name}" (id_osoba ${personId})`;
+    await logAmbiguousMatch(identity, resolution.candidates, message);
+    results.ambiguousPoliticians.push(message);
+    return null;
+  }
+  
+  // Matching by name attaches the official ID to an existing politician
+  const counters = results.politicians;
+  if (resolution.status === 'created') {
+    counters.inserted++;
+  } else if (resolution.status === 'matched_name') {
+    counters.updated++;
+  } else {
+    counters.unchanged++;
+  }
+  
+  return resolution.politicianId;
+}
+
+/**
+ * Upsert a batch of memberships
+ * Ranges from the open data are authoritative and replace ranges with the same start.
+ */
+async function upsertMemberships(
+  tx: Transaction,
+  rows: Array<typeof politicianMemberships.$inferInsert>,
+  counters: ImportCounters
+): Promise<void> {
+  const changed = await tx
+    .insert(politicianMemberships)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [politicianMemberships.politicianId, politicianMemberships.chamber, politicianMemberships.type, politicianMemberships.validFrom],
+      set: {
+        partyId: sql`excluded.party_id`,
+        validTo: sql`excluded.valid_to`,
+        source: sql`excluded.source`,
+        updatedAt: new Date(),
+      },
+      setWhere: sql`${politicianMemberships.partyId} IS DISTINCT FROM excluded.party_id OR ${politicianMemberships.validTo} IS DISTINCT FROM excluded.valid_to OR ${politicianMemberships.source} IS DISTINCT FROM excluded.source`,
+    })
+    .returning({ inserted: sql<boolean>`(xmax = 0)` });
+  
+  const inserted = changed.filter(row => row.inserted).length;
+  counters.inserted += inserted;
+  counters.updated += changed.length - inserted;
+  counters.unchanged += rows.length - changed.length;
+}
+
+/**
+ * Upsert the electoral terms found among the organs
+ * Terms are the organs coded PSP1, PSP2, ...; their dates replace the seeded ones.
+ * @returns Map of organ ID to term ID
+ */
+async function upsertTerms(
+  tx: Transaction,
+  organs: Map<string, OrganRecord>,
+  counters: ImportCounters
+): Promise<Map<string, number>> {
+  const termIds = new Map<string, number>();
+  
+  for (const [organId, organ] of Array.from(organs.entries())) {
+    const match = organ.shortName.match(/^PSP(\d+)$/i);
+    if (!match || !organ.validFrom) {
+      continue;
+    }
+    
+    const number = parseInt(match[1], 10);
+    const changed = await tx
+      .insert(electoralTerms)
+      .values({
+        number,
+        name: organ.name.slice(0, 100),
+        externalId: organ.shortName,
+        startDate: organ.validFrom,
+        endDate: organ.validTo,
+      })
+      .onConflictDoUpdate({
+        target: [electoralTerms.chamber, electoralTerms.number],
+        set: {
+          externalId: sql`excluded.external_id`,
+          startDate: sql`excluded.start_date`,
+          endDate: sql`excluded.end_date`,
+          updatedAt: new Date(),
+        },
+        setWhere: sql`${electoralTerms.startDate} IS DISTINCT FROM excluded.start_date OR ${electoralTerms.endDate} IS DISTINCT FROM excluded.end_date OR ${electoralTerms.externalId} IS DISTINCT FROM excluded.external_id`,
+      })
+      .returning({ inserted: sql<boolean>`(xmax = 0)` });
+    
+    if (changed.length === 0) {
+      counters.unchanged++;
+    } else if (changed[0].inserted) {
+      counters.inserted++;
+    } else {
+      counters.updated++;
+    }
+    
+    const stored = await tx
+      .select({ id: electoralTerms.id })
+      .from(electoralTerms)
+      .where(and(eq(electoralTerms.chamber, Chamber.DEPUTIES), eq(electoralTerms.number, number)))
+      .limit(1);
+    termIds.set(organId, stored[0].id);
+  }
+  
+  return termIds;
+}
+
+/**
+ * Upsert the seat counts of each party in each term
+ */
+async function upsertTermSeats(
+  tx: Transaction,
+  seats: Map<string, { termId: number; partyId: number; seats: number }>,
+  counters: ImportCounters
+): Promise<void> {
+  for (const row of Array.from(seats.values())) {
+    const changed = await tx
+      .insert(termSeats)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [termSeats.termId, termSeats.partyId],
+        set: { seats: sql`excluded.seats`, updatedAt: new Date() },
+        setWhere: sql`${termSeats.seats} IS DISTINCT FROM excluded.seats`,
+      })
+      .returning({ inserted: sql<boolean>`(xmax = 0)` });
+    
+    if (changed.length === 0) {
+      counters.unchanged++;
+    } else if (changed[0].inserted) {
+      counters.inserted++;
+    } else {
+      counters.updated++;
+    }
+  }
+}
+
+/**
+ * Upsert a batch of voting sessions
+ * @returns Map of external ID to internal session ID
+ */
+async function upsertSessions(
+  tx: Transaction,
+  rows: Array<PgInsertValue<typeof votingSessions>>,
+  counters: ImportCounters
+): Promise<Map<string, number>> {
+  const changed = await tx
+    .insert(votingSessions)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [votingSessions.chamber, votingSessions.externalId],
+      set: {
+        title: sql`excluded.title`,
+        date: sql`excluded.date`,
+        sourceUrl: sql`excluded.source_url`,
+        termId: sql`excluded.term_id`,
+        provenanceId: sql`excluded.provenance_id`,
+        meetingNumber: sql`excluded.meeting_number`,
+        voteNumber: sql`excluded.vote_number`,
+        votedAt: sql`excluded.voted_at`,
+        presentCount: sql`excluded.present_count`,
+        quorum: sql`excluded.quorum`,
+        outcome: sql`excluded.outcome`,
+        majorityType: sql`excluded.majority_type`,
+        resultSummary: sql`excluded.result_summary`,
+        updatedAt: new Date(),
+      },
+      setWhere: sql`${votingSessions.title} IS DISTINCT FROM excluded.title
+        OR ${votingSessions.date} IS DISTINCT FROM excluded.date
+        OR ${votingSessions.termId} IS DISTINCT FROM excluded.term_id
+        OR ${votingSessions.meetingNumber} IS DISTINCT FROM excluded.meeting_number
+        OR ${votingSessions.voteNumber} IS DISTINCT FROM excluded.vote_number
+        OR ${votingSessions.votedAt} IS DISTINCT FROM excluded.voted_at
+        OR ${votingSessions.presentCount} IS DISTINCT FROM excluded.present_count
+        OR ${votingSessions.quorum} IS DISTINCT FROM excluded.quorum
+        OR ${votingSessions.outcome} IS DISTINCT FROM excluded.outcome
+        OR ${votingSessions.majorityType} IS DISTINCT FROM excluded.majority_type
+        OR ${votingSessions.resultSummary}::text IS DISTINCT FROM excluded.result_summary::text`,
+    })
+    .returning({ inserted: sql<boolean>`(xmax = 0)` });
+  
+  const inserted = changed.filter(row => row.inserted).length;
+  counters.inserted += inserted;
+  counters.updated += changed.length - inserted;
+  counters.unchanged += rows.length - changed.length;
+  
+  const externalIds = rows.map(row => row.externalId as string);
+  const stored = await tx
+    .select({ id: votingSessions.id, externalId: votingSessions.externalId })
+    .from(votingSessions)
+    .where(and(eq(votingSessions.chamber, Chamber.DEPUTIES), inArray(votingSessions.externalId, externalIds)));
+  
+  return new Map(stored.map(row => [row.externalId as string, row.id]));
+}
+
+/**
+ * Upsert a batch of votes
+ */
+async function upsertVotes(
+  tx: Transaction,
+  rows: Array<typeof votes.$inferInsert>,
+  counters: ImportCounters
+): Promise<void> {
+  const changed = await tx
+    .insert(votes)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [votes.politicianId, votes.sessionId],
+      set: { vote: sql`excluded.vote`, sourceCode: sql`excluded.source_code`, provenanceId: sql`excluded.provenance_id`, updatedAt: new Date() },
+      setWhere: sql`${votes.vote} IS DISTINCT FROM excluded.vote OR ${votes.sourceCode} IS DISTINCT FROM excluded.source_code`,
+    })
+    .returning({ inserted: sql<boolean>`(xmax = 0)` });
+  
+  const inserted = changed.filter(row => row.inserted).length;
+  counters.inserted += inserted;
+  counters.updated += changed.length - inserted;
+  counters.unchanged += rows.length - changed.length;
+}
+
+/**
+ * Import the psp.cz open data voting archive from a local directory
+ * The directory must hold `osoby.unl`, `poslanec.unl` and `organy.unl` from the
+ * `poslanci` dump, plus the `hlYYYYs.unl` and `hlYYYYh*.unl` files of each year.
+ * Club memberships are imported from `zarazeni.unl` when present, void votes from
+ * `hlYYYYz.unl` and contested votes that were repeated from `hlYYYYx.unl`.
+ * @param directory Directory holding the unpacked UNL files
+ * @param options Import options (restrict to specific years)
+ * @returns Counts of inserted, updated and unchanged rows
+ */
+export async function importOpenData(
+  directory: string,
+  options: OpenDataImportOptions = {}
+): Promise<OpenDataImportResults> {
+  const availableYears = await findArchiveYears(directory);
+  const years = options.years
+    ? availableYears.filter(year => options.years?.includes(year))
+    : availableYears;
+  
+  if (years.length === 0) {
+    throw new Error(`No hlYYYYs.unl files found in ${directory}`);
+  }
+  
+  // Organs give party, club and term names, persons give MP names, MP records link the two
+  const organs = new Map<string, OrganRecord>();
+  await readUnlRows(path.join(directory, 'organy.unl'), columns => {
+    organs.set(columns[0], {
+      parentId: columns[1],
+      shortName: columns[3],
+      name: columns[4] || columns[3],
+      typeId: columns[2],
+      validFrom: parseOpenDataDate(columns[6] || ''),
+      validTo: parseOpenDataDate(columns[7] || ''),
+    });
+  });
+  
+  const persons = new Map<string, string>();
+  await readUnlRows(path.join(directory, 'osoby.unl'), columns => {
+    persons.set(columns[0], `${columns[2]} ${columns[3]}`.trim());
+  });
+  
+  const mps = new Map<string, MpRecord>();
+  await readUnlRows(path.join(directory, 'poslanec.unl'), columns => {
+    mps.set(columns[0], { personId: columns[1], listOrganId: columns[3], termOrganId: columns[4] });
+  });
+  
+  // Agenda items (bod_schuze) of each meeting (schuze) and the prints (tisky) they discuss, if the dump includes them
+  const meetings = new Map<string, string>();
+  const agenda = new Map<string, AgendaRecord>();
+  const prints = new Map<string, PrintRecord>();
+  const meetingsFile = path.join(directory, 'schuze.unl');
+  const agendaFile = path.join(directory, 'bod_schuze.unl');
+  const printsFile = path.join(directory, 'tisky.unl');
+  
+  if (await fileExists(meetingsFile) && await fileExists(agendaFile)) {
+    await readUnlRows(meetingsFile, columns => {
+      meetings.set(columns[0], `${columns[1]}|${columns[2]}`);
+    });
+    await readUnlRows(agendaFile, columns => {
+      const meeting = meetings.get(columns[1]);
+      const itemNumber = parseCount(columns[4]);
+      if (meeting && itemNumber) {
+        agenda.set(`${meeting}|${itemNumber}`, { printId: columns[2], title: columns[5] || '' });
+      }
+    });
+  }
+  
+  if (await fileExists(printsFile)) {
+    await readUnlRows(printsFile, columns => {
+      const printNumber = parseCount(columns[3]);
+      if (printNumber) {
+        prints.set(columns[0], { printNumber, title: columns[10] || '' });
+      }
+    });
+  }
+  
+  const results: OpenDataImportResults = {
+    years,
+    parties: emptyCounters(),
+    politicians: emptyCounters(),
+    sessions: emptyCounters(),
+    votes: emptyCounters(),
+    memberships: emptyCounters(),
+    terms: emptyCounters(),
+    seats: emptyCounters(),
+    annulledSessions: 0,
+    clearedAnnulments: 0,
+    billLinks: 0,
+    skippedVotes: 0,
+    ambiguousPoliticians: [],
+  };
+  
+  await db.transaction(async (tx) => {
+    const partyIds = new Map<string, number>();
+    const politicianIds = new Map<string, number | null>();
+    const personPoliticians = new Map<string, number>();
+    const memberships = new Map<string, typeof politicianMemberships.$inferInsert>();
+    const termIds = await upsertTerms(tx, organs, results.terms);
+    const personsProvenanceId = await recordFileProvenance(tx, path.join(directory, 'osoby.unl'));
+    
+    // Resolve the party behind an organ, creating it as needed
+    const partyFor = async (organ: OrganRecord | undefined): Promise<number | null> => {
+      if (!organ || !organ.shortName) {
+        return null;
+      }
+      let partyId = partyIds.get(organ.shortName);
+      if (!partyId) {
+        partyId = await resolveParty(tx, organ.shortName, organ.name, results.parties);
+        partyIds.set(organ.shortName, partyId);
+      }
+      return partyId;
+    };
+    
+    // Collect a membership range, keeping one row per politician, type and start date
+    const addMembership = (row: typeof politicianMemberships.$inferInsert) => {
+      memberships.set(`${row.politicianId}|${row.type}|${row.validFrom}`, row);
+    };
+    
+    // Resolve the politician behind an MP record, creating party and politician as needed
+    const politicianFor = async (mpId: string): Promise<number | null> => {
+      if (politicianIds.has(mpId)) {
+        return politicianIds.get(mpId) ?? null;
+      }
+      
+      const mp = mps.get(mpId);
+      const name = mp ? persons.get(mp.personId) : undefined;
+      if (!mp || !name) {
+        return null;
+      }
+      
+      // Ambiguous matches are cached as null so they are reported once per MP
+      const politicianId = await resolveImportedPolitician(tx, name, mp.personId, results, personsProvenanceId);
+      politicianIds.set(mpId, politicianId);
+      if (!politicianId) {
+        return null;
+      }
+      personPoliticians.set(mp.personId, politicianId);
+      
+      // The party list an MP was elected on counts as their party for the whole term
+      const partyId = await partyFor(organs.get(mp.listOrganId));
+      const term = organs.get(mp.termOrganId);
+      if (partyId && term && term.validFrom) {
+        addMembership({
+          politicianId,
+          partyId,
+          type: MembershipType.PARTY,
+          validFrom: term.validFrom,
+          validTo: term.validTo,
+          source: OPEN_DATA_SOURCE,
+          termId: termIds.get(mp.termOrganId) ?? null,
+        });
+      }
+      
+      return politicianId;
+    };
+    
+    for (const year of years) {
+      console.log(`Importing open data voting archive for ${year}...`);
+      
+      // Sessions (hl_hlasovani)
+      const sessionIds = new Map<string, number>();
+      const billLinks = new Map<string, SessionBillLink>();
+      let sessionBatch: Array<PgInsertValue<typeof votingSessions>> = [];
+      const sessionsFile = path.join(directory, `hl${year}s.unl`);
+      const sessionsProvenanceId = await recordFileProvenance(tx, sessionsFile);
+      
+      const flushSessions = async () => {
+        if (sessionBatch.length === 0) return;
+        const stored = await upsertSessions(tx, sessionBatch, results.sessions);
+        stored.forEach((id, externalId) => sessionIds.set(externalId, id));
+        sessionBatch = [];
+      };
+      
+      await readUnlRows(sessionsFile, async columns => {
+        const date = parseOpenDataDate(columns[5] || '');
+        if (!date) {
+          return;
+        }
+        const present = parseCount(columns[11]);
+        const quorum = parseCount(columns[12]);
+        const time = (columns[6] || '').match(/^\d{1,2}:\d{2}(:\d{2})?$/) ? columns[6] : null;
+        sessionBatch.push({
+          externalId: columns[0],
+          title: (columns[15] || columns[16] || `${columns[2]}. schůze, ${columns[3]}. hlasování`).slice(0, 200),
+          date,
+          termId: termIds.get(columns[1]) ?? null,
+          meetingNumber: parseCount(columns[2]),
+          voteNumber: parseCount(columns[3]),
+          votedAt: time ? pragueTimestamp(date, time) : null,
+          presentCount: present,
+          quorum,
+          outcome: OUTCOME_CODES[(columns[14] || '').toUpperCase()] ?? null,
+          majorityType: inferMajorityType(present, quorum),
+          resultSummary: {
+            yes: parseCount(columns[7]) ?? 0,
+            no: parseCount(columns[8]) ?? 0,
+            abstain: parseCount(columns[9]) ?? 0,
+            notVoting: parseCount(columns[10]) ?? 0,
+            absent: null,
+            present,
+            required: quorum,
+          },
+          sourceUrl: `https://www.psp.cz/sqw/hlasy.sqw?g=${columns[0]}`,
+          provenanceId: sessionsProvenanceId,
+          voteCount: 0,
+        });
+        
+        // Item numbers below 1 mark procedural votes outside the agenda
+        const itemNumber = parseCount(columns[4]);
+        const agendaItemNumber = itemNumber !== null && itemNumber > 0 ? itemNumber : null;
+        const item = agendaItemNumber ? agenda.get(`${columns[1]}|${columns[2]}|${agendaItemNumber}`) : undefined;
+        const print = item ? prints.get(item.printId) : undefined;
+        const reference = parseBillReference(columns[15], columns[16], item?.title);
+        if (print || reference.printNumber || reference.reading || reference.voteKind || agendaItemNumber) {
+          billLinks.set(columns[0], {
+            ...reference,
+            printNumber: print?.printNumber ?? reference.printNumber,
+            agendaItemNumber,
+            agendaItemTitle: item?.title || null,
+            billTitle: print?.title || null,
+            billExternalId: print && item ? item.printId : null,
+          });
+        }
+        
+        if (sessionBatch.length >= BATCH_SIZE) {
+          await flushSessions();
+        }
+      });
+      await flushSessions();
+      
+      for (const [externalId, link] of Array.from(billLinks.entries())) {
+        const sessionId = sessionIds.get(externalId);
+        if (sessionId) {
+          await linkSessionToBill(sessionId, link, tx);
+          if (link.printNumber) {
+            results.billLinks++;
+          }
+        }
+      }
+      
+      // Void votes (hl_zmatecne) and contested votes that were repeated (zpochybneni)
+      const annulledIds = new Set<number>();
+      const voidFile = path.join(directory, `hl${year}z.unl`);
+      if (await fileExists(voidFile)) {
+        await readUnlRows(voidFile, async columns => {
+          const sessionId = sessionIds.get(columns[0]);
+          if (sessionId) {
+            annulledIds.add(sessionId);
+            if (await markSessionAnnulled(sessionId, AnnulmentReason.VOID, null, tx)) {
+              results.annulledSessions++;
+            }
+          }
+        });
+      }
+      
+      const contestFile = path.join(directory, `hl${year}x.unl`);
+      if (await fileExists(contestFile)) {
+        await readUnlRows(contestFile, async columns => {
+          const sessionId = sessionIds.get(columns[0]);
+          const repeatSessionId = sessionIds.get(columns[4] || '');
+          if (sessionId && columns[2] === REPEAT_REQUEST_MODE && repeatSessionId) {
+            annulledIds.add(sessionId);
+            if (await markSessionAnnulled(sessionId, AnnulmentReason.CONTESTED, repeatSessionId, tx)) {
+              results.annulledSessions++;
+            }
+          }
+        });
+      }
+      
+      // Each file lists every annulment of its kind for the year, so sessions missing from it are not annulled
+      const notAnnulled = Array.from(sessionIds.values()).filter(id => !annulledIds.has(id));
+      if (await fileExists(voidFile)) {
+        results.clearedAnnulments += await clearSessionAnnulments(notAnnulled, AnnulmentReason.VOID, tx);
+      }
+      if (await fileExists(contestFile)) {
+        results.clearedAnnulments += await clearSessionAnnulments(notAnnulled, AnnulmentReason.CONTESTED, tx);
+      }
+      
+      // Per-MP votes (hl_poslanec), split across hlYYYYh1.unl, hlYYYYh2.unl, ...
+      const voteFiles = (await fs.readdir(directory))
+        .filter(file => new RegExp(`^hl${year}h\\d+\\.unl$`, 'i').test(file))
+        .sort();
+      
+      let voteBatch: Array<typeof votes.$inferInsert> = [];
+      const flushVotes = async () => {
+        if (voteBatch.length === 0) return;
+        await upsertVotes(tx, voteBatch, results.votes);
+        voteBatch = [];
+      };
+      
+      for (const file of voteFiles) {
+        const provenanceId = await recordFileProvenance(tx, path.join(directory, file));
+        await readUnlRows(path.join(directory, file), async columns => {
+          const sessionId = sessionIds.get(columns[1]);
+          const vote = mapResultCode(columns[2] || '');
+          const politicianId = sessionId && vote ? await politicianFor(columns[0]) : null;
+          
+          if (!sessionId || !vote || !politicianId) {
+            results.skippedVotes++;
+            return;
+          }
+          
+          voteBatch.push({ sessionId, politicianId, vote, sourceCode: columns[2].toUpperCase(), provenanceId });
+          if (voteBatch.length >= BATCH_SIZE) {
+            await flushVotes();
+          }
+        });
+      }
+      await flushVotes();
+      
+      // Vote counts are recomputed rather than incremented so re-runs stay correct
+      const ids = Array.from(sessionIds.values());
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        await tx
+          .update(votingSessions)
+          .set({ voteCount: sql`(SELECT count(*) FROM votes WHERE votes.session_id = voting_sessions.id)` })
+          .where(inArray(votingSessions.id, batch));
+      }
+    }
+    
+    // Void votes name no repeat, so find the next vote of the same meeting
+    await linkRepeatSessions(tx);
+    
+    // Club memberships (zarazeni) of the imported MPs, if the dump includes them
+    // Memberships in a term organ are the mandates; their start dates tell elected MPs from substitutes
+    const mandateStarts = new Map<string, string>();
+    const assignmentsFile = path.join(directory, 'zarazeni.unl');
+    if (await fileExists(assignmentsFile)) {
+      await readUnlRows(assignmentsFile, async columns => {
+        const politicianId = personPoliticians.get(columns[0]);
+        const organ = organs.get(columns[1]);
+        const validFrom = parseOpenDataDate(columns[3] || '');
+        
+        if (termIds.has(columns[1]) && columns[2] === '0' && validFrom) {
+          const key = `${columns[0]}|${columns[1]}`;
+          const known = mandateStarts.get(key);
+          if (!known || validFrom < known) {
+            mandateStarts.set(key, validFrom);
+          }
+        }
+        
+        // cl_funkce 0 marks a membership, 1 a function held within the organ
+        if (!politicianId || !organ || organ.typeId !== CLUB_ORGAN_TYPE || columns[2] !== '0' || !validFrom) {
+          return;
+        }
+        
+        const partyId = await partyFor(organ);
+        if (partyId) {
+          addMembership({
+            politicianId,
+            partyId,
+            type: MembershipType.CLUB,
+            validFrom,
+            validTo: parseOpenDataDate(columns[4] || ''),
+            source: OPEN_DATA_SOURCE,
+            termId: termIds.get(organ.parentId) ?? null,
+          });
+        }
+      });
+    }
+    
+    const membershipRows = Array.from(memberships.values());
+    for (let i = 0; i < membershipRows.length; i += BATCH_SIZE) {
+      await upsertMemberships(tx, membershipRows.slice(i, i + BATCH_SIZE), results.memberships);
+    }
+    
+    // Ranges inferred from scraped pages give way to the official ones they overlap
+    await tx.execute(sql`
+      DELETE FROM ${politicianMemberships} m
+      USING ${politicianMemberships} o
+      WHERE o.source = ${OPEN_DATA_SOURCE}
+        AND m.source IS DISTINCT FROM ${OPEN_DATA_SOURCE}
+        AND m.politician_id = o.politician_id
+        AND m.chamber = o.chamber
+        AND m.type = o.type
+        AND m.valid_from <= COALESCE(o.valid_to, 'infinity'::date)
+        AND COALESCE(m.valid_to, 'infinity'::date) >= o.valid_from
+    `);
+    
+    for (const politicianId of Array.from(new Set(personPoliticians.values()))) {
+      await refreshCurrentParty(politicianId, tx, Chamber.DEPUTIES);
+    }
+    
+    // Seats per party list and term, counted from the mandates held when the term began. Substitutes
+    // take over a seat later, so counting them would exceed the chamber's seats; a term whose mandate
+    // dates are unknown gets no counts.
+    const termStarts = new Map<string, string>();
+    for (const [key, start] of Array.from(mandateStarts.entries())) {
+      const termOrganId = key.split('|')[1];
+      const known = termStarts.get(termOrganId);
+      if (!known || start < known) {
+        termStarts.set(termOrganId, start);
+      }
+    }
+    
+    const seats = new Map<string, { termId: number; partyId: number; seats: number }>();
+    const countedSeats = new Set<string>();
+    for (const mp of Array.from(mps.values())) {
+      const mandateKey = `${mp.personId}|${mp.termOrganId}`;
+      const termId = termIds.get(mp.termOrganId);
+      const termStart = termStarts.get(mp.termOrganId);
+      if (!termId || !termStart || mandateStarts.get(mandateKey) !== termStart || countedSeats.has(mandateKey)) {
+        continue;
+      }
+      const partyId = await partyFor(organs.get(mp.listOrganId));
+      if (!partyId) {
+        continue;
+      }
+      countedSeats.add(mandateKey);
+      const key = `${termId}|${partyId}`;
+      const entry = seats.get(key) || { termId, partyId, seats: 0 };
+      entry.seats++;
+      seats.set(key, entry);
+    }
+    await upsertTermSeats(tx, seats, results.seats);
+  });
+  
+  return results;
+}
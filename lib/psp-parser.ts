@@ -0,0 +1,378 @@
+/**
+ * PSP Parser Module
+ *
+ * This module parses voting pages published by the Chamber of Deputies (psp.cz).
+ * It turns the HTML of a `hlasy.sqw?g=` page into a voting session with per-MP votes.
+ * Parsing is pure: no network or database access happens here.
+ */
+
+import { VoteType, SessionOutcome, MajorityType, ResultSummary, Chamber } from '../src/db/schema';
+import { mapVoteCode, VoteCodeSource } from './vote-codes';
+import { parseBillReference, BillReference } from './bill-parser';
+import { ChamberValue } from './chambers';
+
+// Base URL of the psp.cz voting pages
+export const PSP_VOTE_URL = 'https://www.psp.cz/sqw/hlasy.sqw';
+
+// Version recorded as provenance of parsed rows; bump when the same page would parse differently
+export const PSP_PARSER_VERSION = 'psp-page/1';
+
+// Czech month names in the genitive case, as used in session dates
+const CZECH_MONTHS: Record<string, number> = {
+  'ledna': 1,
+  'února': 2,
+  'března': 3,
+  'dubna': 4,
+  'května': 5,
+  'června': 6,
+  'července': 7,
+  'srpna': 8,
+  'září': 9,
+  'října': 10,
+  'listopadu': 11,
+  'prosince': 12,
+};
+
+// Number of seats in the Chamber of Deputies
+const CHAMBER_SEATS = 200;
+
+/**
+ * Parsed vote interface
+ */
+export interface ParsedVote {
+  name: string;
+  party: string;
+  symbol: string;
+  vote: string;
+  pspId: string | null;
+}
+
+/**
+ * Parsed voting page interface
+ */
+export interface ParsedVotingPage {
+  g: number;
+  chamber: ChamberValue;
+  termNumber: number | null;        // Term named by the source (Senate pages and European Parliament files only)
+  title: string;
+  date: string;
+  time: string | null;
+  meetingNumber: number | null;     // null for sources without numbered meetings
+  voteNumber: number | null;
+  meetingDetails: string;
+  presentCount: number | null;
+  quorum: number | null;
+  outcome: string | null;
+  majorityType: string | null;
+  annulled: boolean;
+  agendaItemNumber: number | null;  // Agenda item (bod) the vote was held under
+  bill: BillReference;
+  resultSummary: ResultSummary;
+  sourceUrl: string;
+  votes: ParsedVote[];
+}
+
+/**
+ * Parsed voting session without its members
+ */
+export type ParsedSession = Omit<ParsedVotingPage, 'votes'>;
+
+/**
+ * Build the psp.cz URL of a voting page
+ * @param g Voting ID on psp.cz
+ * @returns Page URL
+ */
+export function buildVotingPageUrl(g: number): string {
+  return `${PSP_VOTE_URL}?g=${g}`;
+}
+
+/**
+ * Decode the HTML entities used on psp.cz pages
+ * @param text Text with HTML entities
+ * @returns Decoded text
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Strip tags and collapse whitespace in an HTML fragment
+ * @param html HTML fragment
+ * @returns Plain text
+ */
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ', ').replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .replace(/\s+,/g, ',')
+    .replace(/,(\s*,)+/g, ',')
+    .trim();
+}
+
+/**
+ * Map a vote symbol from the page to a VoteType value
+ * @param symbol Vote symbol (A, N, Z, X, 0, M)
+ * @returns VoteType value or null if the symbol is unknown
+ */
+export function mapVoteSymbol(symbol: string): string | null {
+  return mapVoteCode(VoteCodeSource.PSP_PAGE, symbol);
+}
+
+/**
+ * Infer the required majority from the number of members present and the votes required
+ * @param present Members present
+ * @param required Yes votes required to pass
+ * @param seats Seats in the chamber
+ * @returns MajorityType value, or null if the numbers match no known majority
+ */
+export function inferMajorityType(present: number | null, required: number | null, seats: number = CHAMBER_SEATS): string | null {
+  if (!required) {
+    return null;
+  }
+  if (required === Math.ceil(seats * 3 / 5)) {
+    return MajorityType.CONSTITUTIONAL;
+  }
+  if (required === Math.floor(seats / 2) + 1) {
+    return MajorityType.ABSOLUTE;
+  }
+  if (present && required === Math.floor(present / 2) + 1) {
+    return MajorityType.SIMPLE;
+  }
+  if (present && required === Math.ceil(present * 3 / 5)) {
+    return MajorityType.CONSTITUTIONAL;
+  }
+  return null;
+}
+
+/**
+ * Count votes by type
+ * Excused members count as absent and undistinguished abstentions as abstaining,
+ * matching the totals printed on the page.
+ * @param votes Parsed votes
+ * @returns Result summary without the page-level present and required counts
+ */
+export function summarizeVotes(votes: Array<{ vote: string }>): ResultSummary {
+  const count = (...types: string[]) => votes.filter(vote => types.includes(vote.vote)).length;
+  return {
+    yes: count(VoteType.YES),
+    no: count(VoteType.NO),
+    abstain: count(VoteType.ABSTAIN, VoteType.ABSTAIN_OR_NOT_VOTING),
+    notVoting: count(VoteType.NOT_VOTING),
+    absent: count(VoteType.ABSENT, VoteType.EXCUSED),
+    present: null,
+    required: null,
+  };
+}
+
+/**
+ * Read a count printed after a label, such as "Přítomno 180" or "je třeba: 91"
+ */
+function readCount(text: string, label: RegExp): number | null {
+  const match = text.match(new RegExp(`${label.source}:?\\s*(\\d+)`, label.flags));
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Parse a Czech date such as "4. března 2025" into ISO format
+ * @param day Day of month
+ * @param month Month name in the genitive case
+ * @param year Four-digit year
+ * @returns ISO date (YYYY-MM-DD) or null if the month is unknown
+ */
+function toIsoDate(day: string, month: string, year: string): string | null {
+  const monthNumber = CZECH_MONTHS[month.toLowerCase()];
+  if (!monthNumber) {
+    return null;
+  }
+  return `${year}-${String(monthNumber).padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Parse a psp.cz voting page
+ * @param html Page HTML
+ * @param g Voting ID on psp.cz
+ * @returns Parsed page, or null if the page holds no voting
+ */
+export function parseVotingPage(html: string, g: number): ParsedVotingPage | null {
+  // The page heading carries meeting, vote number, date and time
+  const headingMatch = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  if (!headingMatch) {
+    return null;
+  }
+  
+  const meetingDetails = stripTags(headingMatch[1]).replace(/^Hlasování Poslanecké sněmovny,?\s*/i, '');
+  const detailsMatch = meetingDetails.match(
+    /(\d+)\.\s*schůze,\s*(\d+)\.\s*hlasování,\s*(\d{1,2})\.\s*([^\s\d,]+)\s+(\d{4})(?:,\s*(\d{1,2}:\d{2}(?::\d{2})?))?/
+  );
+  if (!detailsMatch) {
+    return null;
+  }
+  
+  const date = toIsoDate(detailsMatch[3], detailsMatch[4], detailsMatch[5]);
+  if (!date) {
+    return null;
+  }
+  
+  let time = detailsMatch[6] || null;
+  if (time && time.length === 5) {
+    time = `${time}:00`;
+  }
+  
+  // The result block sits between the heading and the first list of members
+  const headingEnd = (headingMatch.index ?? 0) + headingMatch[0].length;
+  const listStart = html.indexOf('<ul', headingEnd);
+  const resultHtml = html.slice(headingEnd, listStart === -1 ? html.length : listStart);
+  const resultText = stripTags(resultHtml);
+  
+  const outcomeMatch = resultText.match(/Návrh\s+byl:?\s*(přijat|zamítnut)/i);
+  const outcome = outcomeMatch
+    ? (outcomeMatch[1].toLowerCase() === 'přijat' ? SessionOutcome.PASSED : SessionOutcome.REJECTED)
+    : null;
+  const presentCount = readCount(resultText, /Přítomno/i);
+  const quorum = readCount(resultText, /je\s+třeba/i);
+  
+  // Void votes carry a note in the result block; section titles are left out so a
+  // vote about an objection ("Námitka proti zmatečnému hlasování") is not mistaken for one
+  const noteText = stripTags(resultHtml.replace(/<h2[\s\S]*?<\/h2>/gi, ' '));
+  const annulled = /zmatečn/i.test(noteText);
+  
+  // Linked prints (historie.sqw?...&t=123 or ct=123) are more reliable than the print named in the title
+  const agendaMatch = resultText.match(/\bbod\s*(?:č\.\s*)?(\d+)/i);
+  const agendaItemNumber = agendaMatch ? parseInt(agendaMatch[1], 10) : null;
+  const printLinkMatch = decodeEntities(resultHtml).match(/historie\.sqw\?[^"']*?\b[cC]?[tT]=(\d+)/);
+  
+  // Section headings are either the voting title or a club with its member count
+  let title = '';
+  const votes: ParsedVote[] = [];
+  const headingPattern = /<h2[^>]*class="[^"]*section-title[^"]*"[^>]*>([\s\S]*?)<\/h2>/gi;
+  const headings = Array.from(html.matchAll(headingPattern));
+  
+  headings.forEach((heading, index) => {
+    const text = stripTags(heading[1]);
+    const clubMatch = text.match(/^(.+?)\s*\((\d+)\)$/);
+    
+    if (!clubMatch) {
+      if (!title) {
+        title = text;
+      }
+      return;
+    }
+    
+    const party = clubMatch[1].trim();
+    const blockStart = (heading.index ?? 0) + heading[0].length;
+    const blockEnd = index + 1 < headings.length ? headings[index + 1].index ?? html.length : html.length;
+    const block = html.slice(blockStart, blockEnd);
+    
+    const memberPattern = /<li[^>]*>\s*<span[^>]*class="[^"]*flag[^"]*"[^>]*>([\s\S]*?)<\/span>\s*<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
+    for (const member of Array.from(block.matchAll(memberPattern))) {
+      const symbol = stripTags(member[1]);
+      const vote = mapVoteSymbol(symbol);
+      if (!vote) {
+        continue;
+      }
+      
+      const idMatch = decodeEntities(member[2]).match(/[?&]id=(\d+)/);
+      votes.push({
+        name: stripTags(member[3]),
+        party,
+        symbol,
+        vote,
+        pspId: idMatch ? idMatch[1] : null,
+      });
+    }
+  });
+  
+  if (!title || votes.length === 0) {
+    return null;
+  }
+  
+  // Page totals win over counts from the member lists, which may be incomplete
+  const resultSummary = summarizeVotes(votes);
+  resultSummary.yes = readCount(resultText, /\bAno/) ?? resultSummary.yes;
+  resultSummary.no = readCount(resultText, /\bNe/) ?? resultSummary.no;
+  resultSummary.abstain = readCount(resultText, /Zdržel(?:o)?\s+se/) ?? resultSummary.abstain;
+  resultSummary.notVoting = readCount(resultText, /Nehlasoval(?:o)?/) ?? resultSummary.notVoting;
+  resultSummary.present = presentCount;
+  resultSummary.required = quorum;
+  
+  const bill = parseBillReference(title, noteText);
+  if (printLinkMatch) {
+    bill.printNumber = parseInt(printLinkMatch[1], 10);
+  }
+  
+  return {
+    g,
+    chamber: Chamber.DEPUTIES,
+    termNumber: null,
+    title,
+    date,
+    time,
+    meetingNumber: parseInt(detailsMatch[1], 10),
+    voteNumber: parseInt(detailsMatch[2], 10),
+    meetingDetails,
+    presentCount,
+    quorum,
+    outcome,
+    majorityType: inferMajorityType(presentCount, quorum),
+    annulled,
+    agendaItemNumber,
+    bill,
+    resultSummary,
+    sourceUrl: buildVotingPageUrl(g),
+    votes,
+  };
+}
+
+/**
+ * Check that a parsed voting page accounts for the structure of its HTML
+ * Counts are taken from the raw markup independently of the parser, so a change in the
+ * markup that makes the parser miss members or sections shows up as a mismatch.
+ * @param html Page HTML
+ * @param page What parseVotingPage made of it
+ * @returns Failed assertions; empty when the page looks sound
+ */
+export function checkVotingPageStructure(html: string, page: ParsedVotingPage | null): string[] {
+  const memberLinks = (html.match(/detail\.sqw\?id=\d+/g) || []).length;
+  
+  // Pages without members are empty pages, such as IDs no vote was held under
+  if (!page) {
+    return memberLinks > 0 ? [`page links ${memberLinks} members but did not parse`] : [];
+  }
+  
+  const failures: string[] = [];
+  if (page.votes.length !== memberLinks) {
+    failures.push(`parsed ${page.votes.length} member votes, page links ${memberLinks} members`);
+  }
+  
+  const clubTotal = Array.from(html.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi))
+    .map(heading => stripTags(heading[1]).match(/\((\d+)\)$/))
+    .reduce((total, count) => total + (count ? parseInt(count[1], 10) : 0), 0);
+  if (clubTotal !== page.votes.length) {
+    failures.push(`club headings list ${clubTotal} members, parsed ${page.votes.length}`);
+  }
+  
+  const year = parseInt(page.date.slice(0, 4), 10);
+  if (year < 1993 || year > new Date().getFullYear() + 1) {
+    failures.push(`date ${page.date} out of range`);
+  }
+  
+  if (!page.meetingNumber || !page.voteNumber) {
+    failures.push('meeting or vote number missing');
+  }
+  
+  if (/Přítomno/i.test(html) && page.presentCount === null) {
+    failures.push('present count not read');
+  }
+  
+  if (/Návrh\s+byl/i.test(html) && page.outcome === null) {
+    failures.push('outcome not read');
+  }
+  
+  return failures;
+}
@@ -0,0 +1,155 @@
+/**
+ * Rate Limits Module
+ *
+ * This module keeps the rate-limit windows of external APIs in the database, so every process
+ * calling an API shares one view of its quota and a restart does not forget a window that is used up.
+ * Requests reserve a slot of the window before they are sent; the API's own headers correct the count.
+ */
+
+import { db } from '../src/db/config';
+import { apiRateLimits } from '../src/db/schema';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+
+/**
+ * Rate-limit window interface
+ */
+export interface RateLimitWindow {
+  limit: number | null;   // Requests allowed per window, if the API said
+  remaining: number;
+  resetAt: Date;
+}
+
+/**
+ * Endpoint rate limit interface
+ * Shape in which windows are returned by the API
+ */
+export interface EndpointRateLimit {
+  endpoint: string;
+  limit: number | null;
+  remaining: number;
+  reset_at: string;
+  exhausted: boolean;     // No requests are left until reset_at
+  updated_at: string;
+}
+
+/**
+ * Get the endpoint template a request counts against
+ * Numeric IDs following a resource name and usernames in the path are replaced, since limits apply per
+ * endpoint, not per user; the API version is kept.
+ * @example rateLimitEndpoint('GET', 'https://api.twitter.com/2/users/42/tweets?max_results=100') // 'GET /2/users/:id/tweets'
+ */
+export function rateLimitEndpoint(method: string, url: string): string {
+  const path = new URL(url).pathname
+    .replace(/\/by\/username\/[^/]+/, '/by/username/:username')
+    .replace(/(\/[a-z_]+)\/\d+(?=\/|$)/gi, '$1/:id');
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Reserve a request in an endpoint's current window
+ * Windows that ended or were never reported let the request through.
+ * Errors are logged rather than thrown, so an unreachable database does not stop requests.
+ * @returns Null to send the request now, or when the window ends if it is used up
+ */
+export async function reserveRequest(service: string, endpoint: string): Promise<Date | null> {
+  try {
+    const reserved = await db
+      .update(apiRateLimits)
+      .set({ remaining: sql`${apiRateLimits.remaining} - 1` })
+      .where(and(
+        eq(apiRateLimits.service, service),
+        eq(apiRateLimits.endpoint, endpoint),
+        gt(apiRateLimits.remaining, 0),
+        gt(apiRateLimits.resetAt, sql`now()`)
+      ))
+      .returning({ id: apiRateLimits.id });
+    if (reserved.length > 0) {
+      return null;
+    }
+    
+    const window = await db
+      .select({ resetAt: apiRateLimits.resetAt })
+      .from(apiRateLimits)
+      .where(and(
+        eq(apiRateLimits.service, service),
+        eq(apiRateLimits.endpoint, endpoint),
+        gt(apiRateLimits.resetAt, sql`now()`)
+      ))
+      .limit(1);
+    
+    return window.length > 0 ? window[0].resetAt : null;
+  } catch (error) {
+    console.error('Error reserving rate-limited request:', error);
+    return null;
+  }
+}
+
+/**
+ * Record the window an API reported for an endpoint
+ * Errors are logged rather than thrown, like reserveRequest.
+ */
+export async function recordRateLimit(service: string, endpoint: string, window: RateLimitWindow): Promise<void> {
+  try {
+    const values = {
+      requestLimit: window.limit,
+      remaining: Math.max(0, window.remaining),
+      resetAt: window.resetAt,
+      updatedAt: sql`now()`,
+    };
+    
+    await db
+      .insert(apiRateLimits)
+      .values({ service, endpoint, ...values })
+      .onConflictDoUpdate({ target: [apiRateLimits.service, apiRateLimits.endpoint], set: values });
+  } catch (error) {
+    console.error('Error recording rate limit:', error);
+  }
+}
+
+/**
+ * Read a rate-limit window from response headers
+ * @returns The window, or null if the response carries no rate-limit headers
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitWindow | null {
+  const remaining = headers.get('x-rate-limit-remaining');
+  const reset = headers.get('x-rate-limit-reset');
+  if (!remaining || !reset || isNaN(parseInt(remaining, 10)) || isNaN(parseInt(reset, 10))) {
+    return null;
+  }
+  
+  const limit = parseInt(headers.get('x-rate-limit-limit') || '', 10);
+  return {
+    limit: isNaN(limit) ? null : limit,
+    remaining: parseInt(remaining, 10),
+    resetAt: new Date(parseInt(reset, 10) * 1000), // Seconds since the epoch
+  };
+}
+
+/**
+ * Fetch the rate-limit windows of a service, the closest to running out first
+ * @param service API whose windows are listed (e.g., 'twitter')
+ */
+export async function fetchRateLimits(service: string): Promise<EndpointRateLimit[]> {
+  try {
+    const result = await db
+      .select()
+      .from(apiRateLimits)
+      .where(eq(apiRateLimits.service, service))
+      .orderBy(asc(apiRateLimits.endpoint));
+    
+    const now = Date.now();
+    const limits = result.map(row => ({
+      endpoint: row.endpoint,
+      limit: row.requestLimit,
+      // A window that has ended is reported as full again
+      remaining: row.resetAt.getTime() > now ? row.remaining : row.requestLimit ?? row.remaining,
+      reset_at: row.resetAt.toISOString(),
+      exhausted: row.remaining <= 0 && row.resetAt.getTime() > now,
+      updated_at: row.updatedAt.toISOString(),
+    }));
+    return limits.sort((a, b) => a.remaining - b.remaining);
+  } catch (error) {
+    console.error('Error fetching rate limits:', error);
+    throw new Error(`Failed to fetch ${service} rate limits`);
+  }
+}
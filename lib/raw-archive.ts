@@ -0,0 +1,169 @@
+/**
+ * Raw Archive Module
+ *
+ * This module keeps every payload fetched from a source in a content-addressed archive,
+ * so pages can be parsed again after a markup change or a parser fix without downloading them.
+ * Payloads are stored gzipped once per SHA-256 hash under RAW_ARCHIVE_DIR (data/archive by default),
+ * and every fetch is recorded in raw_archive_entries with its source URL and fetch time.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import { db, DbExecutor } from '../src/db/config';
+import { rawArchiveEntries } from '../src/db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+
+// Directory holding the archived payloads
+export const RAW_ARCHIVE_DIR = process.env.RAW_ARCHIVE_DIR || path.join(process.cwd(), 'data', 'archive');
+
+/**
+ * Payload to archive
+ */
+export interface RawPayload {
+  source: string;            // Source the payload came from (e.g., 'psp', 'twitter')
+  sourceUrl: string;         // URL the payload was fetched from
+  payload: string;           // Payload as decoded text
+  contentType?: string | null;
+  externalId?: string | null; // Source ID the payload describes
+  fetchedAt?: Date;          // Defaults to now
+}
+
+/**
+ * Archive entry interface
+ */
+export interface ArchiveEntry {
+  id: number;
+  source: string;
+  sourceUrl: string;
+  fetchedAt: Date;
+  externalId: string | null;
+  hash: string;
+  contentType: string | null;
+  byteSize: number;
+}
+
+/**
+ * Hash a payload as stored in the archive
+ * @returns Hex SHA-256 of the UTF-8 payload
+ */
+export function hashPayload(payload: string): string {
+  return createHash('sha256').update(payload, 'utf8').digest('hex');
+}
+
+/**
+ * Path of an archived payload, fanned out by the first two hex digits of its hash
+ */
+function payloadPath(hash: string): string {
+  return path.join(RAW_ARCHIVE_DIR, hash.slice(0, 2), `${hash}.gz`);
+}
+
+/**
+ * Store a payload in the archive without recording a fetch
+ * A payload already in the archive is not written again.
+ * @returns Hash the payload is archived under
+ */
+export async function storePayload(payload: string): Promise<string> {
+  const hash = hashPayload(payload);
+  const file = payloadPath(hash);
+  
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, gzipSync(Buffer.from(payload, 'utf8')), { flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      console.error('Error archiving payload:', error);
+      throw new Error(`Failed to archive payload ${hash}`);
+    }
+  }
+  
+  return hash;
+}
+
+/**
+ * Store a fetched payload and record the fetch
+ * A payload already in the archive is not written again; only the fetch is recorded.
+ * @param entry Payload with the URL and time it was fetched
+ * @param executor Database or open transaction to use
+ * @returns Hash the payload is archived under
+ */
+export async function archivePayload(entry: RawPayload, executor: DbExecutor = db): Promise<string> {
+  const hash = await storePayload(entry.payload);
+  
+  await executor
+    .insert(rawArchiveEntries)
+    .values({
+      source: entry.source,
+      sourceUrl: entry.sourceUrl,
+      fetchedAt: entry.fetchedAt || new Date(),
+      externalId: entry.externalId ?? null,
+      hash,
+      contentType: entry.contentType ?? null,
+      byteSize: Buffer.byteLength(entry.payload, 'utf8'),
+    })
+    .onConflictDoNothing();
+  
+  return hash;
+}
+
+/**
+ * Read an archived payload
+ * @param hash Hash the payload is archived under
+ * @returns Payload text, or null if the archive does not hold it
+ */
+export async function readArchivedPayload(hash: string): Promise<string | null> {
+  try {
+    return gunzipSync(await fs.readFile(payloadPath(hash))).toString('utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the archived fetches of a URL, newest first
+ */
+export async function fetchArchiveEntries(sourceUrl: string): Promise<ArchiveEntry[]> {
+  try {
+    return await db
+      .select()
+      .from(rawArchiveEntries)
+      .where(eq(rawArchiveEntries.sourceUrl, sourceUrl))
+      .orderBy(desc(rawArchiveEntries.fetchedAt));
+  } catch (error) {
+    console.error('Error fetching archive entries:', error);
+    throw new Error('Failed to fetch archive entries');
+  }
+}
+
+/**
+ * Fetch the latest archived fetch of every numeric source ID in a range
+ * @param source Source name (e.g., 'psp')
+ * @param from First source ID
+ * @param to Last source ID
+ * @returns Entries ordered by source ID
+ */
+export async function fetchLatestArchiveEntries(source: string, from: number, to: number): Promise<ArchiveEntry[]> {
+  try {
+    const low = Math.min(from, to);
+    const high = Math.max(from, to);
+    
+    // The cast is guarded inside CASE, since PostgreSQL may evaluate conditions in any order
+    const entries = await db
+      .selectDistinctOn([rawArchiveEntries.externalId])
+      .from(rawArchiveEntries)
+      .where(and(
+        eq(rawArchiveEntries.source, source),
+        sql`CASE WHEN ${rawArchiveEntries.externalId} ~ '^[0-9]{1,15}$' THEN ${rawArchiveEntries.externalId}::bigint END BETWEEN ${low} AND ${high}`
+      ))
+      .orderBy(rawArchiveEntries.externalId, desc(rawArchiveEntries.fetchedAt));
+    
+    return entries.sort((a, b) => Number(a.externalId) - Number(b.externalId));
+  } catch (error) {
+    console.error('Error fetching archive entries:', error);
+    throw new Error('Failed to fetch archive entries');
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * Session Revalidation Module
+ *
+ * This module reads sessions saved some time ago from their source again and compares them
+ * field by field and vote by vote with what is stored, since official records are corrected
+ * after the fact (vote corrections, renamed agenda items). Every difference is written to
+ * session_changes and either staged for review or applied at once. Changes to a member's
+ * recorded vote are listed separately in the report and logged to system_logs.
+ */
+
+import { db } from '../src/db/config';
+import { votingSessions, sessionChanges, provenanceRecords, politicians, systemLogs, Chamber, SessionChangeStatus } from '../src/db/schema';
+import { and, desc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { ParsedVotingPage } from './psp-parser';
+import { loadStoredSession, diffSession, applyReparsedSession, FieldChange, VoteChange } from './archive-reparse';
+import { archivePayload, fetchArchiveEntries, readArchivedPayload } from './raw-archive';
+import { recordProvenance, provenanceColumns, ProvenanceInput, RowProvenance } from './provenance';
+import { getVoteSource, VoteSourceAdapter } from './vote-sources';
+import { linkRepeatSessions } from './annulments';
+import { ChamberValue } from './chambers';
+
+// Sessions revalidated per run unless a limit is given
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Revalidation options interface
+ */
+export interface RevalidationOptions {
+  olderThanDays: number;       // Only sessions not saved or revalidated for this many days
+  chamber?: ChamberValue;      // Chamber whose sessions are revalidated (defaults to the Chamber of Deputies)
+  source?: VoteSourceAdapter;  // Source to read with instead of the chamber's default
+  limit?: number;              // Sessions per run, least recently checked first
+  fromArchive?: boolean;       // Re-read the latest archived fetch instead of fetching again
+  apply?: boolean;             // Apply changes at once instead of staging them for review
+}
+
+/**
+ * Member vote change interface
+ * A change to a member's recorded vote, with the session it was found in
+ */
+export interface MemberVoteChange extends VoteChange {
+  sessionId: number;
+  externalId: string;
+  date: string;
+  title: string;
+}
+
+/**
+ * Revalidated session interface
+ */
+export interface RevalidatedSession {
+  sessionId: number;
+  externalId: string;
+  status: 'changed' | 'unavailable' | 'failed';
+  message: string | null;  // Why the session could not be compared
+  fields: FieldChange[];
+  votes: VoteChange[];
+}
+
+/**
+ * Revalidation report interface
+ */
+export interface RevalidationReport {
+  checked: number;
+  unchanged: number;
+  changed: number;
+  unavailable: number;  // The source no longer has the page, or it no longer parses or passes the structure check
+  failed: number;
+  staged: number;       // Changes staged for review
+  applied: number;      // Sessions updated from their source
+  voteChanges: MemberVoteChange[];  // Every change to a member's recorded vote
+  sessions: RevalidatedSession[];   // Every session that is not unchanged
+}
+
+/**
+ * Staged change application results interface
+ */
+export interface StagedChangeResults {
+  sessions: number;
+  changes: number;
+  errors: Array<{ sessionId: number; message: string }>;
+}
+
+/**
+ * Session change interface
+ */
+export interface SessionChange {
+  id: number;
+  session_id: number;
+  external_id: string | null;
+  chamber: string;
+  title: string;
+  date: string;
+  field: string;
+  politician_id: number | null;
+  member_name: string | null;
+  before: unknown;
+  after: unknown;
+  status: string;
+  detected_at: Date;
+  provenance: RowProvenance | null;  // Fetch the change was seen in
+}
+
+/**
+ * Find sessions due for revalidation, least recently checked first
+ */
+async function findDueSessions(chamber: ChamberValue, olderThanDays: number, limit: number) {
+  const lastChecked = sql`coalesce(${votingSessions.revalidatedAt}, ${votingSessions.createdAt})`;
+  
+  const sessions = await db
+    .select({ id: votingSessions.id, externalId: votingSessions.externalId })
+    .from(votingSessions)
+    .where(and(
+      eq(votingSessions.chamber, chamber),
+      isNotNull(votingSessions.externalId),
+      sql`${lastChecked} < now() - make_interval(days => ${olderThanDays}::int)`
+    ))
+    .orderBy(lastChecked)
+    .limit(limit);
+  
+  // Only sessions with a numeric source ID can be read from their source
+  return sessions.filter((session): session is { id: number; externalId: string } => /^\d+$/.test(session.externalId ?? ''));
+}
+
+/**
+ * Read a session's document from its source or from the archive
+ * Fetched documents are archived like scraped ones.
+ * @returns Document with its provenance, or null if neither has it
+ */
+async function readSource(
+  adapter: VoteSourceAdapter,
+  id: number,
+  fromArchive: boolean
+): Promise<{ raw: string; provenance: ProvenanceInput } | null> {
+  const provenance = (sourceUrl: string, fetchedAt: Date, archiveHash: string): ProvenanceInput => ({
+    adapter: adapter.name,
+    sourceUrl,
+    fetchedAt,
+    parserVersion: adapter.parserVersion,
+    archiveHash,
+  });
+  
+  if (fromArchive) {
+    const sourceUrl = adapter.documentUrl(id);
+    const [entry] = await fetchArchiveEntries(sourceUrl);
+    const raw = entry ? await readArchivedPayload(entry.hash) : null;
+    return entry && raw !== null ? { raw, provenance: provenance(sourceUrl, entry.fetchedAt, entry.hash) } : null;
+  }
+  
+  const raw = await adapter.fetchDocument(id);
+  if (!raw) {
+    return null;
+  }
+  
+  const fetchedAt = new Date();
+  const sourceUrl = adapter.documentUrl(id);
+  const archiveHash = await archivePayload({ source: adapter.name, sourceUrl, externalId: String(id), payload: raw, contentType: adapter.contentType, fetchedAt });
+  return { raw, provenance: provenance(sourceUrl, fetchedAt, archiveHash) };
+}
+
+/**
+ * Staged changes of a session that saving its page applies
+ * Members the source no longer lists are left out, since saving a session never deletes votes.
+ */
+function applicableChanges(sessionId: number) {
+  return and(
+    eq(sessionChanges.sessionId, sessionId),
+    eq(sessionChanges.status, SessionChangeStatus.STAGED),
+    isNotNull(sessionChanges.afterValue)
+  );
+}
+
+/**
+ * Mark the staged changes of a session as applied once its page has been saved
+ * @returns Number of changes marked applied
+ */
+async function markChangesApplied(sessionId: number): Promise<number> {
+  const applied = await db
+    .update(sessionChanges)
+    .set({ status: SessionChangeStatus.APPLIED, appliedAt: new Date() })
+    .where(applicableChanges(sessionId))
+    .returning({ id: sessionChanges.id });
+  
+  return applied.length;
+}
+
+/**
+ * Write the differences found in a session to the change log as staged
+ * Staged changes from earlier runs are superseded by what the source says now.
+ * @returns Number of changes staged
+ */
+async function logSessionChanges(
+  sessionId: number,
+  diff: { fields: FieldChange[]; votes: VoteChange[] },
+  provenanceId: number
+): Promise<number> {
+  await db
+    .update(sessionChanges)
+    .set({ status: SessionChangeStatus.SUPERSEDED })
+    .where(and(eq(sessionChanges.sessionId, sessionId), eq(sessionChanges.status, SessionChangeStatus.STAGED)));
+  
+  const rows: Array<typeof sessionChanges.$inferInsert> = [
+    ...diff.fields.map(change => ({
+      sessionId,
+      field: change.field,
+      beforeValue: change.before,
+      afterValue: change.after,
+      provenanceId,
+      status: SessionChangeStatus.STAGED,
+    })),
+    ...diff.votes.map(change => ({
+      sessionId,
+      field: 'vote',
+      politicianId: change.politicianId,
+      memberName: change.name.slice(0, 150),
+      beforeValue: change.before,
+      afterValue: change.after,
+      provenanceId,
+      status: SessionChangeStatus.STAGED,
+    })),
+  ];
+  
+  await db.insert(sessionChanges).values(rows);
+  return rows.length;
+}
+
+/**
+ * Write changes to members' recorded votes to system_logs
+ */
+async function logMemberVoteChanges(changes: MemberVoteChange[]): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+  
+  try {
+    await db.insert(systemLogs).values(changes.map(change => ({
+      type: 'vote_revalidation',
+      status: 'vote_changed',
+      message: `Session ${change.externalId} (${change.date}): recorded vote of ${change.name} changed from ${change.before ?? 'none'} to ${change.after ?? 'none'}`,
+      details: change,
+    })));
+  } catch (error) {
+    console.error('Error logging member vote changes:', error);
+  }
+}
+
+/**
+ * Describe why a session could not be compared with its source
+ */
+function unavailableReason(found: boolean, failures: string[]): string {
+  if (!found) {
+    return 'the source has no page';
+  }
+  return failures.length > 0 ? `the page no longer matches the parser (${failures.join('; ')})` : 'the page no longer parses';
+}
+
+/**
+ * Mark a session as compared with its source
+ */
+async function markRevalidated(sessionId: number): Promise<void> {
+  await db.update(votingSessions).set({ revalidatedAt: new Date() }).where(eq(votingSessions.id, sessionId));
+}
+
+/**
+ * Revalidate sessions that have not been compared with their source for a while
+ * Sessions that fail are left due, so the next run tries them again.
+ * @param options Age, chamber, source and whether to apply the changes found
+ * @returns Counts, every changed member vote and every session that is not unchanged
+ */
+export async function revalidateSessions(options: RevalidationOptions): Promise<RevalidationReport> {
+  const chamber = options.source?.chamber ?? options.chamber ?? Chamber.DEPUTIES;
+  const adapter = options.source || getVoteSource(chamber);
+  const report: RevalidationReport = {
+    checked: 0,
+    unchanged: 0,
+    changed: 0,
+    unavailable: 0,
+    failed: 0,
+    staged: 0,
+    applied: 0,
+    voteChanges: [],
+    sessions: [],
+  };
+  
+  try {
+    const due = await findDueSessions(chamber, options.olderThanDays, options.limit ?? DEFAULT_LIMIT);
+    
+    for (const { id: sessionId, externalId } of due) {
+      const id = parseInt(externalId, 10);
+      const base = { sessionId, externalId, message: null, fields: [], votes: [] };
+      report.checked++;
+      
+      try {
+        const source = await readSource(adapter, id, !!options.fromArchive);
+        const session = source ? adapter.parseSession(source.raw, id) : null;
+        const parsed: ParsedVotingPage | null = source && session ? { ...session, votes: adapter.parseMembers(source.raw, id) } : null;
+        const stored = await loadStoredSession(chamber, externalId);
+        
+        // Like the scraper, never compare or save a page the parser no longer understands
+        const failures = source ? adapter.checkStructure?.(source.raw, parsed) ?? [] : [];
+        
+        if (!source || !parsed || !stored || failures.length > 0) {
+          report.unavailable++;
+          report.sessions.push({ ...base, status: 'unavailable', message: unavailableReason(!!source, failures) });
+          await markRevalidated(sessionId);
+          continue;
+        }
+        
+        const diff = diffSession(stored, parsed);
+        if (diff.fields.length === 0 && diff.votes.length === 0) {
+          report.unchanged++;
+          await markRevalidated(sessionId);
+          continue;
+        }
+        
+        report.changed++;
+        report.sessions.push({ ...base, status: 'changed', ...diff });
+        
+        // Changes are staged first and only marked applied once the page is saved, so a failed save leaves them for review
+        const provenanceId = await recordProvenance(source.provenance);
+        report.staged += await logSessionChanges(sessionId, diff, provenanceId);
+        
+        const voteChanges = diff.votes.map(change => ({ ...change, sessionId, externalId, date: stored.date, title: stored.title }));
+        report.voteChanges.push(...voteChanges);
+        await logMemberVoteChanges(voteChanges);
+        
+        if (options.apply) {
+          await applyReparsedSession(sessionId, parsed, source.provenance);
+          report.applied++;
+          report.staged -= await markChangesApplied(sessionId);
+        }
+        
+        await markRevalidated(sessionId);
+      } catch (error) {
+        report.failed++;
+        report.sessions.push({ ...base, status: 'failed', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    
+    if (report.applied > 0) {
+      await linkRepeatSessions();
+    }
+    
+    return report;
+  } catch (error) {
+    console.error('Error revalidating sessions:', error);
+    throw new Error('Failed to revalidate sessions');
+  }
+}
+
+/**
+ * Apply staged changes by saving the archived page they were found in
+ * The page is parsed again with the current parser, so the whole session is brought up to date.
+ * Members the source no longer lists are not deleted and their changes stay staged.
+ * @param sessionIds Only apply changes of these sessions
+ * @param source Source to parse with for its chamber, e.g. the European Parliament adapter
+ * @returns Number of sessions and changes applied, with the sessions that failed
+ */
+export async function applyStagedChanges(
+  sessionIds: number[] | null = null,
+  source: VoteSourceAdapter | null = null
+): Promise<StagedChangeResults> {
+  const results: StagedChangeResults = { sessions: 0, changes: 0, errors: [] };
+  
+  try {
+    const staged = await db
+      .selectDistinctOn([sessionChanges.sessionId], {
+        sessionId: sessionChanges.sessionId,
+        chamber: votingSessions.chamber,
+        externalId: votingSessions.externalId,
+        adapter: provenanceRecords.adapter,
+        sourceUrl: provenanceRecords.sourceUrl,
+        fetchedAt: provenanceRecords.fetchedAt,
+        archiveHash: provenanceRecords.archiveHash,
+      })
+      .from(sessionChanges)
+      .innerJoin(votingSessions, eq(sessionChanges.sessionId, votingSessions.id))
+      .innerJoin(provenanceRecords, eq(sessionChanges.provenanceId, provenanceRecords.id))
+      .where(and(
+        eq(sessionChanges.status, SessionChangeStatus.STAGED),
+        isNotNull(sessionChanges.afterValue),
+        sessionIds ? inArray(sessionChanges.sessionId, sessionIds) : undefined
+      ))
+      .orderBy(sessionChanges.sessionId, desc(sessionChanges.detectedAt));
+    
+    for (const change of staged) {
+      try {
+        const adapter = source?.chamber === change.chamber ? source : getVoteSource(change.chamber as ChamberValue);
+        const id = parseInt(change.externalId ?? '', 10);
+        const raw = change.archiveHash ? await readArchivedPayload(change.archiveHash) : null;
+        const session = raw !== null ? adapter.parseSession(raw, id) : null;
+        if (raw === null || !session) {
+          throw new Error(raw === null ? 'the archived page is missing' : 'the archived page no longer parses');
+        }
+        
+        await applyReparsedSession(change.sessionId, { ...session, votes: adapter.parseMembers(raw, id) }, {
+          adapter: change.adapter,
+          sourceUrl: change.sourceUrl,
+          fetchedAt: change.fetchedAt,
+          parserVersion: adapter.parserVersion,
+          archiveHash: change.archiveHash,
+        });
+        
+        results.sessions++;
+        results.changes += await markChangesApplied(change.sessionId);
+      } catch (error) {
+        results.errors.push({ sessionId: change.sessionId, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    
+    if (results.sessions > 0) {
+      await linkRepeatSessions();
+    }
+    
+    return results;
+  } catch (error) {
+    console.error('Error applying staged session changes:', error);
+    throw new Error('Failed to apply staged session changes');
+  }
+}
+
+/**
+ * Fetch logged session changes, member vote changes first
+ * @param status Only return changes with this status
+ * @param chamber Only return changes of this chamber's sessions
+ */
+export async function fetchSessionChanges(
+  status: string = SessionChangeStatus.STAGED,
+  chamber: ChamberValue | null = null,
+  limit: number = 100
+): Promise<SessionChange[]> {
+  try {
+    return await db
+      .select({
+        id: sessionChanges.id,
+        session_id: sessionChanges.sessionId,
+        external_id: votingSessions.externalId,
+        chamber: votingSessions.chamber,
+        title: votingSessions.title,
+        date: votingSessions.date,
+        field: sessionChanges.field,
+        politician_id: sessionChanges.politicianId,
+        member_name: sql<string | null>`coalesce(${politicians.name}, ${sessionChanges.memberName})`,
+        before: sessionChanges.beforeValue,
+        after: sessionChanges.afterValue,
+        status: sessionChanges.status,
+        detected_at: sessionChanges.detectedAt,
+        provenance: provenanceColumns(),
+      })
+      .from(sessionChanges)
+      .innerJoin(votingSessions, eq(sessionChanges.sessionId, votingSessions.id))
+      .leftJoin(politicians, eq(sessionChanges.politicianId, politicians.id))
+      .leftJoin(provenanceRecords, eq(sessionChanges.provenanceId, provenanceRecords.id))
+      .where(and(eq(sessionChanges.status, status), chamber ? eq(votingSessions.chamber, chamber) : undefined))
+      .orderBy(sql`${sessionChanges.field} = 'vote' DESC`, desc(sessionChanges.detectedAt))
+      .limit(limit);
+  } catch (error) {
+    console.error('Error fetching session changes:', error);
+    throw new Error('Failed to fetch session changes');
+  }
+}
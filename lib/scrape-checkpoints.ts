@@ -0,0 +1,187 @@
+/**
+ * Scrape Checkpoints Module
+ *
+ * This module records the outcome of every source ID a scraper attempts.
+ * Checkpoints replace the single `lastProcessedG` value kept in data/scraper-state.json,
+ * so failed IDs are never lost and overlapping runs do not overwrite each other's progress.
+ * It also finds gaps (missing or failed IDs) within a configured range.
+ */
+
+import { db } from '../src/db/config';
+import { scrapeCheckpoints, votingSessions, CheckpointStatus, Chamber } from '../src/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { ChamberValue, CHAMBER_SOURCES } from './chambers';
+
+// Source name used for psp.cz voting pages
+export const PSP_SOURCE = CHAMBER_SOURCES[Chamber.DEPUTIES];
+
+/**
+ * Checkpoint status type
+ */
+export type CheckpointStatusValue = typeof CheckpointStatus[keyof typeof CheckpointStatus];
+
+/**
+ * Checkpoint interface
+ */
+export interface Checkpoint {
+  externalId: number;
+  status: CheckpointStatusValue;
+  reason: string | null;
+  attempts: number;
+  lastAttemptAt: string | null;
+}
+
+/**
+ * Gap interface
+ * A gap is an ID in range that was never attempted or whose last attempt failed.
+ * IDs without a checkpoint whose session is already stored (e.g. from the open data import) are not gaps.
+ */
+export interface Gap {
+  externalId: number;
+  status: CheckpointStatusValue | 'missing';
+  reason: string | null;
+  attempts: number;
+}
+
+/**
+ * Gap search options interface
+ */
+export interface GapOptions {
+  source?: string;
+  chamber?: ChamberValue;  // Chamber whose stored sessions close gaps; also picks the default source
+  includeNotFound?: boolean;
+}
+
+/**
+ * Record the outcome of a scrape attempt
+ * A 'done' checkpoint is never downgraded to 'skipped', so a later run that skips
+ * an existing session keeps the original success on record.
+ * @param externalId Source ID that was attempted
+ * @param status Outcome of the attempt
+ * @param reason Failure or skip reason
+ * @param source Source being scraped
+ */
+export async function recordCheckpoint(
+  externalId: number,
+  status: CheckpointStatusValue,
+  reason: string | null = null,
+  source: string = PSP_SOURCE
+): Promise<void> {
+  try {
+    const now = new Date();
+    await db
+      .insert(scrapeCheckpoints)
+      .values({ source, externalId, status, reason, lastAttemptAt: now })
+      .onConflictDoUpdate({
+        target: [scrapeCheckpoints.source, scrapeCheckpoints.externalId],
+        set: {
+          status: sql`excluded.status`,
+          reason: sql`excluded.reason`,
+          attempts: sql`${scrapeCheckpoints.attempts} + 1`,
+          lastAttemptAt: now,
+          updatedAt: now,
+        },
+        setWhere: sql`${scrapeCheckpoints.status} <> ${CheckpointStatus.DONE} OR excluded.status <> ${CheckpointStatus.SKIPPED}`,
+      });
+  } catch (error) {
+    // A missing checkpoint only means the ID shows up as a gap later
+    console.error(`Error recording checkpoint for ${source} ${externalId}:`, error);
+  }
+}
+
+/**
+ * Get the checkpoint of a single source ID
+ */
+export async function getCheckpoint(externalId: number, source: string = PSP_SOURCE): Promise<Checkpoint | null> {
+  try {
+    const result = await db
+      .select({
+        externalId: scrapeCheckpoints.externalId,
+        status: scrapeCheckpoints.status,
+        reason: scrapeCheckpoints.reason,
+        attempts: scrapeCheckpoints.attempts,
+        lastAttemptAt: scrapeCheckpoints.lastAttemptAt,
+      })
+      .from(scrapeCheckpoints)
+      .where(and(eq(scrapeCheckpoints.source, source), eq(scrapeCheckpoints.externalId, externalId)))
+      .limit(1);
+    
+    if (result.length === 0) {
+      return null;
+    }
+    
+    return {
+      ...result[0],
+      status: result[0].status as CheckpointStatusValue,
+      lastAttemptAt: result[0].lastAttemptAt ? result[0].lastAttemptAt.toISOString() : null,
+    };
+  } catch (error) {
+    console.error('Error fetching checkpoint:', error);
+    throw new Error('Failed to fetch checkpoint');
+  }
+}
+
+/**
+ * Count checkpoints by status within a range
+ */
+export async function getCheckpointSummary(
+  from: number,
+  to: number,
+  source: string = PSP_SOURCE
+): Promise<Record<string, number>> {
+  try {
+    const rows = await db
+      .select({ status: scrapeCheckpoints.status, count: sql<string>`count(*)` })
+      .from(scrapeCheckpoints)
+      .where(sql`${scrapeCheckpoints.source} = ${source} AND ${scrapeCheckpoints.externalId} BETWEEN ${Math.min(from, to)} AND ${Math.max(from, to)}`)
+      .groupBy(scrapeCheckpoints.status);
+    
+    return Object.fromEntries(rows.map(row => [row.status, parseInt(row.count, 10)]));
+  } catch (error) {
+    console.error('Error fetching checkpoint summary:', error);
+    throw new Error('Failed to fetch checkpoint summary');
+  }
+}
+
+/**
+ * Find gaps within a range of source IDs
+ * @param from First ID of the range
+ * @param to Last ID of the range
+ * @param options Source and whether to treat not-found IDs as gaps
+ * @returns IDs that were never attempted or failed on their last attempt, in ascending order
+ */
+export async function findGaps(from: number, to: number, options: GapOptions = {}): Promise<Gap[]> {
+  const chamber = options.chamber || Chamber.DEPUTIES;
+  const source = options.source || CHAMBER_SOURCES[chamber];
+  const gapStatuses: string[] = [CheckpointStatus.FAILED];
+  if (options.includeNotFound) {
+    gapStatuses.push(CheckpointStatus.NOT_FOUND);
+  }
+  
+  try {
+    const result = await db.execute(sql`
+      SELECT ids.id AS external_id,
+             COALESCE(c.status, 'missing') AS status,
+             c.reason,
+             COALESCE(c.attempts, 0) AS attempts
+      FROM generate_series(${Math.min(from, to)}::integer, ${Math.max(from, to)}::integer) AS ids(id)
+      LEFT JOIN ${scrapeCheckpoints} c
+        ON c.source = ${source} AND c.external_id = ids.id
+      WHERE (c.id IS NULL AND NOT EXISTS (
+               SELECT 1 FROM ${votingSessions} vs WHERE vs.chamber = ${chamber} AND vs.external_id = ids.id::text
+             ))
+         OR c.status IN (${sql.join(gapStatuses.map(status => sql`${status}`), sql`, `)})
+      ORDER BY ids.id
+    `);
+    
+    return result.rows.map(row => ({
+      externalId: Number(row.external_id),
+      status: row.status as Gap['status'],
+      reason: (row.reason as string | null) ?? null,
+      attempts: Number(row.attempts),
+    }));
+  } catch (error) {
+    console.error('Error finding gaps:', error);
+    throw new Error('Failed to find gaps');
+  }
+}
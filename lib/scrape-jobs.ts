@@ -0,0 +1,264 @@
+/**
+ * Scrape Jobs Module
+ *
+ * This module runs scrapes as jobs. Every job gets an ID and a row in scrape_jobs holding its progress
+ * and latest logs and errors, saved as it runs, so a job can be watched and stopped from another process.
+ * Stopping a job aborts its signal; the scraper decides how to wind down cleanly.
+ */
+
+import { db } from '../src/db/config';
+import { scrapeJobs, ScrapeJobStatus, ScrapeJobMessage } from '../src/db/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+
+// Only the latest messages are kept on the job
+const MAX_MESSAGES = 100;
+
+// Progress is saved this often, which also picks up stops requested from other processes
+const SAVE_INTERVAL_MS = 2000;
+
+// Jobs not saved for this long are taken to have died with their process
+const STALE_AFTER_MS = 60 * 1000;
+
+/**
+ * Job progress interface
+ * What a scraper reports while running
+ */
+export interface JobProgress {
+  setTotal(total: number): void;
+  advance(count?: number): void;
+  log(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Job context interface
+ * Handed to the function a job runs
+ */
+export interface JobContext extends JobProgress {
+  id: number;
+  signal: AbortSignal; // Aborted when the job is asked to stop
+}
+
+/**
+ * Started job interface
+ */
+export interface StartedJob<T> {
+  id: number;
+  done: Promise<T>; // Settles once the job has finished and its final state is saved
+}
+
+/**
+ * Scrape job interface
+ * Also has every field of the scrapers' status, so it can be shown by the status panel as is.
+ */
+export interface ScrapeJob {
+  jobId: number;
+  service: string;
+  status: string;
+  isRunning: boolean;
+  progress: number;               // Percentage of items processed
+  totalItems: number;
+  processedItems: number;
+  startTime: string | null;
+  finishedAt: string | null;
+  stopRequested: boolean;
+  errors: ScrapeJobMessage[];
+  logs: ScrapeJobMessage[];
+  config: unknown;
+  results: unknown;
+}
+
+// Abort controllers of the jobs running in this process
+const runningJobs = new Map<number, AbortController>();
+
+/**
+ * Append a message, keeping only the latest ones
+ */
+function pushMessage(messages: ScrapeJobMessage[], message: string): void {
+  messages.push({ time: new Date().toISOString(), message });
+  if (messages.length > MAX_MESSAGES) {
+    messages.splice(0, messages.length - MAX_MESSAGES);
+  }
+}
+
+/**
+ * Convert a job row to the shape returned by the API
+ */
+function toScrapeJob(row: typeof scrapeJobs.$inferSelect): ScrapeJob {
+  const active = row.status === ScrapeJobStatus.RUNNING || row.status === ScrapeJobStatus.STOPPING;
+  
+  return {
+    jobId: row.id,
+    service: row.service,
+    status: row.status,
+    isRunning: active && Date.now() - row.updatedAt.getTime() < STALE_AFTER_MS,
+    progress: row.totalItems > 0 ? Math.round((row.processedItems / row.totalItems) * 100) : 0,
+    totalItems: row.totalItems,
+    processedItems: row.processedItems,
+    startTime: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt ? row.finishedAt.toISOString() : null,
+    stopRequested: row.stopRequestedAt !== null,
+    errors: row.errors,
+    logs: row.logs,
+    config: row.config,
+    results: row.results,
+  };
+}
+
+/**
+ * Start a scrape job
+ * The job runs in the background; its progress is saved every few seconds and once it finishes.
+ * A job whose function returns after a stop was requested is recorded as stopped, one that throws as failed.
+ * @param service Scraper running the job (e.g., 'vote')
+ * @param config Configuration to record on the job
+ * @param run Function doing the work, given the job's signal and progress reporting
+ * @returns Job ID and a promise of the function's result
+ */
+export async function startScrapeJob<T>(
+  service: string,
+  config: unknown,
+  run: (job: JobContext) => Promise<T>
+): Promise<StartedJob<T>> {
+  let id: number;
+  try {
+    const result = await db
+      .insert(scrapeJobs)
+      .values({ service, status: ScrapeJobStatus.RUNNING, config })
+      .returning({ id: scrapeJobs.id });
+    id = result[0].id;
+  } catch (error) {
+    console.error('Error creating scrape job:', error);
+    throw new Error(`Failed to create ${service} scrape job`);
+  }
+  
+  const controller = new AbortController();
+  runningJobs.set(id, controller);
+  
+  const state = { totalItems: 0, processedItems: 0, errors: [] as ScrapeJobMessage[], logs: [] as ScrapeJobMessage[] };
+  let saving: Promise<void> = Promise.resolve();
+  
+  // Saves are chained so they never overtake each other
+  const save = (final: { status: string; results: unknown } | null = null): Promise<void> => {
+    saving = saving.then(async () => {
+      try {
+        const result = await db
+          .update(scrapeJobs)
+          .set({
+            ...state,
+            updatedAt: sql`now()`,
+            ...(final ? { status: final.status, results: final.results, finishedAt: sql`now()` } : {}),
+          })
+          .where(eq(scrapeJobs.id, id))
+          .returning({ stopRequestedAt: scrapeJobs.stopRequestedAt });
+        
+        // Stops requested through another process only show up in the row
+        if (result.length > 0 && result[0].stopRequestedAt && !controller.signal.aborted) {
+          controller.abort(new Error(`Scrape job #${id} was stopped`));
+        }
+      } catch (error) {
+        console.error(`Error saving progress of scrape job #${id}:`, error);
+      }
+    });
+    return saving;
+  };
+  
+  const timer = setInterval(() => save(), SAVE_INTERVAL_MS);
+  timer.unref?.();
+  
+  const context: JobContext = {
+    id,
+    signal: controller.signal,
+    setTotal: total => {
+      state.totalItems = total;
+    },
+    advance: (count = 1) => {
+      state.processedItems += count;
+    },
+    log: message => pushMessage(state.logs, message),
+    error: message => pushMessage(state.errors, message),
+  };
+  
+  const done = (async () => {
+    try {
+      const result = await run(context);
+      await save({ status: controller.signal.aborted ? ScrapeJobStatus.STOPPED : ScrapeJobStatus.COMPLETED, results: result });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      pushMessage(state.errors, message);
+      await save({ status: controller.signal.aborted ? ScrapeJobStatus.STOPPED : ScrapeJobStatus.FAILED, results: null });
+      throw error;
+    } finally {
+      clearInterval(timer);
+      runningJobs.delete(id);
+    }
+  })();
+  
+  return { id, done };
+}
+
+/**
+ * Ask a scrape job to stop
+ * Jobs of this process are aborted at once; jobs of other processes notice when they next save progress.
+ * @returns Whether the job was running
+ */
+export async function stopScrapeJob(id: number): Promise<boolean> {
+  try {
+    const result = await db
+      .update(scrapeJobs)
+      .set({ status: ScrapeJobStatus.STOPPING, stopRequestedAt: sql`coalesce(${scrapeJobs.stopRequestedAt}, now())` })
+      .where(and(eq(scrapeJobs.id, id), inArray(scrapeJobs.status, [ScrapeJobStatus.RUNNING, ScrapeJobStatus.STOPPING])))
+      .returning({ id: scrapeJobs.id });
+    
+    runningJobs.get(id)?.abort(new Error(`Scrape job #${id} was stopped`));
+    return result.length > 0;
+  } catch (error) {
+    console.error('Error stopping scrape job:', error);
+    throw new Error(`Failed to stop scrape job #${id}`);
+  }
+}
+
+/**
+ * Get a scrape job
+ * @returns The job, or null if there is no job with this ID
+ */
+export async function getScrapeJob(id: number): Promise<ScrapeJob | null> {
+  try {
+    const result = await db
+      .select()
+      .from(scrapeJobs)
+      .where(eq(scrapeJobs.id, id))
+      .limit(1);
+    
+    return result.length > 0 ? toScrapeJob(result[0]) : null;
+  } catch (error) {
+    console.error('Error fetching scrape job:', error);
+    throw new Error('Failed to fetch scrape job');
+  }
+}
+
+/**
+ * Fetch the latest scrape jobs of a scraper, newest first
+ * @param service Scraper whose jobs are listed (e.g., 'vote')
+ * @param activeOnly Only list jobs that are running or stopping
+ */
+export async function fetchScrapeJobs(service: string, limit: number = 20, activeOnly: boolean = false): Promise<ScrapeJob[]> {
+  try {
+    const conditions = [eq(scrapeJobs.service, service)];
+    if (activeOnly) {
+      conditions.push(inArray(scrapeJobs.status, [ScrapeJobStatus.RUNNING, ScrapeJobStatus.STOPPING]));
+    }
+    
+    const result = await db
+      .select()
+      .from(scrapeJobs)
+      .where(and(...conditions))
+      .orderBy(desc(scrapeJobs.id))
+      .limit(limit);
+    
+    return result.map(toScrapeJob).filter(job => !activeOnly || job.isRunning);
+  } catch (error) {
+    console.error('Error fetching scrape jobs:', error);
+    throw new Error('Failed to fetch scrape jobs');
+  }
+}
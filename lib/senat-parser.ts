@@ -0,0 +1,147 @@
+/**
+ * Senate Parser Module
+ *
+ * This module parses roll-call pages published by the Senate (senat.cz).
+ * It turns the HTML of a `hlasy?G=` page into the same voting session shape the
+ * psp.cz parser produces, so both chambers are saved by the same code.
+ * Parsing is pure: no network or database access happens here.
+ */
+
+import { SessionOutcome, Chamber } from '../src/db/schema';
+import { mapVoteCode, VoteCodeSource } from './vote-codes';
+import { stripTags, inferMajorityType, summarizeVotes, ParsedVote, ParsedVotingPage } from './psp-parser';
+import { parseBillReference } from './bill-parser';
+import { CHAMBER_SEAT_COUNTS } from './chambers';
+
+// Base URL of the senat.cz roll-call pages
+export const SENATE_VOTE_URL = 'https://www.senat.cz/xqw/xervlet/pssenat/hlasy';
+
+// Parser version saved with the provenance of every senat.cz row
+export const SENATE_PARSER_VERSION = 'senat-page/1';
+
+/**
+ * Build the senat.cz URL of a roll-call page
+ * @param g Voting ID on senat.cz
+ * @returns Page URL
+ */
+export function buildSenateVotingPageUrl(g: number): string {
+  return `${SENATE_VOTE_URL}?G=${g}`;
+}
+
+/**
+ * Read a count printed as "LABEL=123"
+ */
+function readCount(text: string, label: RegExp): number | null {
+  const match = text.match(new RegExp(`${label.source}\\s*=\\s*(\\d+)`, label.flags));
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Parse a senat.cz roll-call page
+ * Senator IDs on senat.cz are not psp.cz person IDs, so senators are matched by name.
+ * @param html Page HTML
+ * @param g Voting ID on senat.cz
+ * @returns Parsed page, or null if the page holds no voting
+ */
+export function parseSenateVotingPage(html: string, g: number): ParsedVotingPage | null {
+  const text = stripTags(html);
+  
+  // "Hlasování č. 12, 25. schůze, 20.03.2024 14:35:10"
+  const detailsMatch = text.match(
+    /Hlasování\s+č\.\s*(\d+),\s*(\d+)\.\s*schůze,\s*(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?/i
+  );
+  if (!detailsMatch) {
+    return null;
+  }
+  
+  const date = `${detailsMatch[5]}-${detailsMatch[4].padStart(2, '0')}-${detailsMatch[3].padStart(2, '0')}`;
+  let time = detailsMatch[6] || null;
+  if (time && time.length === 5) {
+    time = `${time}:00`;
+  }
+  
+  const termMatch = text.match(/(\d+)\.\s*funkční\s+období/i);
+  const titleMatch = html.match(/<h3[^>]*class="[^"]*title[^"]*"[^>]*>([\s\S]*?)<\/h3>/i);
+  const title = titleMatch ? stripTags(titleMatch[1]) : '';
+  
+  // The result block sits between the title and the table of clubs
+  const tableStart = html.indexOf('<table');
+  const resultText = stripTags(html.slice(titleMatch ? (titleMatch.index ?? 0) + titleMatch[0].length : 0, tableStart === -1 ? html.length : tableStart));
+  
+  const outcomeMatch = resultText.match(/Návrh\s+byl:?\s*(přijat|zamítnut)/i);
+  const outcome = outcomeMatch
+    ? (outcomeMatch[1].toLowerCase() === 'přijat' ? SessionOutcome.PASSED : SessionOutcome.REJECTED)
+    : null;
+  const presentCount = readCount(resultText, /PŘÍTOMNO/i);
+  const quorum = readCount(resultText, /JE\s+TŘEBA/i);
+  const annulled = /zmatečn/i.test(resultText);
+  
+  // Club headers are table headings with the club's member count; senators follow as rows
+  const votes: ParsedVote[] = [];
+  const tableHtml = tableStart === -1 ? '' : html.slice(tableStart);
+  const headerPattern = /<th[^>]*>([\s\S]*?)<\/th>/gi;
+  const headers = Array.from(tableHtml.matchAll(headerPattern));
+  
+  headers.forEach((header, index) => {
+    const clubMatch = stripTags(header[1]).match(/^(?:Klub\s+)?(.+?)\s*\((\d+)\)$/);
+    if (!clubMatch) {
+      return;
+    }
+    
+    const party = clubMatch[1].trim();
+    const blockStart = (header.index ?? 0) + header[0].length;
+    const blockEnd = index + 1 < headers.length ? headers[index + 1].index ?? tableHtml.length : tableHtml.length;
+    const block = tableHtml.slice(blockStart, blockEnd);
+    
+    const memberPattern = /<td[^>]*class="[^"]*vote[^"]*"[^>]*>([\s\S]*?)<\/td>\s*<td[^>]*>\s*<a[^>]*>([\s\S]*?)<\/a>/gi;
+    for (const member of Array.from(block.matchAll(memberPattern))) {
+      const symbol = stripTags(member[1]);
+      const vote = mapVoteCode(VoteCodeSource.SENATE_PAGE, symbol);
+      if (!vote) {
+        continue;
+      }
+      
+      votes.push({
+        name: stripTags(member[2]),
+        party,
+        symbol,
+        vote,
+        pspId: null,
+      });
+    }
+  });
+  
+  if (!title || votes.length === 0) {
+    return null;
+  }
+  
+  // Page totals win over counts from the member lists; the Senate prints no "not voting" total
+  const resultSummary = summarizeVotes(votes);
+  resultSummary.yes = readCount(resultText, /\bANO/) ?? resultSummary.yes;
+  resultSummary.no = readCount(resultText, /\bNE/) ?? resultSummary.no;
+  resultSummary.abstain = readCount(resultText, /ZDRŽEL(?:O)?\s+SE/i) ?? resultSummary.abstain;
+  resultSummary.present = presentCount;
+  resultSummary.required = quorum;
+  
+  return {
+    g,
+    chamber: Chamber.SENATE,
+    termNumber: termMatch ? parseInt(termMatch[1], 10) : null,
+    title,
+    date,
+    time,
+    meetingNumber: parseInt(detailsMatch[2], 10),
+    voteNumber: parseInt(detailsMatch[1], 10),
+    meetingDetails: detailsMatch[0],
+    presentCount,
+    quorum,
+    outcome,
+    majorityType: inferMajorityType(presentCount, quorum, CHAMBER_SEAT_COUNTS[Chamber.SENATE]),
+    annulled,
+    agendaItemNumber: null,
+    bill: parseBillReference(title),
+    resultSummary,
+    sourceUrl: buildSenateVotingPageUrl(g),
+    votes,
+  };
+}
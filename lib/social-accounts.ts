@@ -0,0 +1,256 @@
+/**
+ * Social Accounts Module
+ *
+ * This module keeps the dated history of politicians' social accounts. An account keeps its
+ * platform user ID across renames, so a new handle closes the old row and opens a new one
+ * instead of overwriting it, and politicians can hold several accounts per platform.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { socialAccounts, politicians, SocialAccountType, SocialPlatform } from '../src/db/schema';
+import { and, asc, desc, eq, isNull, sql } from 'drizzle-orm';
+import { SocialPlatformValue, parseMastodonHandle } from './social-sources';
+
+/**
+ * Social account type
+ */
+export type SocialAccountTypeValue = typeof SocialAccountType[keyof typeof SocialAccountType];
+
+/**
+ * Social account interface
+ */
+export interface SocialAccount {
+  id: number;
+  platform: string;
+  handle: string;
+  platformUserId: string | null;
+  accountType: string;
+  validFrom: Date;
+  validTo: Date | null;
+  source: string | null;
+}
+
+/**
+ * Social account observation interface
+ */
+export interface SocialAccountObservation {
+  politicianId: number;
+  platform: SocialPlatformValue;
+  handle: string;
+  platformUserId?: string | null;        // Stable user ID, if the platform was asked for it
+  accountType?: SocialAccountTypeValue;  // Defaults to the matched account's type, or 'official'
+  observedAt?: Date;                     // When the handle was seen; now by default
+  source?: string;
+  replace?: boolean;                     // The handle replaces the politician's other current accounts of its type
+}
+
+/**
+ * What recording an observation changed
+ * - created: no current account matched, so one was opened
+ * - renamed: the account's user ID now goes by another handle, so its row was closed and a new one opened
+ * - corrected: the stored handle was a malformed spelling of the same handle, and was fixed in place
+ * - unchanged: the current account already had the handle
+ */
+export type SocialAccountChange = 'created' | 'renamed' | 'corrected' | 'unchanged';
+
+// Handle column of each platform on the politicians table
+const HANDLE_COLUMNS = {
+  [SocialPlatform.TWITTER]: 'twitterHandle',
+  [SocialPlatform.MASTODON]: 'mastodonHandle',
+  [SocialPlatform.BLUESKY]: 'blueskyHandle',
+} as const;
+
+/**
+ * Normalize a handle for comparison
+ * Profile URLs, leading @ signs and case are ignored, so `@Name`, `name` and `https://x.com/name`
+ * compare equal.
+ */
+export function handleKey(platform: SocialPlatformValue, handle: string): string {
+  const trimmed = handle.trim();
+  
+  if (platform === SocialPlatform.MASTODON) {
+    const parsed = parseMastodonHandle(trimmed);
+    return (parsed ? `${parsed.user}@${parsed.instance}` : trimmed.replace(/^@/, '')).toLowerCase();
+  }
+  
+  const withoutUrl = trimmed.replace(/^(https?:\/\/)?(www\.)?(twitter\.com|x\.com|bsky\.app\/profile)\//i, '');
+  return withoutUrl.split(/[/?#]/)[0].replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Point a politician's handle column at the platform's current account
+ * The column is kept as a shortcut for "handle today"; history lives in social_accounts.
+ * Official accounts win over personal ones, then the most recently opened.
+ */
+export async function refreshCurrentHandle(politicianId: number, platform: SocialPlatformValue, executor: DbExecutor = db): Promise<void> {
+  const current = await executor
+    .select({ handle: socialAccounts.handle })
+    .from(socialAccounts)
+    .where(and(
+      eq(socialAccounts.politicianId, politicianId),
+      eq(socialAccounts.platform, platform),
+      isNull(socialAccounts.validTo)
+    ))
+    .orderBy(
+      sql`(${socialAccounts.accountType} = ${SocialAccountType.OFFICIAL}) DESC`,
+      desc(socialAccounts.validFrom)
+    )
+    .limit(1);
+  
+  const column = HANDLE_COLUMNS[platform];
+  const handle = current.length > 0 ? current[0].handle : null;
+  await executor
+    .update(politicians)
+    .set({ [column]: handle, updatedAt: new Date() })
+    .where(sql`${politicians.id} = ${politicianId} AND ${politicians[column]} IS DISTINCT FROM ${handle}`);
+}
+
+/**
+ * Record that a politician's account was seen under a handle
+ * The observation is matched to a current account by user ID when it carries one, or else by handle:
+ * - the same user ID under another handle is a rename: the row is closed and a new one opened;
+ * - the same handle spelled differently (a URL, a leading @) is corrected in place;
+ * - anything else opens a new account.
+ * The politician's handle column is refreshed afterwards.
+ * @param observation Politician, platform, handle and what else is known of the account
+ * @param executor Database or open transaction to use
+ * @returns The current account and what changed
+ */
+export async function recordSocialAccount(
+  observation: SocialAccountObservation,
+  executor: DbExecutor = db
+): Promise<{ account: SocialAccount; change: SocialAccountChange; previousHandle: string | null }> {
+  const { politicianId, platform } = observation;
+  const handle = observation.handle.trim();
+  const userId = observation.platformUserId || null;
+  const observedAt = observation.observedAt || new Date();
+  const key = handleKey(platform, handle);
+  
+  const current = await executor
+    .select()
+    .from(socialAccounts)
+    .where(and(
+      eq(socialAccounts.politicianId, politicianId),
+      eq(socialAccounts.platform, platform),
+      isNull(socialAccounts.validTo)
+    ))
+    .orderBy(asc(socialAccounts.validFrom));
+  
+  const byUserId = userId ? current.find(account => account.platformUserId === userId) : undefined;
+  const byHandle = current.find(account =>
+    handleKey(platform, account.handle) === key && (!userId || !account.platformUserId || account.platformUserId === userId)
+  );
+  const matched = byUserId || byHandle;
+  const accountType = observation.accountType || (matched?.accountType as SocialAccountTypeValue | undefined) || SocialAccountType.OFFICIAL;
+  const now = new Date();
+  
+  let account: SocialAccount;
+  let change: SocialAccountChange;
+  let previousHandle: string | null = null;
+  
+  if (matched && handleKey(platform, matched.handle) === key) {
+    change = matched.handle === handle ? 'unchanged' : 'corrected';
+    previousHandle = change === 'corrected' ? matched.handle : null;
+    
+    const updates = {
+      handle,
+      platformUserId: matched.platformUserId || userId,
+      accountType,
+    };
+    if (updates.handle !== matched.handle || updates.platformUserId !== matched.platformUserId || updates.accountType !== matched.accountType) {
+      [account] = await executor
+        .update(socialAccounts)
+        .set({ ...updates, updatedAt: now })
+        .where(eq(socialAccounts.id, matched.id))
+        .returning();
+    } else {
+      account = matched;
+    }
+  } else {
+    change = matched ? 'renamed' : 'created';
+    previousHandle = matched ? matched.handle : null;
+    
+    if (matched) {
+      await executor
+        .update(socialAccounts)
+        .set({ validTo: observedAt, updatedAt: now })
+        .where(eq(socialAccounts.id, matched.id));
+    }
+    [account] = await executor
+      .insert(socialAccounts)
+      .values({
+        politicianId,
+        platform,
+        handle,
+        platformUserId: userId,
+        accountType,
+        validFrom: observedAt,
+        source: observation.source || null,
+      })
+      .returning();
+  }
+  
+  if (observation.replace) {
+    const others = current.filter(other => other.id !== account.id && other.id !== matched?.id && other.accountType === accountType);
+    for (const other of others) {
+      await executor
+        .update(socialAccounts)
+        .set({ validTo: observedAt, updatedAt: now })
+        .where(eq(socialAccounts.id, other.id));
+    }
+  }
+  
+  await refreshCurrentHandle(politicianId, platform, executor);
+  return { account, change, previousHandle };
+}
+
+/**
+ * Close an account, such as one that was deleted
+ * @param at When the account stopped being used; now by default
+ */
+export async function endSocialAccount(accountId: number, at: Date = new Date(), executor: DbExecutor = db): Promise<void> {
+  const ended = await executor
+    .update(socialAccounts)
+    .set({ validTo: at, updatedAt: new Date() })
+    .where(and(eq(socialAccounts.id, accountId), isNull(socialAccounts.validTo)))
+    .returning({ politicianId: socialAccounts.politicianId, platform: socialAccounts.platform });
+  
+  if (ended.length > 0) {
+    await refreshCurrentHandle(ended[0].politicianId, ended[0].platform as SocialPlatformValue, executor);
+  }
+}
+
+/**
+ * Fetch a politician's social accounts, oldest first
+ * @param platform Only return accounts on this platform
+ * @param includeEnded Include accounts and handles no longer in use
+ */
+export async function getSocialAccounts(
+  politicianId: number,
+  platform: SocialPlatformValue | null = null,
+  includeEnded: boolean = true
+): Promise<SocialAccount[]> {
+  try {
+    return await db
+      .select({
+        id: socialAccounts.id,
+        platform: socialAccounts.platform,
+        handle: socialAccounts.handle,
+        platformUserId: socialAccounts.platformUserId,
+        accountType: socialAccounts.accountType,
+        validFrom: socialAccounts.validFrom,
+        validTo: socialAccounts.validTo,
+        source: socialAccounts.source,
+      })
+      .from(socialAccounts)
+      .where(and(
+        eq(socialAccounts.politicianId, politicianId),
+        platform ? eq(socialAccounts.platform, platform) : undefined,
+        includeEnded ? undefined : isNull(socialAccounts.validTo)
+      ))
+      .orderBy(asc(socialAccounts.platform), asc(socialAccounts.validFrom));
+  } catch (error) {
+    console.error('Error fetching social accounts:', error);
+    throw new Error(`Failed to fetch social accounts of politician ${politicianId}`);
+  }
+}
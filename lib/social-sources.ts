@@ -0,0 +1,384 @@
+/**
+ * Social Sources Module
+ *
+ * This module defines the contract every social platform's post source implements, so posts are
+ * synced, cursored and stored the same way whichever platform they come from. Twitter's provider
+ * lives in twitter-api.ts; the Mastodon (REST API) and Bluesky (AT Protocol) providers are here.
+ */
+
+import { db } from '../src/db/config';
+import { politicians, SocialPlatform } from '../src/db/schema';
+import { and, isNotNull, ne } from 'drizzle-orm';
+
+/**
+ * Social platform type
+ */
+export type SocialPlatformValue = typeof SocialPlatform[keyof typeof SocialPlatform];
+
+/**
+ * Post source interface
+ * API response a post was read from; the posts of one page share it
+ */
+export interface PostSource {
+  url: string;
+  fetchedAt: Date;
+  payload: string;      // Response body as received
+}
+
+/**
+ * Social post interface
+ */
+export interface SocialPost {
+  id: string;           // ID the platform pages by; ordered by the provider's compareIds
+  externalId: string;   // ID stored with the post, unique across platforms and instances
+  text: string;
+  created_at: string;
+  url: string;
+  source?: PostSource;  // Kept in the raw archive and recorded as provenance when the post is saved
+}
+
+/**
+ * Feed options interface
+ */
+export interface SocialFeedOptions {
+  sinceId?: string | null;  // Only posts newer than this ID (forward sync)
+  untilId?: string | null;  // Only posts older than this ID (backfill)
+  startTime?: Date | null;  // Only posts made at or after this time
+  maxPosts?: number;        // Stop paging once this many posts were fetched
+  onPage?: (posts: number) => void; // Called after each page is read, with the posts it held, as read quotas count them
+}
+
+/**
+ * Feed interface
+ */
+export interface SocialFeed {
+  posts: SocialPost[];
+  exhausted: boolean;       // Every page was read, so nothing matching the options was left out
+}
+
+/**
+ * Social source provider interface
+ * Feeds list an account's own posts, newest first, without replies and reposts.
+ */
+export interface SocialSourceProvider {
+  platform: SocialPlatformValue;
+  parserVersion: string;    // Version of the mapping from API responses to posts, recorded as provenance of saved posts
+  
+  // Fetch an account's posts, following the platform's pagination
+  fetchFeed(handle: string, options?: SocialFeedOptions): Promise<SocialFeed>;
+  
+  // Compare two post IDs: negative if a is older than b, positive if newer, 0 if equal
+  compareIds(a: string, b: string): number;
+}
+
+/**
+ * Provider options interface
+ */
+export interface SocialProviderOptions {
+  baseUrl?: string;         // API base URL, such as a local mock server's
+  pageSize?: number;        // Posts asked for per page; the platform's maximum by default
+}
+
+// Handle column of each platform on the politicians table
+const HANDLE_COLUMNS = {
+  [SocialPlatform.TWITTER]: politicians.twitterHandle,
+  [SocialPlatform.MASTODON]: politicians.mastodonHandle,
+  [SocialPlatform.BLUESKY]: politicians.blueskyHandle,
+};
+
+// Statuses per page of the Mastodon API (its maximum)
+const MASTODON_PAGE_SIZE = 40;
+
+// Posts per page of the Bluesky API (its maximum)
+const BLUESKY_PAGE_SIZE = 100;
+
+// Public Bluesky AppView, which serves feeds without authentication
+const BLUESKY_API_BASE = 'https://public.api.bsky.app';
+
+/**
+ * Check that a string names a supported platform
+ */
+export function isSocialPlatform(value: string): value is SocialPlatformValue {
+  return (Object.values(SocialPlatform) as string[]).includes(value);
+}
+
+/**
+ * Get the politicians with an account on a platform
+ * @returns ID, name and handle of each politician, by name
+ */
+export async function getPoliticianAccounts(platform: SocialPlatformValue): Promise<Array<{ id: number; name: string; handle: string }>> {
+  const column = HANDLE_COLUMNS[platform];
+  
+  try {
+    const result = await db
+      .select({ id: politicians.id, name: politicians.name, handle: column })
+      .from(politicians)
+      .where(and(isNotNull(column), ne(column, '')))
+      .orderBy(politicians.name);
+    
+    return result.map(row => ({ id: row.id, name: row.name, handle: row.handle as string }));
+  } catch (error) {
+    console.error('Error fetching politician accounts:', error);
+    throw new Error(`Failed to fetch politicians with ${platform} accounts`);
+  }
+}
+
+/**
+ * Compare numeric string IDs too large for numbers; longer IDs are newer
+ */
+function compareNumericIds(a: string, b: string): number {
+  return a.length !== b.length ? a.length - b.length : a.localeCompare(b);
+}
+
+/**
+ * Convert the HTML of a post to plain text
+ * Line and paragraph breaks are kept; links are reduced to their text.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Fetch a JSON document from a platform API
+ * @param platform Platform name used in error messages
+ * @returns The parsed document and the response it was read from
+ */
+async function fetchJson<T>(platform: string, url: string): Promise<{ data: T; source: PostSource }> {
+  const fetchedAt = new Date();
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+  if (!response.ok) {
+    const retryAfter = response.headers.get('retry-after');
+    throw new Error(
+      response.status === 429
+        ? `${platform} API rate limit exceeded${retryAfter ? `; retry after ${retryAfter} seconds` : ''}`
+        : `${platform} API error: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  const payload = await response.text();
+  return { data: JSON.parse(payload) as T, source: { url, fetchedAt, payload } };
+}
+
+/**
+ * Mastodon account reference, as returned by the account lookup
+ */
+interface MastodonAccount {
+  id: string;
+  acct: string;
+}
+
+/**
+ * Mastodon status, as listed by the account statuses endpoint
+ */
+interface MastodonStatus {
+  id: string;
+  uri: string;
+  url: string | null;
+  created_at: string;
+  content: string;
+  spoiler_text?: string;
+}
+
+/**
+ * Split a Mastodon handle into user and instance
+ * Accepts `user@instance`, `@user@instance` and profile URLs such as `https://instance/@user`.
+ */
+export function parseMastodonHandle(handle: string): { user: string; instance: string } | null {
+  const trimmed = handle.trim();
+  const url = trimmed.match(/^https?:\/\/([^/]+)\/@([^/?#]+)/i);
+  if (url) {
+    return { user: url[2], instance: url[1].toLowerCase() };
+  }
+  
+  const match = trimmed.replace(/^@/, '').match(/^([^@\s]+)@([^@\s]+)$/);
+  return match ? { user: match[1], instance: match[2].toLowerCase() } : null;
+}
+
+/**
+ * Create the Mastodon provider
+ * Statuses are read from the REST API of the account's own instance, or of `baseUrl`
+ * (MASTODON_BASE_URL by default) when set. Status IDs are only ordered within one instance, so
+ * posts are stored under their ActivityPub URI.
+ */
+export function createMastodonProvider(options: SocialProviderOptions = {}): SocialSourceProvider {
+  const accountIds = new Map<string, string>();
+  
+  const lookupAccount = async (base: string, acct: string): Promise<string> => {
+    const key = `${base} ${acct.toLowerCase()}`;
+    const cached = accountIds.get(key);
+    if (cached) {
+      return cached;
+    }
+    
+    const { data: account } = await fetchJson<MastodonAccount>('Mastodon', `${base}/api/v1/accounts/lookup?acct=${encodeURIComponent(acct)}`);
+    accountIds.set(key, account.id);
+    return account.id;
+  };
+  
+  return {
+    platform: SocialPlatform.MASTODON,
+    parserVersion: 'mastodon-api/1',
+    compareIds: compareNumericIds,
+    
+    async fetchFeed(handle: string, feedOptions: SocialFeedOptions = {}): Promise<SocialFeed> {
+      const parsed = parseMastodonHandle(handle);
+      if (!parsed) {
+        throw new Error(`Invalid Mastodon handle: ${handle} (expected user@instance)`);
+      }
+      
+      const base = (options.baseUrl || process.env.MASTODON_BASE_URL || `https://${parsed.instance}`).replace(/\/$/, '');
+      const accountId = await lookupAccount(base, `${parsed.user}@${parsed.instance}`);
+      const pageSize = options.pageSize ?? MASTODON_PAGE_SIZE;
+      const maxPosts = feedOptions.maxPosts ?? Infinity;
+      const feed: SocialFeed = { posts: [], exhausted: false };
+      let maxId = feedOptions.untilId || null;
+      
+      while (feed.posts.length < maxPosts) {
+        const params = new URLSearchParams({
+          limit: String(pageSize),
+          exclude_replies: 'true',
+          exclude_reblogs: 'true',
+        });
+        if (feedOptions.sinceId) {
+          params.set('since_id', feedOptions.sinceId);
+        }
+        if (maxId) {
+          params.set('max_id', maxId);
+        }
+        
+        const { data: statuses, source } = await fetchJson<MastodonStatus[]>('Mastodon', `${base}/api/v1/accounts/${accountId}/statuses?${params.toString()}`);
+        feedOptions.onPage?.(statuses.length);
+        for (const status of statuses) {
+          // Statuses come newest first, so the first one too old ends the feed
+          if (feedOptions.startTime && new Date(status.created_at) < feedOptions.startTime) {
+            feed.exhausted = true;
+            return feed;
+          }
+          if (feed.posts.length >= maxPosts) {
+            return feed;
+          }
+          
+          const body = htmlToText(status.content);
+          feed.posts.push({
+            id: status.id,
+            externalId: status.uri,
+            text: status.spoiler_text ? `${status.spoiler_text}\n\n${body}` : body,
+            created_at: status.created_at,
+            url: status.url || status.uri,
+            source,
+          });
+        }
+        
+        if (statuses.length < pageSize) {
+          feed.exhausted = true;
+          break;
+        }
+        maxId = statuses[statuses.length - 1].id;
+      }
+      
+      return feed;
+    },
+  };
+}
+
+/**
+ * Bluesky feed item, as listed by app.bsky.feed.getAuthorFeed
+ */
+interface BlueskyFeedItem {
+  post: {
+    uri: string;
+    author: { handle: string };
+    record: { text?: string; createdAt?: string };
+    indexedAt: string;
+  };
+  reason?: unknown;       // Set on reposts and pinned posts
+}
+
+/**
+ * Create the Bluesky provider
+ * Posts are read with the AT Protocol's app.bsky.feed.getAuthorFeed from `baseUrl` (BLUESKY_BASE_URL,
+ * or the public AppView, by default). The feed has no since or until parameters, so pages are read
+ * until a post at or before `sinceId` is reached and posts at or after `untilId` are passed over.
+ * Post IDs are record keys, timestamp identifiers that sort in posting order.
+ */
+export function createBlueskyProvider(options: SocialProviderOptions = {}): SocialSourceProvider {
+  const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+  
+  return {
+    platform: SocialPlatform.BLUESKY,
+    parserVersion: 'bluesky-feed/1',
+    compareIds,
+    
+    async fetchFeed(handle: string, feedOptions: SocialFeedOptions = {}): Promise<SocialFeed> {
+      const actor = handle.trim().replace(/^@/, '').replace(/^https?:\/\/bsky\.app\/profile\//i, '').split('/')[0];
+      if (!actor) {
+        throw new Error(`Invalid Bluesky handle: ${handle}`);
+      }
+      
+      const base = (options.baseUrl || process.env.BLUESKY_BASE_URL || BLUESKY_API_BASE).replace(/\/$/, '');
+      const maxPosts = feedOptions.maxPosts ?? Infinity;
+      const feed: SocialFeed = { posts: [], exhausted: false };
+      let cursor: string | null = null;
+      
+      do {
+        const params = new URLSearchParams({
+          actor,
+          limit: String(options.pageSize ?? BLUESKY_PAGE_SIZE),
+          filter: 'posts_no_replies',
+        });
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
+        
+        const { data: page, source } =
+          await fetchJson<{ feed: BlueskyFeedItem[]; cursor?: string }>('Bluesky', `${base}/xrpc/app.bsky.feed.getAuthorFeed?${params.toString()}`);
+        feedOptions.onPage?.(page.feed.length);
+        for (const item of page.feed) {
+          if (item.reason) {
+            continue;
+          }
+          
+          const rkey = item.post.uri.split('/').pop() as string;
+          const createdAt = item.post.record.createdAt || item.post.indexedAt;
+          if (
+            (feedOptions.sinceId && compareIds(rkey, feedOptions.sinceId) <= 0) ||
+            (feedOptions.startTime && new Date(createdAt) < feedOptions.startTime)
+          ) {
+            feed.exhausted = true;
+            return feed;
+          }
+          if (feedOptions.untilId && compareIds(rkey, feedOptions.untilId) >= 0) {
+            continue;
+          }
+          if (feed.posts.length >= maxPosts) {
+            return feed;
+          }
+          
+          feed.posts.push({
+            id: rkey,
+            externalId: item.post.uri,
+            text: item.post.record.text || '',
+            created_at: createdAt,
+            url: `https://bsky.app/profile/${item.post.author.handle}/post/${rkey}`,
+            source,
+          });
+        }
+        
+        cursor = page.feed.length > 0 ? page.cursor || null : null;
+      } while (cursor);
+      
+      feed.exhausted = true;
+      return feed;
+    },
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Electoral Terms Module
+ *
+ * This module looks up the electoral terms (volební období) of the Chamber of Deputies
+ * and the terms (funkční období) of the Senate.
+ * Sessions and memberships are linked to a term by date, and queries can be scoped
+ * to a single term by its number (e.g., 9 for 2021–2025). Numbers are counted per chamber,
+ * so lookups take the chamber and default to the Chamber of Deputies.
+ */
+
+import { db, DbExecutor } from '../src/db/config';
+import { electoralTerms, termSeats, parties, Chamber } from '../src/db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { ChamberValue, CHAMBER_SEAT_COUNTS, termName } from './chambers';
+
+/**
+ * Electoral term interface
+ */
+export interface ElectoralTerm {
+  id: number;
+  chamber: string;
+  number: number;
+  name: string;
+  startDate: string;
+  endDate: string | null;
+  seatCount: number;
+}
+
+/**
+ * Term seat count interface
+ */
+export interface TermSeatCount {
+  partyId: number;
+  party: string | null;
+  partyName: string;
+  seats: number;
+}
+
+// Columns selected for every term lookup
+const termColumns = {
+  id: electoralTerms.id,
+  chamber: electoralTerms.chamber,
+  number: electoralTerms.number,
+  name: electoralTerms.name,
+  startDate: electoralTerms.startDate,
+  endDate: electoralTerms.endDate,
+  seatCount: electoralTerms.seatCount,
+};
+
+/**
+ * Fetch all electoral terms, newest first
+ * @param chamber Only return terms of this chamber
+ */
+export async function fetchTerms(chamber: ChamberValue | null = null): Promise<ElectoralTerm[]> {
+  try {
+    return await db
+      .select(termColumns)
+      .from(electoralTerms)
+      .where(chamber ? eq(electoralTerms.chamber, chamber) : undefined)
+      .orderBy(electoralTerms.chamber, desc(electoralTerms.number));
+  } catch (error) {
+    console.error('Error fetching electoral terms:', error);
+    throw new Error('Failed to fetch electoral terms');
+  }
+}
+
+/**
+ * Fetch an electoral term by its number
+ * @param termNumber Ordinal number of the term
+ * @param chamber Chamber the term belongs to
+ * @returns Term, or null if it is unknown
+ */
+export async function getTermByNumber(
+  termNumber: number,
+  chamber: ChamberValue = Chamber.DEPUTIES,
+  executor: DbExecutor = db
+): Promise<ElectoralTerm | null> {
+  const result = await executor
+    .select(termColumns)
+    .from(electoralTerms)
+    .where(and(eq(electoralTerms.chamber, chamber), eq(electoralTerms.number, termNumber)))
+    .limit(1);
+  
+  return result[0] || null;
+}
+
+/**
+ * Resolve a term number to a term, failing on unknown numbers
+ * Used wherever a caller asks for a term scope, so a typo does not silently widen the query.
+ * @param termNumber Ordinal number of the term, or null/undefined for no scope
+ * @param chamber Chamber the term belongs to
+ * @returns Term, or null when no scope was requested
+ */
+export async function requireTerm(
+  termNumber: number | null | undefined,
+  chamber: ChamberValue = Chamber.DEPUTIES,
+  executor: DbExecutor = db
+): Promise<ElectoralTerm | null> {
+  if (termNumber === null || termNumber === undefined) {
+    return null;
+  }
+  
+  const term = await getTermByNumber(termNumber, chamber, executor);
+  if (!term) {
+    throw new Error(chamber === Chamber.DEPUTIES ? `Unknown electoral term ${termNumber}` : `Unknown ${chamber} term ${termNumber}`);
+  }
+  return term;
+}
+
+/**
+ * Find the electoral term a date falls into
+ * @param date Date (YYYY-MM-DD)
+ * @param chamber Chamber whose terms are searched
+ * @returns Term ID, or null if no term covers the date
+ */
+export async function findTermIdForDate(
+  date: string,
+  chamber: ChamberValue = Chamber.DEPUTIES,
+  executor: DbExecutor = db
+): Promise<number | null> {
+  const result = await executor
+    .select({ id: electoralTerms.id })
+    .from(electoralTerms)
+    .where(sql`${electoralTerms.chamber} = ${chamber} AND ${electoralTerms.startDate} <= ${date} AND (${electoralTerms.endDate} IS NULL OR ${electoralTerms.endDate} >= ${date})`)
+    .orderBy(desc(electoralTerms.startDate))
+    .limit(1);
+  
+  return result[0]?.id ?? null;
+}
+
+/**
+ * Find a term named by a source, creating it if needed
+ * Senate pages and European Parliament files name their term but no dates, so a new term starts on the first session seen
+ * and its start moves back as older sessions arrive. Neighbouring terms close the day before the next one starts.
+ * @param chamber Chamber the term belongs to
+ * @param termNumber Ordinal number of the term
+ * @param date Date of a session held in the term (YYYY-MM-DD)
+ * @returns Term ID
+ */
+export async function findOrCreateTerm(
+  chamber: ChamberValue,
+  termNumber: number,
+  date: string,
+  executor: DbExecutor = db
+): Promise<number> {
+  const existing = await getTermByNumber(termNumber, chamber, executor);
+  if (existing) {
+    if (date < existing.startDate) {
+      await executor
+        .update(electoralTerms)
+        .set({ startDate: date, updatedAt: new Date() })
+        .where(eq(electoralTerms.id, existing.id));
+    }
+    return existing.id;
+  }
+  
+  const next = await getTermByNumber(termNumber + 1, chamber, executor);
+  const result = await executor
+    .insert(electoralTerms)
+    .values({
+      chamber,
+      number: termNumber,
+      name: termName(chamber, termNumber),
+      startDate: date,
+      endDate: next ? sql`${next.startDate}::date - 1` : null,
+      seatCount: CHAMBER_SEAT_COUNTS[chamber],
+    })
+    .returning({ id: electoralTerms.id });
+  
+  await executor
+    .update(electoralTerms)
+    .set({ endDate: sql`${date}::date - 1`, updatedAt: new Date() })
+    .where(and(eq(electoralTerms.chamber, chamber), eq(electoralTerms.number, termNumber - 1), sql`${electoralTerms.endDate} IS NULL`));
+  
+  return result[0].id;
+}
+
+/**
+ * Check whether a date falls into a term
+ */
+export function isDateInTerm(date: string, term: ElectoralTerm): boolean {
+  return date >= term.startDate && (!term.endDate || date <= term.endDate);
+}
+
+/**
+ * Fetch the seats each party held in a term
+ * @param termNumber Ordinal number of the term
+ * @param chamber Chamber the term belongs to
+ */
+export async function fetchTermSeatCounts(termNumber: number, chamber: ChamberValue = Chamber.DEPUTIES): Promise<TermSeatCount[]> {
+  try {
+    return await db
+      .select({
+        partyId: termSeats.partyId,
+        party: parties.shortName,
+        partyName: parties.name,
+        seats: termSeats.seats,
+      })
+      .from(termSeats)
+      .innerJoin(electoralTerms, eq(termSeats.termId, electoralTerms.id))
+      .innerJoin(parties, eq(termSeats.partyId, parties.id))
+      .where(and(eq(electoralTerms.chamber, chamber), eq(electoralTerms.number, termNumber)))
+      .orderBy(desc(termSeats.seats));
+  } catch (error) {
+    console.error('Error fetching term seat counts:', error);
+    throw new Error('Failed to fetch term seat counts');
+  }
+}
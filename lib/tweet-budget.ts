@@ -0,0 +1,326 @@
+/**
+ * Tweet Budget Module
+ *
+ * This module plans tweet fetch runs against a monthly API read budget. Each run gets an equal share
+ * of what is left of the month's budget, and spends it on the politicians most likely to have posted
+ * since they were last polled: accounts that post often, that were polled long ago, or whose priority
+ * tier is higher come first. Runs record what they planned and what they spent, so later runs and the
+ * dashboard see the month's actual spend.
+ */
+
+import { db } from '../src/db/config';
+import { politicians, tweets, tweetFetchRuns, TwitterPriority } from '../src/db/schema';
+import { and, desc, eq, isNotNull, ne, sql } from 'drizzle-orm';
+
+// Posting frequency is measured over this many days of stored tweets
+const FREQUENCY_WINDOW_DAYS = 30;
+
+// Accounts never polled, or polled longer ago, count as this stale
+const MAX_STALE_DAYS = 30;
+
+// Accounts without stored tweets are assumed to post this often, so they are still polled now and then
+const MIN_TWEETS_PER_DAY = 0.1;
+
+// A poll reads at least one page, and pages hold at least this many tweets
+const MIN_POLL_READS = 5;
+
+// Only the latest runs of the month are listed in the summary
+const MAX_SUMMARY_RUNS = 100;
+
+// How much more eagerly each priority tier is polled
+const TIER_WEIGHTS: Record<number, number> = {
+  [TwitterPriority.HIGH]: 3,
+  [TwitterPriority.NORMAL]: 1,
+  [TwitterPriority.LOW]: 0.3,
+};
+
+/**
+ * Tweet budget options interface
+ */
+export interface TweetBudgetOptions {
+  monthlyBudget: number;          // Reads the API plan allows per month
+  runsPerDay?: number;            // How often runs are scheduled, so each gets its share (default 1)
+  maxTweetsPerPolitician?: number; // Cap on the reads of one poll (default 100)
+  now?: Date;
+}
+
+/**
+ * Planned politician interface
+ */
+export interface PlannedPolitician {
+  id: number;
+  name: string;
+  twitterHandle: string;
+  priority: number;
+  tweetsPerDay: number;           // Stored tweets per day over the last 30 days
+  staleDays: number;              // Days since the last sync, capped at 30
+  expectedReads: number;          // Reads the poll is expected to spend
+  maxTweets: number;              // Cap on the poll's reads
+  score: number;                  // Expected new tweets weighted by priority; higher is polled first
+}
+
+/**
+ * Tweet run plan interface
+ */
+export interface TweetRunPlan {
+  month: string;                  // Budget month (e.g., '2024-05')
+  monthlyBudget: number;
+  spent: number;                  // Reads already spent this month
+  remaining: number;
+  allowance: number;              // Share of the remaining budget this run may spend
+  plannedReads: number;
+  politicians: PlannedPolitician[]; // Politicians to poll, in order
+  deferred: number;               // Politicians left for later runs
+}
+
+/**
+ * Tweet budget summary interface
+ * Shape in which the month's budget is returned by the API
+ */
+export interface TweetBudgetSummary {
+  month: string;
+  monthly_budget: number;
+  spent: number;                  // Reads actually spent this month
+  planned: number;                // Reads the month's runs were planned to spend
+  projected: number;              // Month-end spend if the pace so far holds
+  remaining: number;
+  runs: Array<{
+    id: number;
+    started_at: string;
+    finished_at: string | null;
+    planned: number;
+    spent: number;
+    politicians: number;
+  }>;
+}
+
+/**
+ * Get the monthly read budget set in TWITTER_MONTHLY_READ_BUDGET
+ * @returns The budget, or null if runs are not budgeted
+ */
+export function configuredMonthlyBudget(): number | null {
+  const budget = parseInt(process.env.TWITTER_MONTHLY_READ_BUDGET || '', 10);
+  return isNaN(budget) || budget <= 0 ? null : budget;
+}
+
+/**
+ * Get the budget month of a date
+ */
+export function budgetMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Days in a date's month, and days left in it including the date itself
+ */
+function monthDays(date: Date): { total: number; left: number; elapsed: number } {
+  const total = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const elapsed = (date.getTime() - Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)) / 86400000;
+  return { total, left: total - date.getUTCDate() + 1, elapsed };
+}
+
+/**
+ * Sum the reads spent and planned in a month
+ */
+async function monthSpend(month: string): Promise<{ spent: number; planned: number }> {
+  const result = await db
+    .select({
+      spent: sql<number>`coalesce(sum(${tweetFetchRuns.spentReads}), 0)::int`,
+      planned: sql<number>`coalesce(sum(${tweetFetchRuns.plannedReads}), 0)::int`,
+    })
+    .from(tweetFetchRuns)
+    .where(eq(tweetFetchRuns.month, month));
+  
+  return { spent: result[0]?.spent ?? 0, planned: result[0]?.planned ?? 0 };
+}
+
+/**
+ * Plan a tweet fetch run
+ * Politicians are scored by the tweets they are expected to have posted since their last sync,
+ * weighted by priority tier, and taken in order while their expected reads fit the run's allowance.
+ * Only reads the database.
+ * @param options Monthly budget, run frequency and per-poll cap
+ */
+export async function planTweetRun(options: TweetBudgetOptions): Promise<TweetRunPlan> {
+  const now = options.now || new Date();
+  const month = budgetMonth(now);
+  const maxTweetsPerPolitician = options.maxTweetsPerPolitician ?? 100;
+  
+  try {
+    const { spent } = await monthSpend(month);
+    const remaining = Math.max(0, options.monthlyBudget - spent);
+    const runsLeft = Math.max(1, monthDays(now).left * Math.max(1, options.runsPerDay ?? 1));
+    const allowance = Math.floor(remaining / runsLeft);
+    
+    const since = new Date(now.getTime() - FREQUENCY_WINDOW_DAYS * 86400000);
+    const candidates = await db
+      .select({
+        id: politicians.id,
+        name: politicians.name,
+        twitterHandle: politicians.twitterHandle,
+        priority: politicians.twitterPriority,
+        lastTwitterSync: politicians.lastTwitterSync,
+        recentTweets: sql<number>`(
+          select count(*)::int from ${tweets}
+          where ${tweets.politicianId} = ${politicians.id} and ${tweets.postedAt} > ${since}
+        )`,
+      })
+      .from(politicians)
+      .where(and(isNotNull(politicians.twitterHandle), ne(politicians.twitterHandle, '')));
+    
+    const scored = candidates.map((politician): PlannedPolitician => {
+      const tweetsPerDay = Math.max(MIN_TWEETS_PER_DAY, politician.recentTweets / FREQUENCY_WINDOW_DAYS);
+      const staleDays = politician.lastTwitterSync
+        ? Math.min(MAX_STALE_DAYS, (now.getTime() - politician.lastTwitterSync.getTime()) / 86400000)
+        : MAX_STALE_DAYS;
+      const expectedTweets = tweetsPerDay * staleDays;
+      
+      return {
+        id: politician.id,
+        name: politician.name,
+        twitterHandle: politician.twitterHandle as string,
+        priority: politician.priority,
+        tweetsPerDay,
+        staleDays,
+        expectedReads: Math.min(maxTweetsPerPolitician, Math.max(MIN_POLL_READS, Math.ceil(expectedTweets))),
+        maxTweets: maxTweetsPerPolitician,
+        score: expectedTweets * (TIER_WEIGHTS[politician.priority] ?? 1),
+      };
+    });
+    scored.sort((a, b) => b.score - a.score);
+    
+    const planned: PlannedPolitician[] = [];
+    let plannedReads = 0;
+    for (const politician of scored) {
+      if (plannedReads + politician.expectedReads > allowance) {
+        continue;
+      }
+      planned.push(politician);
+      plannedReads += politician.expectedReads;
+    }
+    
+    return {
+      month,
+      monthlyBudget: options.monthlyBudget,
+      spent,
+      remaining,
+      allowance,
+      plannedReads,
+      politicians: planned,
+      deferred: scored.length - planned.length,
+    };
+  } catch (error) {
+    console.error('Error planning tweet fetch run:', error);
+    throw new Error('Failed to plan tweet fetch run');
+  }
+}
+
+/**
+ * Record the start of a planned run
+ * @returns Run ID, used to record its spend
+ */
+export async function startTweetRun(plan: TweetRunPlan): Promise<number> {
+  try {
+    const result = await db
+      .insert(tweetFetchRuns)
+      .values({
+        month: plan.month,
+        monthlyBudget: plan.monthlyBudget,
+        plannedReads: plan.plannedReads,
+        politicians: plan.politicians.length,
+      })
+      .returning({ id: tweetFetchRuns.id });
+    
+    return result[0].id;
+  } catch (error) {
+    console.error('Error recording tweet fetch run:', error);
+    throw new Error('Failed to record tweet fetch run');
+  }
+}
+
+/**
+ * Add reads to a run's spend
+ * Called after each poll, so the month's spend is known even if the run dies.
+ */
+export async function addTweetRunSpend(runId: number, reads: number): Promise<void> {
+  try {
+    await db
+      .update(tweetFetchRuns)
+      .set({ spentReads: sql`${tweetFetchRuns.spentReads} + ${reads}` })
+      .where(eq(tweetFetchRuns.id, runId));
+  } catch (error) {
+    console.error('Error recording tweet fetch run spend:', error);
+    throw new Error(`Failed to record the spend of tweet fetch run #${runId}`);
+  }
+}
+
+/**
+ * Mark a run as finished
+ */
+export async function finishTweetRun(runId: number): Promise<void> {
+  try {
+    await db
+      .update(tweetFetchRuns)
+      .set({ finishedAt: sql`now()` })
+      .where(eq(tweetFetchRuns.id, runId));
+  } catch (error) {
+    console.error('Error finishing tweet fetch run:', error);
+    throw new Error(`Failed to finish tweet fetch run #${runId}`);
+  }
+}
+
+/**
+ * Cap a poll so the run stays within its allowance
+ * A poll reads what the planner expected of it, or less once the allowance runs low. Capped timelines
+ * never read past their cap, except that a page holds at least MIN_POLL_READS tweets, so smaller caps are
+ * not polled at all.
+ * @param politician Planned politician the poll is for
+ * @param spentThisRun Reads the run spent so far
+ * @returns Reads the poll may spend, or 0 if the allowance has no room for another poll
+ */
+export function pollCap(plan: TweetRunPlan, politician: PlannedPolitician, spentThisRun: number): number {
+  const cap = Math.min(politician.expectedReads || politician.maxTweets, plan.allowance - spentThisRun);
+  return cap < MIN_POLL_READS ? 0 : cap;
+}
+
+/**
+ * Summarize the month's budget, spend and runs
+ * @param monthlyBudget Budget to report against; TWITTER_MONTHLY_READ_BUDGET, or the one the month's latest
+ * run was planned with, when not given
+ */
+export async function getTweetBudgetSummary(monthlyBudget?: number, now: Date = new Date()): Promise<TweetBudgetSummary> {
+  const month = budgetMonth(now);
+  
+  try {
+    const runs = await db
+      .select()
+      .from(tweetFetchRuns)
+      .where(eq(tweetFetchRuns.month, month))
+      .orderBy(desc(tweetFetchRuns.id))
+      .limit(MAX_SUMMARY_RUNS);
+    
+    const { spent, planned } = await monthSpend(month);
+    const budget = monthlyBudget ?? configuredMonthlyBudget() ?? runs[0]?.monthlyBudget ?? 0;
+    const { total, elapsed } = monthDays(now);
+    
+    return {
+      month,
+      monthly_budget: budget,
+      spent,
+      planned,
+      projected: elapsed > 0 ? Math.round((spent / elapsed) * total) : spent,
+      remaining: Math.max(0, budget - spent),
+      runs: runs.map(run => ({
+        id: run.id,
+        started_at: run.startedAt.toISOString(),
+        finished_at: run.finishedAt ? run.finishedAt.toISOString() : null,
+        planned: run.plannedReads,
+        spent: run.spentReads,
+        politicians: run.politicians,
+      })),
+    };
+  } catch (error) {
+    console.error('Error fetching tweet budget summary:', error);
+    throw new Error('Failed to fetch tweet budget summary');
+  }
+}
@@ -1,9 +1,24 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { db } from '../src/db/config';
-import { tweets, politicians } from '../src/db/schema';
-import { eq, desc, count, sql } from 'drizzle-orm';
+import { tweets, politicians, tweetSyncCursors, SocialPlatform } from '../src/db/schema';
+import { and, eq, desc, count, sql } from 'drizzle-orm';
 import { getClient, closePool } from '../src/db/config';
 import { LRUCache } from 'lru-cache';
+import { rateLimitEndpoint, reserveRequest, recordRateLimit, parseRateLimitHeaders } from './rate-limits';
+import { configuredMonthlyBudget, planTweetRun, pollCap, startTweetRun, addTweetRunSpend, finishTweetRun } from './tweet-budget';
+import { archivePayload } from './raw-archive';
+import { planTweetSave } from './dry-run';
+import { recordProvenance } from './provenance';
+import {
+  SocialPlatformValue,
+  SocialPost,
+  PostSource,
+  SocialSourceProvider,
+  createMastodonProvider,
+  createBlueskyProvider,
+  getPoliticianAccounts,
+} from './social-sources';
+import { getSocialAccounts, recordSocialAccount, handleKey } from './social-accounts';
 
 // Cache item type definition
 interface CacheItem<T> {
@@ -50,12 +65,8 @@ const cache = new LRUCache<string, CacheItem<any>>({
 // Keep track of stale cache entries for fallback
 const staleCache = new Map<string, CacheItem<any>>();
 
-// Rate limiting tracking
-const rateLimitInfo = {
-  remaining: 300, // Default assumption
-  reset: Date.now() + 15 * 60 * 1000, // Default 15 minutes from now
-  lastUpdated: Date.now()
-};
+// Rate-limit windows are kept in api_rate_limits under this service
+const RATE_LIMIT_SERVICE = 'twitter';
 
 /**
  * Sleep for a specified number of milliseconds
@@ -66,49 +77,51 @@ const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
  * Make a rate-limited API request with exponential backoff
+ * The endpoint's window is shared with other processes through api_rate_limits: a slot is
+ * reserved before each request, and the request waits for the window to reset when none is left.
  * @param url URL to fetch
  * @param options Fetch options
  * @param retryCount Current retry count
  * @returns Response from the API
  */
 async function rateLimitedFetch(url: string, options: RequestInit, retryCount = 0): Promise<Response> {
-  // Check if we're currently rate limited
-  const now = Date.now();
-  if (rateLimitInfo.remaining <= 0 && now < rateLimitInfo.reset) {
-    const waitTime = rateLimitInfo.reset - now + 1000; // Add 1 second buffer
-    console.log(`Rate limited. Waiting ${waitTime / 1000} seconds before retrying...`);
+  const endpoint = rateLimitEndpoint(options.method || 'GET', url);
+  
+  // Check if we're currently rate limited, by this or any other process
+  let resetAt = await reserveRequest(RATE_LIMIT_SERVICE, endpoint);
+  while (resetAt) {
+    const waitTime = Math.max(0, resetAt.getTime() - Date.now()) + 1000; // Add 1 second buffer
+    console.log(`Rate limited on ${endpoint}. Waiting ${waitTime / 1000} seconds before retrying...`);
     await sleep(waitTime);
+    resetAt = await reserveRequest(RATE_LIMIT_SERVICE, endpoint);
   }
   
   try {
     const response = await fetch(url, options);
     
-    // Update rate limit info from headers
-    const remaining = response.headers.get('x-rate-limit-remaining');
-    const reset = response.headers.get('x-rate-limit-reset');
-    
-    if (remaining) {
-      rateLimitInfo.remaining = parseInt(remaining, 10);
-    }
-    
-    if (reset) {
-      rateLimitInfo.reset = parseInt(reset, 10) * 1000; // Convert to milliseconds
+    // Update the shared window from headers
+    const window = parseRateLimitHeaders(response.headers);
+    if (window) {
+      await recordRateLimit(RATE_LIMIT_SERVICE, endpoint, window);
     }
     
-    rateLimitInfo.lastUpdated = now;
-    
     // Handle rate limiting
     if (response.status === 429) {
-      if (retryCount >= MAX_RETRIES) {
-        throw new Error(`Twitter API rate limit exceeded. Maximum retries (${MAX_RETRIES}) reached.`);
-      }
-      
       // Get retry-after header or use exponential backoff
       const retryAfter = response.headers.get('retry-after');
       const delay = retryAfter 
         ? parseInt(retryAfter, 10) * 1000 
         : INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
       
+      // Without rate-limit headers, other processes learn of the block from the retry delay
+      if (!window) {
+        await recordRateLimit(RATE_LIMIT_SERVICE, endpoint, { limit: null, remaining: 0, resetAt: new Date(Date.now() + delay) });
+      }
+      
+      if (retryCount >= MAX_RETRIES) {
+        throw new Error(`Twitter API rate limit exceeded. Maximum retries (${MAX_RETRIES}) reached.`);
+      }
+      
       console.log(`Rate limited. Retrying in ${delay / 1000} seconds... (Attempt ${retryCount + 1}/${MAX_RETRIES})`);
       await sleep(delay);
       
@@ -163,67 +176,207 @@ async function getCachedOrFetch<T>(key: string, fetchFn: () => Promise<T>): Prom
 }
 
 /**
- * Fetch tweets from a Twitter user using the Twitter API v2
- * @param username Twitter username without the @ symbol
- * @param maxResults Maximum number of tweets to fetch (max 100)
- * @returns Array of tweets
+ * Timeline options interface
  */
-export async function fetchUserTweets(username: string, maxResults: number = 100) {
-  try {
-    // Validate Twitter API key
-    if (!process.env.TWITTER_API_KEY) {
-      throw new Error('Twitter API key is not configured. Please set the TWITTER_API_KEY environment variable.');
-    }
-    
-    // Get user ID from username
-    const userId = await getUserIdFromUsername(username);
-    if (!userId) {
-      throw new Error(`Could not find user ID for username: ${username}. This may be due to an invalid Twitter API key or the username doesn't exist.`);
-    }
+export interface TimelineOptions {
+  sinceId?: string | null;    // Only tweets newer than this ID (forward sync)
+  untilId?: string | null;    // Only tweets older than this ID (backfill)
+  startTime?: Date | null;    // Only tweets posted at or after this time
+  maxTweets?: number;         // Stop paging once this many tweets were fetched
+  onPage?: (tweets: number) => void; // Called after each page is read, with the tweets it held, as the API bills them
+}
 
-    // Check cache for user tweets to reduce API calls
-    const cacheKey = `tweets_${userId}_${maxResults}`;
-    return getCachedOrFetch(cacheKey, async () => {
-      // Fetch tweets
-      const url = `${TWITTER_API_BASE}/users/${userId}/tweets`;
-      const params = new URLSearchParams({
-        max_results: Math.min(maxResults, 100).toString(), // Ensure we don't exceed API limit
-        'tweet.fields': 'created_at', // Removed public_metrics to focus on minimal data collection
-        exclude: 'retweets,replies'
-      });
+/**
+ * Tweet interface
+ */
+export interface TwitterTweet {
+  id: string;
+  text: string;
+  created_at: string;
+  url: string;
+  source?: PostSource;        // API response the tweet was read from
+}
 
-      const response = await rateLimitedFetch(`${url}?${params.toString()}`, {
-        headers: {
-          'Authorization': `Bearer ${process.env.TWITTER_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
+/**
+ * Twitter API error, as listed in the `errors` of a response
+ */
+interface TwitterApiError {
+  message?: string;
+  title?: string;
+}
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Twitter API error response:', errorData);
-        
-        if (errorData.errors && errorData.errors.length > 0) {
-          const errorMessage = errorData.errors.map((e: any) => e.message || e.title).join(', ');
-          throw new Error(`Twitter API error: ${errorMessage}`);
-        }
-        
-        throw new Error(`Twitter API error: ${response.status} ${response.statusText}`);
-      }
+/**
+ * Timeline interface
+ */
+export interface UserTimeline {
+  tweets: TwitterTweet[];
+  exhausted: boolean;         // Every page was read, so nothing matching the options was left out
+}
 
-      const data = await response.json();
+// The API returns between 5 and 100 tweets per page
+const MIN_PAGE_SIZE = 5;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Compare two tweet IDs
+ * IDs are numeric strings too large for numbers, so longer IDs are newer.
+ * @returns Negative if a is older than b, positive if newer, 0 if equal
+ */
+export function compareTweetIds(a: string, b: string): number {
+  return a.length !== b.length ? a.length - b.length : a.localeCompare(b);
+}
+
+/**
+ * Fetch a user's timeline, following pagination tokens
+ * Pages are read newest first until the API has no more or `maxTweets` is reached. No more than
+ * `maxTweets` tweets are returned, and after the first page no page is asked for that could read past
+ * the cap, so a capped fetch reads at most `max(maxTweets, MIN_PAGE_SIZE)` tweets.
+ * @param username Twitter username without the @ symbol
+ * @param options Since/until tweet IDs, earliest post time and a cap on the tweets fetched
+ */
+export async function fetchUserTimeline(username: string, options: TimelineOptions = {}): Promise<UserTimeline> {
+  // Validate Twitter API key
+  if (!process.env.TWITTER_API_KEY) {
+    throw new Error('Twitter API key is not configured. Please set the TWITTER_API_KEY environment variable.');
+  }
+  
+  // Get user ID from username
+  const userId = await getUserIdFromUsername(username);
+  if (!userId) {
+    throw new Error(`Could not find user ID for username: ${username}. This may be due to an invalid Twitter API key or the username doesn't exist.`);
+  }
+  
+  const maxTweets = options.maxTweets ?? Infinity;
+  const timeline: UserTimeline = { tweets: [], exhausted: false };
+  let paginationToken: string | null = null;
+  let truncated = false;
+  
+  do {
+    const params = new URLSearchParams({
+      max_results: String(Math.max(MIN_PAGE_SIZE, Math.min(MAX_PAGE_SIZE, maxTweets - timeline.tweets.length))),
+      'tweet.fields': 'created_at', // Removed public_metrics to focus on minimal data collection
+      exclude: 'retweets,replies'
+    });
+    if (options.sinceId) {
+      params.set('since_id', options.sinceId);
+    }
+    if (options.untilId) {
+      params.set('until_id', options.untilId);
+    }
+    if (options.startTime) {
+      params.set('start_time', options.startTime.toISOString());
+    }
+    if (paginationToken) {
+      params.set('pagination_token', paginationToken);
+    }
+    
+    const url = `${TWITTER_API_BASE}/users/${userId}/tweets?${params.toString()}`;
+    const fetchedAt = new Date();
+    const response = await rateLimitedFetch(url, {
+      headers: {
+        'Authorization': `Bearer ${process.env.TWITTER_API_KEY}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('Twitter API error response:', errorData);
       
-      if (!data.data) {
-        return [];
+      if (errorData.errors && errorData.errors.length > 0) {
+        const errorMessage = errorData.errors.map((e: TwitterApiError) => e.message || e.title).join(', ');
+        throw new Error(`Twitter API error: ${errorMessage}`);
       }
-
-      // Transform the data to our format - only include id, text, created_at, and generate tweet URL
-      return data.data.map((tweet: any) => ({
+      
+      throw new Error(`Twitter API error: ${response.status} ${response.statusText}`);
+    }
+    
+    // The response is kept with its tweets, so saving them can archive it
+    const payload = await response.text();
+    const data = JSON.parse(payload);
+    const source: PostSource = { url, fetchedAt, payload };
+    
+    // The first page is asked for at least MIN_PAGE_SIZE tweets, which may be more than the cap
+    const page: Array<{ id: string; text: string; created_at: string }> = data.data || [];
+    options.onPage?.(page.length);
+    const room = maxTweets - timeline.tweets.length;
+    truncated = page.length > room;
+    
+    // Transform the data to our format - only include id, text, created_at, and generate tweet URL
+    for (const tweet of page.slice(0, room)) {
+      timeline.tweets.push({
         id: tweet.id,
         text: tweet.text,
         created_at: tweet.created_at,
-        url: `https://twitter.com/${username}/status/${tweet.id}`
-      }));
+        url: `https://twitter.com/${username}/status/${tweet.id}`,
+        source
+      });
+    }
+    
+    paginationToken = data.meta?.next_token || null;
+  } while (paginationToken && maxTweets - timeline.tweets.length >= MIN_PAGE_SIZE);
+  
+  timeline.exhausted = paginationToken === null && !truncated;
+  return timeline;
+}
+
+/**
+ * Convert a tweet to the post shape shared with the other platforms
+ */
+function toSocialPost(tweet: TwitterTweet): SocialPost {
+  return { ...tweet, externalId: tweet.id };
+}
+
+/**
+ * Twitter provider
+ * Reads timelines through the rate-limited API v2 client of this module.
+ */
+export const twitterProvider: SocialSourceProvider = {
+  platform: SocialPlatform.TWITTER,
+  parserVersion: 'twitter-api/1',
+  compareIds: compareTweetIds,
+  
+  async fetchFeed(username, options = {}) {
+    const timeline = await fetchUserTimeline(username, {
+      sinceId: options.sinceId,
+      untilId: options.untilId,
+      startTime: options.startTime,
+      maxTweets: options.maxPosts,
+      onPage: options.onPage,
+    });
+    return { posts: timeline.tweets.map(toSocialPost), exhausted: timeline.exhausted };
+  },
+};
+
+// Providers of the other platforms, created on first use
+const providers = new Map<SocialPlatformValue, SocialSourceProvider>([[SocialPlatform.TWITTER, twitterProvider]]);
+
+/**
+ * Get the provider posts of a platform are fetched with
+ */
+export function getSocialProvider(platform: SocialPlatformValue): SocialSourceProvider {
+  let provider = providers.get(platform);
+  if (!provider) {
+    provider = platform === SocialPlatform.MASTODON ? createMastodonProvider() : createBlueskyProvider();
+    providers.set(platform, provider);
+  }
+  return provider;
+}
+
+/**
+ * Fetch tweets from a Twitter user using the Twitter API v2
+ * @param username Twitter username without the @ symbol
+ * @param maxResults Maximum number of tweets to fetch; more than 100 are fetched over several pages
+ * @param options Since/until tweet IDs and earliest post time
+ * @returns Array of tweets
+ */
+export async function fetchUserTweets(username: string, maxResults: number = 100, options: Omit<TimelineOptions, 'maxTweets'> = {}) {
+  try {
+    // Check cache for user tweets to reduce API calls
+    const cacheKey = `tweets_${username.toLowerCase()}_${maxResults}_${options.sinceId || ''}_${options.untilId || ''}_${options.startTime?.toISOString() || ''}`;
+    return await getCachedOrFetch(cacheKey, async () => {
+      const timeline = await fetchUserTimeline(username, { ...options, maxTweets: maxResults });
+      return timeline.tweets;
     });
   } catch (error) {
     console.error('Error fetching tweets:', error);
@@ -259,7 +412,7 @@ async function getUserIdFromUsername(username: string): Promise<string | null> {
           'Content-Type': 'application/json'
         }
       });
-  
+      
       if (!response.ok) {
         const errorData = await response.json();
         console.error('Twitter API error response for username lookup:', errorData);
@@ -276,13 +429,13 @@ async function getUserIdFromUsername(username: string): Promise<string | null> {
             }
           }
           
-          const errorMessage = errorData.errors.map((e: any) => e.message || e.title).join(', ');
+          const errorMessage = errorData.errors.map((e: TwitterApiError) => e.message || e.title).join(', ');
           throw new Error(`Twitter API error: ${errorMessage}`);
         }
         
         throw new Error(`Twitter API error: ${response.status} ${response.statusText}`);
       }
-  
+      
       const data = await response.json();
       return data.data?.id || null;
     } catch (error) {
@@ -292,6 +445,43 @@ async function getUserIdFromUsername(username: string): Promise<string | null> {
   });
 }
 
+/**
+ * Get the current username of a user ID using Twitter API v2
+ * User IDs survive renames, so this finds where a renamed account went.
+ * @param userId Twitter user ID
+ * @returns Username, or null if the user was not found
+ */
+async function getUsernameFromUserId(userId: string): Promise<string | null> {
+  const cacheKey = `twitter_username_${userId}`;
+  
+  return getCachedOrFetch(cacheKey, async () => {
+    try {
+      // Validate Twitter API key
+      if (!process.env.TWITTER_API_KEY) {
+        throw new Error('Twitter API key is not configured');
+      }
+      
+      const response = await rateLimitedFetch(`${TWITTER_API_BASE}/users/${encodeURIComponent(userId)}`, {
+        headers: {
+          'Authorization': `Bearer ${process.env.TWITTER_API_KEY}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Twitter API error: ${response.status} ${response.statusText}`);
+      }
+      
+      // Users that no longer exist come back with errors and no data
+      const data = await response.json();
+      return data.data?.username || null;
+    } catch (error) {
+      console.error(`Error getting username for user ID ${userId}:`, error);
+      return null;
+    }
+  });
+}
+
 /**
  * Get politicians with Twitter handles from the database
  * @returns Array of politicians with Twitter handles
@@ -324,85 +514,384 @@ export async function getPoliticiansWithTwitter() {
   });
 }
 
+/**
+ * Where a saved post came from: its archived response and the provenance record of the fetch
+ */
+interface PostOrigin {
+  archiveHash: string;
+  provenanceId: number;
+}
+
+/**
+ * Archive the API responses posts were read from and record each fetch as provenance
+ * Each response is archived and recorded once, however many of the posts it held.
+ * @param provider Provider the posts were fetched with; its platform and parser version are recorded
+ * @param handle Account the posts were fetched for, recorded as the archived source ID
+ * @returns Origin of each response
+ */
+async function recordPostSources(posts: SocialPost[], provider: SocialSourceProvider, handle: string | null): Promise<Map<PostSource, PostOrigin>> {
+  const origins = new Map<PostSource, PostOrigin>();
+  
+  for (const post of posts) {
+    if (!post.source || origins.has(post.source)) {
+      continue;
+    }
+    
+    const { url, fetchedAt, payload } = post.source;
+    const archiveHash = await archivePayload({
+      source: provider.platform,
+      sourceUrl: url,
+      externalId: handle,
+      payload,
+      contentType: 'application/json',
+      fetchedAt,
+    });
+    const provenanceId = await recordProvenance({
+      adapter: provider.platform,
+      sourceUrl: url,
+      fetchedAt,
+      parserVersion: provider.parserVersion,
+      archiveHash,
+    });
+    origins.set(post.source, { archiveHash, provenanceId });
+  }
+  
+  return origins;
+}
+
+/**
+ * Insert posts that are not stored yet
+ * @param client Client with an open transaction
+ * @param platform Platform the posts were made on
+ * @param origins Origin of each post's response, from recordPostSources
+ * @returns Number of posts inserted
+ */
+async function insertTweets(
+  client: PoolClient,
+  posts: SocialPost[],
+  politicianId: number,
+  platform: SocialPlatformValue,
+  origins: Map<PostSource, PostOrigin> = new Map()
+): Promise<number> {
+  if (posts.length === 0) {
+    return 0;
+  }
+  
+  const values = posts.map(post => {
+    const origin = post.source ? origins.get(post.source) : undefined;
+    return [
+      post.externalId,
+      platform,
+      politicianId,
+      post.text,
+      post.url || null,
+      new Date(post.created_at),
+      origin?.archiveHash ?? null,
+      origin?.provenanceId ?? null
+    ];
+  });
+  const placeholders = values.map((row, i) => 
+    `(${row.map((_, j) => `$${i * row.length + j + 1}`).join(', ')})`
+  ).join(', ');
+  
+  // Posts fetched before are left as they are
+  const result = await client.query(
+    `INSERT INTO tweets (external_id, platform, politician_id, content, url, posted_at, archive_hash, provenance_id)
+     VALUES ${placeholders}
+     ON CONFLICT (external_id) DO NOTHING`,
+    values.flat()
+  );
+  
+  return result.rowCount || 0;
+}
+
 /**
  * Save tweets to the database
  * @param tweetData Array of tweets
  * @param politicianId Politician ID
  * @returns Number of tweets saved
  */
-export async function saveTweetsToDatabase(tweetData: any[], politicianId: number) {
+export async function saveTweetsToDatabase(tweetData: TwitterTweet[], politicianId: number) {
   if (!tweetData || tweetData.length === 0) {
     return 0;
   }
   
   let client;
   try {
+    const posts = tweetData.map(toSocialPost);
+    const origins = await recordPostSources(posts, twitterProvider, null);
     client = await getClient();
     
     // Begin transaction for batch operation
     await client.query('BEGIN');
+    const savedCount = await insertTweets(client, posts, politicianId, SocialPlatform.TWITTER, origins);
+    await client.query('COMMIT');
     
-    let savedCount = 0;
-    
-    // Get existing tweet IDs to avoid unnecessary checks
-    const existingTweetsResult = await client.query(
-      'SELECT tweet_id FROM tweets WHERE politician_id = $1',
-      [politicianId]
-    );
-    
-    // Create a Set for O(1) lookups
-    const existingTweetIds = new Set(existingTweetsResult.rows.map(row => row.tweet_id));
+    // Clear relevant caches
+    cache.delete('recent_tweets_10');
+    cache.delete('tweet_stats');
     
-    // Prepare values for batch insert
-    const values = [];
-    const newTweetIds = [];
+    return savedCount;
+  } catch (error) {
+    if (client) await client.query('ROLLBACK');
+    console.error('Error saving tweets to database:', error);
+    throw error;
+  } finally {
+    if (client) client.release();
+  }
+}
+
+/**
+ * Tweet sync mode
+ * - forward: fetch posts newer than the newest one fetched so far
+ * - backfill: page back from the oldest one fetched so far until a date
+ */
+export type TweetSyncMode = 'forward' | 'backfill';
+
+/**
+ * Tweet sync options interface
+ */
+export interface TweetSyncOptions {
+  platform?: SocialPlatformValue; // Defaults to 'twitter'
+  mode?: TweetSyncMode;        // Defaults to 'forward'
+  backfillUntil?: Date | null; // Oldest post date a backfill reaches; the whole available timeline when not set
+  maxTweets?: number;          // Cap on the tweets fetched in one sync
+  onPage?: (posts: number) => void; // Called after each page is read, with the posts it held; reads count even if the sync then fails
+  dryRun?: boolean;            // Fetch as usual but save nothing; `saved` counts what would be inserted
+}
+
+/**
+ * Tweet sync result interface
+ */
+export interface TweetSyncResult {
+  politicianId: number;
+  platform: SocialPlatformValue;
+  mode: TweetSyncMode;
+  fetched: number;
+  saved: number;                // Posts inserted, or in a dry run those that would be
+  complete: boolean;            // Every page was read; false when the cap cut the sync short
+  newestTweetId: string | null;
+  oldestTweetId: string | null;
+  backfilledTo: Date | null;
+  gapSinceId: string | null;    // Bounds of the posts a capped forward sync left unread, if any
+  gapUntilId: string | null;
+}
+
+/**
+ * Get a politician's sync cursors on a platform
+ * @returns The cursors, or null if the politician's timeline was never synced
+ */
+export async function getTweetSyncCursor(politicianId: number, platform: SocialPlatformValue = SocialPlatform.TWITTER) {
+  try {
+    const result = await db
+      .select()
+      .from(tweetSyncCursors)
+      .where(and(eq(tweetSyncCursors.politicianId, politicianId), eq(tweetSyncCursors.platform, platform)))
+      .limit(1);
     
-    for (const tweet of tweetData) {
-      if (!existingTweetIds.has(tweet.id)) {
-        values.push([
-          tweet.id,
-          politicianId,
-          tweet.text,
-          new Date(tweet.created_at)
-        ]);
-        newTweetIds.push(tweet.id);
-      }
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Error fetching tweet sync cursor:', error);
+    throw new Error(`Failed to fetch tweet sync cursor of politician ${politicianId}`);
+  }
+}
+
+/**
+ * Sync a politician's posts on a platform, picking up where the last sync stopped
+ * Forward syncs ask for posts after the newest one fetched (`since_id`); backfills page back from the
+ * oldest one (`until_id`) down to `backfillUntil`. The posts, the moved cursors and, on Twitter,
+ * `lastTwitterSync` are saved in one transaction, so a failed save leaves the politician as it was and
+ * the next sync retries. A forward sync cut short by `maxTweets` still moves the newest cursor, and records
+ * the posts it left unread between the previous newest one and the oldest one fetched as a gap. The next
+ * forward sync pages down through the gap instead of asking for newer posts, until the gap is read.
+ * A dry run fetches the same posts and counts those not stored yet, without archiving, saving or moving cursors.
+ * @param politicianId Politician the posts belong to
+ * @param username Handle on the platform, without the leading @
+ * @param options Platform, sync mode, backfill date and cap on the posts fetched
+ */
+export async function syncUserTweets(politicianId: number, username: string, options: TweetSyncOptions = {}): Promise<TweetSyncResult> {
+  const platform = options.platform || SocialPlatform.TWITTER;
+  const provider = getSocialProvider(platform);
+  const mode = options.mode || 'forward';
+  const until = options.backfillUntil || null;
+  const cursor = await getTweetSyncCursor(politicianId, platform);
+  const result: TweetSyncResult = {
+    politicianId,
+    platform,
+    mode,
+    fetched: 0,
+    saved: 0,
+    complete: true,
+    newestTweetId: cursor?.newestTweetId ?? null,
+    oldestTweetId: cursor?.oldestTweetId ?? null,
+    backfilledTo: cursor?.backfilledTo ?? null,
+    gapSinceId: cursor?.gapSinceId ?? null,
+    gapUntilId: cursor?.gapUntilId ?? null,
+  };
+  
+  // A backfill that already reached the date has nothing left to fetch
+  if (mode === 'backfill' && result.backfilledTo && result.backfilledTo <= (until || new Date(0))) {
+    return result;
+  }
+  
+  // A gap left by a capped forward sync is read before any newer posts
+  const fillingGap = mode === 'forward' && result.gapSinceId !== null && result.gapUntilId !== null;
+  const sinceId = mode === 'forward' ? (fillingGap ? result.gapSinceId : result.newestTweetId) : null;
+  const untilId = mode === 'backfill' ? result.oldestTweetId : fillingGap ? result.gapUntilId : null;
+  const feed = await provider.fetchFeed(username, {
+    sinceId,
+    untilId,
+    startTime: mode === 'backfill' ? until : null,
+    maxPosts: options.maxTweets,
+    onPage: options.onPage,
+  });
+  
+  const ids = feed.posts.map(post => post.id).sort(provider.compareIds);
+  const fetchedOldest = ids.length > 0 ? ids[0] : null;
+  const fetchedNewest = ids.length > 0 ? ids[ids.length - 1] : null;
+  result.fetched = feed.posts.length;
+  result.complete = feed.exhausted;
+  
+  if (fillingGap) {
+    // The gap is read from the top down, so it shrinks to the posts below the oldest one fetched
+    if (feed.exhausted) {
+      result.gapSinceId = null;
+      result.gapUntilId = null;
+    } else if (fetchedOldest) {
+      result.gapUntilId = fetchedOldest;
     }
+  } else if (fetchedNewest && !untilId) {
+    // Syncs starting from the top of the timeline read it without gaps down to the oldest post fetched
+    if (!result.newestTweetId || provider.compareIds(fetchedNewest, result.newestTweetId) > 0) {
+      result.newestTweetId = fetchedNewest;
+    }
+    if (sinceId && !feed.exhausted) {
+      result.gapSinceId = sinceId;
+      result.gapUntilId = fetchedOldest;
+    }
+  }
+  if (fetchedOldest && !sinceId && (!result.oldestTweetId || provider.compareIds(fetchedOldest, result.oldestTweetId) < 0)) {
+    result.oldestTweetId = fetchedOldest;
+  }
+  if (mode === 'backfill' && feed.exhausted) {
+    result.backfilledTo = until || new Date(0);
+  }
+  
+  if (options.dryRun) {
+    result.saved = (await planTweetSave(feed.posts.map(post => ({ id: post.externalId })))).insert;
+    return result;
+  }
+  
+  let client;
+  try {
+    // Responses are archived and recorded before the transaction; a failed save still leaves a record of the fetch
+    const origins = await recordPostSources(feed.posts, provider, username);
+    client = await getClient();
+    await client.query('BEGIN');
     
-    // Batch insert if there are new tweets
-    if (values.length > 0) {
-      const placeholders = values.map((_, i) => 
-        `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4})`
-      ).join(', ');
-      
-      const flatValues = values.flat();
-      
-      await client.query(
-        `INSERT INTO tweets (tweet_id, politician_id, text, created_at)
-         VALUES ${placeholders}`,
-        flatValues
-      );
-      
-      savedCount = values.length;
+    result.saved = await insertTweets(client, feed.posts, politicianId, platform, origins);
+    await client.query(
+      `INSERT INTO tweet_sync_cursors (politician_id, platform, newest_tweet_id, oldest_tweet_id, backfilled_to, gap_since_id, gap_until_id, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+       ON CONFLICT (politician_id, platform) DO UPDATE SET
+         newest_tweet_id = excluded.newest_tweet_id,
+         oldest_tweet_id = excluded.oldest_tweet_id,
+         backfilled_to = excluded.backfilled_to,
+         gap_since_id = excluded.gap_since_id,
+         gap_until_id = excluded.gap_until_id,
+         updated_at = now()`,
+      [politicianId, platform, result.newestTweetId, result.oldestTweetId, result.backfilledTo, result.gapSinceId, result.gapUntilId]
+    );
+    if (platform === SocialPlatform.TWITTER) {
+      await client.query('UPDATE politicians SET last_twitter_sync = now() WHERE id = $1', [politicianId]);
     }
     
-    // Commit the transaction
     await client.query('COMMIT');
     
     // Clear relevant caches
     cache.delete('recent_tweets_10');
     cache.delete('tweet_stats');
     
-    return savedCount;
+    return result;
   } catch (error) {
     if (client) await client.query('ROLLBACK');
-    console.error('Error saving tweets to database:', error);
-    throw error;
+    console.error('Error saving synced posts:', error);
+    throw new Error(`Failed to save synced ${platform} posts of @${username}`);
   } finally {
     if (client) client.release();
   }
 }
 
+/**
+ * Sync the posts of every politician with an account on a platform
+ * A politician whose sync fails is reported and skipped; the rest are still synced.
+ * On Twitter, with a monthly read budget (`monthlyBudget`, or TWITTER_MONTHLY_READ_BUDGET) only the
+ * politicians the planner schedules are synced, and the run's reads are recorded against the month.
+ * Dry runs follow the same plan but are not recorded against the month.
+ * @param options Platform, sync mode, backfill date, cap on the posts fetched per politician and read budget
+ */
+export async function syncAllPoliticianTweets(options: TweetSyncOptions & { monthlyBudget?: number | null; runsPerDay?: number } = {}) {
+  const platform = options.platform || SocialPlatform.TWITTER;
+  const monthlyBudget = platform !== SocialPlatform.TWITTER
+    ? null
+    : options.monthlyBudget === undefined ? configuredMonthlyBudget() : options.monthlyBudget;
+  const maxTweets = options.maxTweets ?? MAX_PAGE_SIZE;
+  const plan = monthlyBudget
+    ? await planTweetRun({ monthlyBudget, runsPerDay: options.runsPerDay, maxTweetsPerPolitician: maxTweets })
+    : null;
+  const list = plan
+    ? plan.politicians.map(politician => ({ id: politician.id, name: politician.name, handle: politician.twitterHandle, planned: politician }))
+    : (await getPoliticianAccounts(platform)).map(account => ({ ...account, planned: null }));
+  const runId = plan && !options.dryRun ? await startTweetRun(plan) : null;
+  const results: Array<TweetSyncResult & { name: string; error?: string }> = [];
+  let spentReads = 0;
+  
+  for (const politician of list) {
+    // Stop before a sync could take the run over its allowance
+    const cap = plan && politician.planned ? pollCap(plan, politician.planned, spentReads) : options.maxTweets;
+    if (cap === 0) {
+      break;
+    }
+    
+    // Reads are counted as pages arrive, so a sync failing after some pages still has them recorded
+    let reads = 0;
+    const onPage = (posts: number) => {
+      reads += posts;
+    };
+    
+    try {
+      const result = await syncUserTweets(politician.id, politician.handle, { ...options, platform, maxTweets: cap, onPage });
+      results.push({ ...result, name: politician.name });
+    } catch (error) {
+      results.push({
+        politicianId: politician.id,
+        name: politician.name,
+        platform,
+        mode: options.mode || 'forward',
+        fetched: 0,
+        saved: 0,
+        complete: false,
+        newestTweetId: null,
+        oldestTweetId: null,
+        backfilledTo: null,
+        gapSinceId: null,
+        gapUntilId: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    
+    spentReads += reads;
+    if (runId !== null && reads > 0) {
+      await addTweetRunSpend(runId, reads);
+    }
+  }
+  
+  if (runId !== null) {
+    await finishTweetRun(runId);
+  }
+  return results;
+}
+
 /**
  * Get recent tweets from the database
  * @param limit Maximum number of tweets to return
@@ -419,7 +908,7 @@ export async function getRecentTweets(limit: number = 10) {
       // Use prepared statement for better security and performance
       // Updated to use new schema column names
       const query = `
-        SELECT t.id, t.external_id as tweet_id, t.politician_id, 
+        SELECT t.id, t.external_id as tweet_id, t.platform, t.politician_id, 
                p.name as politician_name, 
                t.content, t.posted_at as created_at,
                t.media_urls, t.metrics,
@@ -488,24 +977,35 @@ export async function getTweetStats() {
   });
 }
 
+/**
+ * Handle check detail interface
+ * Outcome of checking one politician's handle
+ */
+export interface HandleCheckDetail {
+  id: number;
+  name: string;
+  status: 'ok' | 'fixed' | 'renamed' | 'error';
+  original?: string;               // Handle as stored before the check
+  fixed?: string | null;           // Handle after cleanup or rename, if it changed
+  user_id?: string | null;
+  renamed_from?: string | null;
+  handle?: string;                 // Handle that could not be checked
+  error?: string;
+}
+
 /**
  * Check and fix Twitter handles in the database
- * This function checks all politicians with Twitter handles and attempts to fix any issues
+ * This function checks all politicians with Twitter handles and attempts to fix any issues.
+ * Each handle is recorded in social_accounts. With an API key, handles are resolved to their stable
+ * user IDs: when a stored user ID now goes by another handle, the account was renamed, so the old
+ * handle is closed and the new one becomes current.
  * @returns Results of the check and fix operation
  */
 export async function checkAndFixTwitterHandles() {
   let client;
+  let politiciansRows: Array<{ id: number; name: string; twitter_handle: string }>;
   try {
     client = await getClient();
-    const results = {
-      total: 0,
-      fixed: 0,
-      errors: 0,
-      details: [] as any[]
-    };
-    
-    // Begin transaction
-    await client.query('BEGIN');
     
     // Get all politicians with Twitter handles
     const politiciansResult = await client.query(`
@@ -513,105 +1013,119 @@ export async function checkAndFixTwitterHandles() {
       FROM politicians
       WHERE twitter_handle IS NOT NULL
     `);
-    
-    results.total = politiciansResult.rows.length;
-    
-    // Batch updates for better performance
-    const updates = [];
-    
-    // Process each politician
-    for (const politician of politiciansResult.rows) {
-      try {
-        let twitterHandle = politician.twitter_handle;
-        let fixed = false;
-        let originalHandle = twitterHandle;
-        
-        // Extract handle from URL if needed
-        if (twitterHandle.includes('twitter.com/')) {
-          twitterHandle = twitterHandle.split('twitter.com/').pop() || '';
-          fixed = true;
-        }
-        if (twitterHandle.includes('x.com/')) {
-          twitterHandle = twitterHandle.split('x.com/').pop() || '';
-          fixed = true;
-        }
-        
-        // Remove any trailing slash or parameters
-        if (twitterHandle.includes('/') || twitterHandle.includes('?')) {
-          twitterHandle = twitterHandle.split('/')[0];
-          twitterHandle = twitterHandle.split('?')[0];
-          fixed = true;
-        }
-        
-        // Remove @ if present
-        if (twitterHandle.startsWith('@')) {
-          twitterHandle = twitterHandle.substring(1);
-          fixed = true;
-        }
-        
-        // Trim whitespace
-        if (twitterHandle !== twitterHandle.trim()) {
-          twitterHandle = twitterHandle.trim();
-          fixed = true;
-        }
-        
-        // Add to batch update if fixed
-        if (fixed && twitterHandle) {
-          updates.push({
-            id: politician.id,
-            handle: twitterHandle,
-            original: originalHandle
-          });
-        }
-        
-        results.details.push({
-          id: politician.id,
-          name: politician.name,
-          original: originalHandle,
-          fixed: fixed ? twitterHandle : null,
-          status: fixed ? 'fixed' : 'ok'
-        });
-      } catch (error) {
-        console.error(`Error fixing Twitter handle for politician ${politician.name}:`, error);
-        results.errors++;
-        results.details.push({
-          id: politician.id,
-          name: politician.name,
-          handle: politician.twitter_handle,
-          status: 'error',
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
-    
-    // Perform batch update if there are fixes
-    if (updates.length > 0) {
-      const placeholders = updates.map((_, i) => `($${i * 2 + 1}, $${i * 2 + 2})`).join(', ');
-      const params = updates.flatMap(u => [u.id, u.handle]);
-      
-      await client.query(
-        `UPDATE politicians AS p
-         SET twitter_handle = c.handle
-         FROM (VALUES ${placeholders}) AS c(id, handle)
-         WHERE p.id = c.id::integer`,
-        params
-      );
-      
-      results.fixed = updates.length;
-    }
-    
-    // Commit transaction
-    await client.query('COMMIT');
-    
-    // Invalidate cache
-    cache.delete('politicians_with_twitter');
-    
-    return results;
+    politiciansRows = politiciansResult.rows;
   } catch (error) {
-    if (client) await client.query('ROLLBACK');
     console.error('Error checking and fixing Twitter handles:', error);
     throw error;
   } finally {
     if (client) client.release();
   }
+  
+  const results = {
+    total: politiciansRows.length,
+    fixed: 0,
+    renamed: 0,
+    errors: 0,
+    details: [] as HandleCheckDetail[]
+  };
+  const resolveIds = !!process.env.TWITTER_API_KEY;
+  
+  // Process each politician
+  for (const politician of politiciansRows) {
+    try {
+      let twitterHandle = politician.twitter_handle;
+      let fixed = false;
+      const originalHandle = twitterHandle;
+      
+      // Extract handle from URL if needed
+      if (twitterHandle.includes('twitter.com/')) {
+        twitterHandle = twitterHandle.split('twitter.com/').pop() || '';
+        fixed = true;
+      }
+      if (twitterHandle.includes('x.com/')) {
+        twitterHandle = twitterHandle.split('x.com/').pop() || '';
+        fixed = true;
+      }
+      
+      // Remove any trailing slash or parameters
+      if (twitterHandle.includes('/') || twitterHandle.includes('?')) {
+        twitterHandle = twitterHandle.split('/')[0];
+        twitterHandle = twitterHandle.split('?')[0];
+        fixed = true;
+      }
+      
+      // Remove @ if present
+      if (twitterHandle.startsWith('@')) {
+        twitterHandle = twitterHandle.substring(1);
+        fixed = true;
+      }
+      
+      // Trim whitespace
+      if (twitterHandle !== twitterHandle.trim()) {
+        twitterHandle = twitterHandle.trim();
+        fixed = true;
+      }
+      
+      if (!twitterHandle) {
+        throw new Error(`Handle "${originalHandle}" holds no username`);
+      }
+      
+      // Follow the stored user ID if the handle no longer leads to it
+      const accounts = await getSocialAccounts(politician.id, SocialPlatform.TWITTER, false);
+      const stored = accounts.find(account => handleKey(SocialPlatform.TWITTER, account.handle) === handleKey(SocialPlatform.TWITTER, twitterHandle));
+      let userId = stored?.platformUserId || null;
+      if (resolveIds) {
+        const resolvedId = await getUserIdFromUsername(twitterHandle);
+        if (userId && resolvedId !== userId) {
+          const currentUsername = await getUsernameFromUserId(userId);
+          if (currentUsername) {
+            twitterHandle = currentUsername;
+          }
+        } else {
+          userId = resolvedId || userId;
+        }
+      }
+      
+      // Record the account and point twitter_handle at it in one transaction
+      const { change, previousHandle } = await db.transaction(tx => recordSocialAccount({
+        politicianId: politician.id,
+        platform: SocialPlatform.TWITTER,
+        handle: twitterHandle,
+        platformUserId: userId,
+        source: 'handle_check',
+      }, tx));
+      
+      const renamed = change === 'renamed';
+      if (renamed) {
+        results.renamed++;
+      } else if (fixed) {
+        results.fixed++;
+      }
+      
+      results.details.push({
+        id: politician.id,
+        name: politician.name,
+        original: originalHandle,
+        fixed: fixed || renamed ? twitterHandle : null,
+        user_id: userId,
+        renamed_from: renamed ? previousHandle : null,
+        status: renamed ? 'renamed' : fixed ? 'fixed' : 'ok'
+      });
+    } catch (error) {
+      console.error(`Error fixing Twitter handle for politician ${politician.name}:`, error);
+      results.errors++;
+      results.details.push({
+        id: politician.id,
+        name: politician.name,
+        handle: politician.twitter_handle,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  // Invalidate cache
+  cache.delete('politicians_with_twitter');
+  
+  return results;
 } 
\ No newline at end of file
@@ -6,9 +6,14 @@
  * and managing the scraping process.
  */
 
-import { db } from '../drizzle/db';
-import { tweets, politicians } from '../drizzle/schema';
+import { db } from '../src/db/config';
+import { tweets, politicians, provenanceRecords, SocialPlatform } from '../src/db/schema';
 import { eq, desc, sql } from 'drizzle-orm';
+import { provenanceColumns, RowProvenance } from './provenance';
+import { fetchRateLimits, EndpointRateLimit } from './rate-limits';
+import { recordSocialAccount } from './social-accounts';
+import { configuredMonthlyBudget, planTweetRun, pollCap, startTweetRun, addTweetRunSpend, finishTweetRun } from './tweet-budget';
+import { fetchUserTimeline, saveTweetsToDatabase as saveTimelineTweets, syncUserTweets, TwitterTweet } from './twitter-api';
 
 /**
  * Politician interface
@@ -23,14 +28,15 @@ export interface Politician {
  * Tweet interface
  */
 export interface Tweet {
-  id: string;
-  tweet_id?: string;
+  id: number;
+  tweet_id: string;
   politician_id: number;
-  politician_name?: string;
+  politician_name: string | null;
   content: string;
-  url?: string;
-  posted_at?: string;
-  created_at: string;
+  url: string | null;
+  posted_at: Date;
+  created_at: Date | null;
+  provenance: RowProvenance | null;
 }
 
 /**
@@ -51,6 +57,15 @@ export interface FetchResults {
     error?: string;
   }[];
   rateLimited: boolean;
+  dryRun: boolean;  // Counts are what saving would have done; nothing was written
+  budget?: {        // Present when the run was planned against a monthly read budget
+    month: string;
+    monthlyBudget: number;
+    allowance: number;
+    plannedReads: number;
+    spentReads: number;
+    deferred: number; // Politicians left for later runs
+  };
 }
 
 /**
@@ -73,6 +88,7 @@ export interface TwitterStats {
   total_tweets: number;
   politicians_with_tweets: number;
   latest_tweet: string;
+  rate_limits: EndpointRateLimit[]; // Quota left per API endpoint, shared by every process
 }
 
 /**
@@ -84,12 +100,12 @@ export async function fetchPoliticiansWithTwitter(): Promise<Politician[]> {
       .select({
         id: politicians.id,
         name: politicians.name,
-        twitter: politicians.twitter,
+        twitter: politicians.twitterHandle,
       })
       .from(politicians)
-      .where(sql`${politicians.twitter} IS NOT NULL AND ${politicians.twitter} != ''`);
+      .where(sql`${politicians.twitterHandle} IS NOT NULL AND ${politicians.twitterHandle} != ''`);
     
-    return politiciansWithTwitter;
+    return politiciansWithTwitter.map(politician => ({ ...politician, twitter: politician.twitter as string }));
   } catch (error) {
     console.error('Error fetching politicians with Twitter handles:', error);
     throw new Error('Failed to fetch politicians with Twitter handles');
@@ -104,17 +120,19 @@ export async function fetchRecentTweets(limit: number = 10): Promise<Tweet[]> {
     const recentTweets = await db
       .select({
         id: tweets.id,
-        tweet_id: tweets.tweet_id,
-        politician_id: tweets.politician_id,
+        tweet_id: tweets.externalId,
+        politician_id: tweets.politicianId,
         politician_name: politicians.name,
         content: tweets.content,
         url: tweets.url,
-        posted_at: tweets.posted_at,
-        created_at: tweets.created_at,
+        posted_at: tweets.postedAt,
+        created_at: tweets.createdAt,
+        provenance: provenanceColumns(),
       })
       .from(tweets)
-      .leftJoin(politicians, eq(tweets.politician_id, politicians.id))
-      .orderBy(desc(tweets.created_at))
+      .leftJoin(politicians, eq(tweets.politicianId, politicians.id))
+      .leftJoin(provenanceRecords, eq(tweets.provenanceId, provenanceRecords.id))
+      .orderBy(desc(tweets.createdAt))
       .limit(limit);
     
     return recentTweets;
@@ -136,18 +154,19 @@ export async function fetchTwitterStats(): Promise<TwitterStats> {
     
     // Get count of politicians with tweets
     const politiciansWithTweetsResult = await db
-      .select({ count: sql<number>`count(distinct ${tweets.politician_id})` })
+      .select({ count: sql<number>`count(distinct ${tweets.politicianId})` })
       .from(tweets);
     
     // Get latest tweet date
     const latestTweetResult = await db
-      .select({ latest: sql<string>`max(${tweets.posted_at})` })
+      .select({ latest: sql<string>`max(${tweets.postedAt})` })
       .from(tweets);
     
     return {
       total_tweets: totalTweetsResult[0]?.count || 0,
       politicians_with_tweets: politiciansWithTweetsResult[0]?.count || 0,
       latest_tweet: latestTweetResult[0]?.latest || new Date().toISOString(),
+      rate_limits: await fetchRateLimits('twitter'),
     };
   } catch (error) {
     console.error('Error fetching Twitter statistics:', error);
@@ -157,27 +176,23 @@ export async function fetchTwitterStats(): Promise<TwitterStats> {
 
 /**
  * Fetch tweets from Twitter API
- * This is a placeholder for the actual Twitter API integration
+ * Tweets are read through the rate-limited client in twitter-api.ts. Nothing is written here: each tweet
+ * keeps the response it came from, which is archived when the tweet is saved.
  */
-export async function fetchUserTweets(twitterHandle: string, maxTweets: number = 100): Promise<any[]> {
-  // This would be replaced with actual Twitter API calls
-  // For now, we'll just return a mock response
+export async function fetchUserTweets(twitterHandle: string, maxTweets: number = 100): Promise<TwitterTweet[]> {
   console.log(`Fetching up to ${maxTweets} tweets for @${twitterHandle}`);
   
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Return mock data
-  return [];
+  const timeline = await fetchUserTimeline(twitterHandle, { maxTweets });
+  return timeline.tweets;
 }
 
 /**
  * Save tweets to database
+ * Tweets already stored are skipped; the responses of new ones are archived and their hash kept with them.
+ * @returns Number of tweets inserted
  */
-export async function saveTweetsToDatabase(tweets: any[], politicianId: number): Promise<number> {
-  // This would save tweets to the database
-  // For now, we'll just return a mock count
-  return tweets.length;
+export async function saveTweetsToDatabase(tweets: TwitterTweet[], politicianId: number): Promise<number> {
+  return saveTimelineTweets(tweets, politicianId);
 }
 
 /**
@@ -225,12 +240,14 @@ export async function checkAndFixTwitterHandles(): Promise<any> {
       
       twitterHandle = twitterHandle.trim();
       
-      // If handle was fixed, update in database
+      // If handle was fixed, correct the account, which updates the politician's handle too
       if (fixed && twitterHandle !== originalHandle) {
-        await db
-          .update(politicians)
-          .set({ twitter: twitterHandle })
-          .where(eq(politicians.id, politician.id));
+        await recordSocialAccount({
+          politicianId: politician.id,
+          platform: SocialPlatform.TWITTER,
+          handle: twitterHandle,
+          source: 'handle_check',
+        });
         
         results.fixed++;
         results.details.push({
@@ -260,11 +277,14 @@ export async function updateTwitterHandle(politicianId: number, twitterHandle: s
       cleanHandle = cleanHandle.substring(1);
     }
     
-    // Update in database
-    await db
-      .update(politicians)
-      .set({ twitter: cleanHandle })
-      .where(eq(politicians.id, politicianId));
+    // Open an account for the new handle and close the one it replaces, keeping the old handle in the history
+    await recordSocialAccount({
+      politicianId,
+      platform: SocialPlatform.TWITTER,
+      handle: cleanHandle,
+      source: 'manual',
+      replace: true,
+    });
     
     return true;
   } catch (error) {
@@ -275,23 +295,68 @@ export async function updateTwitterHandle(politicianId: number, twitterHandle: s
 
 /**
  * Fetch tweets for all politicians with Twitter handles
+ * Each politician is synced with syncUserTweets, so only tweets newer than the sync cursor are read and
+ * `lastTwitterSync`, which the budget planner ranks by, moves with every saved poll.
+ * With `dryRun` the tweets are fetched as usual, but each politician's details count the tweets
+ * saving would insert and skip instead of saving them.
+ * With a monthly read budget (`monthlyBudget`, or TWITTER_MONTHLY_READ_BUDGET) only the politicians
+ * the planner schedules are polled, in its order, and the run's reads are recorded against the month.
  */
-export async function fetchTweetsForAllPoliticians(maxTweetsPerPolitician: number = 100): Promise<FetchResults> {
+export async function fetchTweetsForAllPoliticians(
+  maxTweetsPerPolitician: number = 100,
+  options: { dryRun?: boolean; monthlyBudget?: number | null; runsPerDay?: number } = {}
+): Promise<FetchResults> {
+  const dryRun = options.dryRun ?? false;
+  const monthlyBudget = options.monthlyBudget === undefined ? configuredMonthlyBudget() : options.monthlyBudget;
+  let runId: number | null = null;
+  
   try {
-    // Get all politicians with Twitter handles
-    const politicians = await fetchPoliticiansWithTwitter();
+    // Get the politicians the budget allows, or all politicians with Twitter handles
+    const plan = monthlyBudget
+      ? await planTweetRun({ monthlyBudget, runsPerDay: options.runsPerDay, maxTweetsPerPolitician })
+      : null;
+    const politicians = plan
+      ? plan.politicians.map(politician => ({ id: politician.id, name: politician.name, twitter: politician.twitterHandle, planned: politician }))
+      : (await fetchPoliticiansWithTwitter()).map(politician => ({ ...politician, planned: null }));
     
     const results: FetchResults = {
-      totalPoliticians: politicians.length,
+      totalPoliticians: plan ? plan.politicians.length + plan.deferred : politicians.length,
       processedPoliticians: 0,
       totalNewTweets: 0,
       totalSkippedTweets: 0,
       details: [],
       rateLimited: false,
+      dryRun,
     };
+    if (plan) {
+      results.budget = {
+        month: plan.month,
+        monthlyBudget: plan.monthlyBudget,
+        allowance: plan.allowance,
+        plannedReads: plan.plannedReads,
+        spentReads: 0,
+        deferred: plan.deferred,
+      };
+      
+      // Dry runs only show the plan, so they are not counted against the month
+      if (!dryRun) {
+        runId = await startTweetRun(plan);
+      }
+    }
     
     // Process each politician
     for (const politician of politicians) {
+      // Stop before a poll could take the run over its allowance
+      const maxTweets = plan && results.budget && politician.planned
+        ? pollCap(plan, politician.planned, results.budget.spentReads)
+        : maxTweetsPerPolitician;
+      if (maxTweets === 0) {
+        break;
+      }
+      
+      // Reads are counted as pages arrive, so a poll failing after some pages still has them recorded
+      let reads = 0;
+      
       try {
         // Extract Twitter handle
         let twitterHandle = politician.twitter;
@@ -316,24 +381,27 @@ export async function fetchTweetsForAllPoliticians(maxTweetsPerPolitician: numbe
           throw new Error('Could not extract valid Twitter handle');
         }
         
-        // Fetch tweets
-        const tweets = await fetchUserTweets(twitterHandle, maxTweetsPerPolitician);
-        
-        // Save tweets to database
-        const savedCount = await saveTweetsToDatabase(tweets, politician.id);
+        // Fetch the tweets posted since the last sync and save them, or only count what would be saved
+        const sync = await syncUserTweets(politician.id, twitterHandle, {
+          maxTweets,
+          dryRun,
+          onPage: posts => {
+            reads += posts;
+          },
+        });
         
         // Update results
         results.processedPoliticians++;
-        results.totalNewTweets += savedCount;
-        results.totalSkippedTweets += (tweets.length - savedCount);
+        results.totalNewTweets += sync.saved;
+        results.totalSkippedTweets += (sync.fetched - sync.saved);
         
         results.details.push({
           politicianId: politician.id,
           name: politician.name,
           twitterHandle,
-          newTweets: savedCount,
-          skippedTweets: tweets.length - savedCount,
-          totalTweets: tweets.length,
+          newTweets: sync.saved,
+          skippedTweets: sync.fetched - sync.saved,
+          totalTweets: sync.fetched,
         });
       } catch (error: any) {
         // Check for rate limiting
@@ -352,11 +420,22 @@ export async function fetchTweetsForAllPoliticians(maxTweetsPerPolitician: numbe
           error: error.message,
         });
       }
+      
+      if (results.budget) {
+        results.budget.spentReads += reads;
+      }
+      if (runId !== null && reads > 0) {
+        await addTweetRunSpend(runId, reads);
+      }
     }
     
     return results;
   } catch (error) {
     console.error('Error fetching tweets for all politicians:', error);
     throw new Error('Failed to fetch tweets for all politicians');
+  } finally {
+    if (runId !== null) {
+      await finishTweetRun(runId).catch(() => undefined);
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * Vote Codes Module
+ *
+ * This module maps the vote codes published by each source to VoteType values.
+ * psp.cz uses one set of symbols on its voting pages and another in the open data
+ * dumps, senat.cz a third and the European Parliament a fourth; all are listed here so every importer stores the same vote model.
+ */
+
+import { VoteType } from '../src/db/schema';
+
+/**
+ * Vote type value
+ */
+export type VoteTypeValue = typeof VoteType[keyof typeof VoteType];
+
+/**
+ * Vote code definition interface
+ */
+export interface VoteCodeDefinition {
+  voteType: VoteTypeValue | null;  // null for codes that do not count as a vote
+  label: string;                   // Meaning of the code as published by the source
+}
+
+/**
+ * Vote code sources
+ */
+export const VoteCodeSource = {
+  PSP_PAGE: 'psp',             // Symbols on hlasy.sqw voting pages
+  PSP_OPEN_DATA: 'open_data',  // Codes in hl_poslanec (hlYYYYh*.unl)
+  SENATE_PAGE: 'senat',        // Symbols on senat.cz roll-call pages
+  EUROPARL_XML: 'ep',          // Result lists in European Parliament roll-call XML
+} as const;
+
+export type VoteCodeSourceValue = typeof VoteCodeSource[keyof typeof VoteCodeSource];
+
+// Every allowed value of votes.vote, in the order used by the database check
+export const VOTE_TYPE_VALUES = Object.values(VoteType) as VoteTypeValue[];
+
+/**
+ * Vote codes per source
+ */
+export const VOTE_CODES: Record<VoteCodeSourceValue, Record<string, VoteCodeDefinition>> = {
+  [VoteCodeSource.PSP_PAGE]: {
+    'A': { voteType: VoteType.YES, label: 'ano' },
+    'N': { voteType: VoteType.NO, label: 'ne' },
+    'Z': { voteType: VoteType.ABSTAIN, label: 'zdržel se' },
+    'X': { voteType: VoteType.NOT_VOTING, label: 'přihlášen, nehlasoval' },
+    '0': { voteType: VoteType.ABSENT, label: 'nepřihlášen' },
+    'M': { voteType: VoteType.EXCUSED, label: 'omluven' },
+  },
+  [VoteCodeSource.PSP_OPEN_DATA]: {
+    'A': { voteType: VoteType.YES, label: 'ano' },
+    'B': { voteType: VoteType.NO, label: 'ne' },
+    'N': { voteType: VoteType.NO, label: 'ne' },
+    'C': { voteType: VoteType.NOT_VOTING, label: 'přihlášen, ale nestiskl tlačítko' },
+    'F': { voteType: VoteType.ABSTAIN, label: 'zdržel se' },
+    'K': { voteType: VoteType.ABSTAIN_OR_NOT_VOTING, label: 'zdržel se / nehlasoval' },
+    '@': { voteType: VoteType.ABSENT, label: 'nepřihlášen' },
+    'M': { voteType: VoteType.EXCUSED, label: 'omluven' },
+    'W': { voteType: null, label: 'hlasování před složením slibu' },
+  },
+  // X means an abstention in the Senate, unlike on psp.cz pages
+  [VoteCodeSource.SENATE_PAGE]: {
+    'A': { voteType: VoteType.YES, label: 'ano' },
+    'N': { voteType: VoteType.NO, label: 'ne' },
+    'X': { voteType: VoteType.ABSTAIN, label: 'zdržel se' },
+    '0': { voteType: VoteType.ABSENT, label: 'nepřítomen' },
+    'M': { voteType: VoteType.EXCUSED, label: 'omluven' },
+  },
+  // The XML lists only members who voted, under Result.For, Result.Against and Result.Abstention
+  [VoteCodeSource.EUROPARL_XML]: {
+    '+': { voteType: VoteType.YES, label: 'for' },
+    '-': { voteType: VoteType.NO, label: 'against' },
+    '0': { voteType: VoteType.ABSTAIN, label: 'abstention' },
+  },
+};
+
+/**
+ * Map a source vote code to a VoteType value
+ * @param source Source the code comes from
+ * @param code Vote code as published
+ * @returns VoteType value, or null for unknown codes and codes that do not count as a vote
+ */
+export function mapVoteCode(source: VoteCodeSourceValue, code: string): VoteTypeValue | null {
+  return VOTE_CODES[source][code.trim().toUpperCase()]?.voteType ?? null;
+}
+
+/**
+ * Check whether a value is an allowed vote type
+ */
+export function isVoteType(value: string): value is VoteTypeValue {
+  return (VOTE_TYPE_VALUES as string[]).includes(value);
+}
@@ -0,0 +1,318 @@
+/**
+ * Vote Integrity Module
+ *
+ * This module checks that the per-MP vote rows of a session add up to the totals
+ * printed on the source page (stored in `result_summary`) and to the stored `vote_count`.
+ * Flagged sessions can be repaired (counts recomputed from the rows) or re-scraped.
+ */
+
+import { db } from '../src/db/config';
+import { votingSessions, votes, electoralTerms, systemLogs, VoteType, ResultSummary, Chamber } from '../src/db/schema';
+import { and, asc, eq, sql, SQL } from 'drizzle-orm';
+import { requireTerm } from './terms';
+import { chamberScope, ChamberValue } from './chambers';
+import { recountSessionVotes, scrapeVotes, ScraperConfig, ScrapeOptions, ScrapeResults } from './vote-scraper';
+import { getVoteSource, VoteSourceAdapter } from './vote-sources';
+
+/**
+ * Vote totals interface
+ * Grouped like the totals on the source page: excused members count as absent
+ * and undistinguished abstentions as abstaining.
+ */
+export interface VoteTotals {
+  yes: number;
+  no: number;
+  abstain: number;
+  notVoting: number;
+  absent: number;
+  total: number;
+}
+
+/**
+ * Integrity issue interface
+ * One entry per session whose stored totals disagree with its vote rows
+ */
+export interface IntegrityIssue {
+  sessionId: number;
+  externalId: string | null;
+  chamber: ChamberValue;
+  date: string;
+  problems: string[];
+  stored: {
+    voteCount: number | null;
+    resultSummary: ResultSummary | null;
+  };
+  computed: VoteTotals;
+}
+
+/**
+ * Integrity check options interface
+ */
+export interface IntegrityCheckOptions {
+  from?: number;       // First source ID (g) to check
+  to?: number;         // Last source ID (g) to check
+  term?: number | null; // Only check sessions of this electoral term
+  limit?: number;      // Maximum number of sessions to check
+  externalId?: string; // Only check the session with this source ID
+  chamber?: ChamberValue | null; // Only check sessions of this chamber; the term number is looked up in it
+}
+
+/**
+ * Integrity report interface
+ */
+export interface IntegrityReport {
+  checked: number;
+  issues: IntegrityIssue[];
+}
+
+// Totals printed on the page, paired with the vote rows they should match
+const SUMMARY_FIELDS: Array<{ field: keyof ResultSummary; computed: keyof VoteTotals }> = [
+  { field: 'yes', computed: 'yes' },
+  { field: 'no', computed: 'no' },
+  { field: 'abstain', computed: 'abstain' },
+  { field: 'notVoting', computed: 'notVoting' },
+  { field: 'absent', computed: 'absent' },
+];
+
+/**
+ * Count the votes of the given types within the grouped session
+ */
+function countVotes(...types: string[]): SQL<string> {
+  return sql<string>`count(${votes.id}) FILTER (WHERE ${votes.vote} IN (${sql.join(types.map(type => sql`${type}`), sql`, `)}))`;
+}
+
+/**
+ * Compare stored totals of a session with its recomputed totals
+ * @returns Descriptions of every mismatch, empty when the session is consistent
+ */
+export function compareTotals(
+  voteCount: number | null,
+  resultSummary: ResultSummary | null,
+  computed: VoteTotals
+): string[] {
+  const problems: string[] = [];
+  
+  if ((voteCount ?? 0) !== computed.total) {
+    problems.push(`vote_count is ${voteCount ?? 0}, but ${computed.total} votes are stored`);
+  }
+  
+  if (resultSummary) {
+    for (const { field, computed: key } of SUMMARY_FIELDS) {
+      const expected = resultSummary[field];
+      if (expected !== null && expected !== undefined && expected !== computed[key]) {
+        problems.push(`${field} is ${expected} on the source page, but ${computed[key]} votes are stored`);
+      }
+    }
+  }
+  
+  return problems;
+}
+
+/**
+ * Write flagged sessions to system_logs
+ */
+async function logIntegrityIssues(issues: IntegrityIssue[]): Promise<void> {
+  if (issues.length === 0) {
+    return;
+  }
+  
+  try {
+    await db.insert(systemLogs).values(issues.map(issue => ({
+      type: 'vote_integrity',
+      status: 'mismatch',
+      message: `Session ${issue.externalId ?? `#${issue.sessionId}`}: ${issue.problems.join('; ')}`,
+      details: issue,
+    })));
+  } catch (error) {
+    console.error('Error logging vote integrity issues:', error);
+  }
+}
+
+/**
+ * Recompute vote totals of sessions and flag the ones that disagree with stored totals
+ * @param options Range, term and limit of sessions to check
+ * @returns Number of sessions checked and the flagged sessions
+ */
+export async function verifySessions(options: IntegrityCheckOptions = {}): Promise<IntegrityReport> {
+  const term = await requireTerm(options.term, options.chamber ?? Chamber.DEPUTIES);
+  
+  try {
+    const conditions: SQL[] = [];
+    
+    const chamber = chamberScope(options.chamber);
+    if (chamber) {
+      conditions.push(chamber);
+    }
+    
+    if (options.from !== undefined || options.to !== undefined) {
+      const from = options.from ?? 0;
+      const to = options.to ?? Number.MAX_SAFE_INTEGER;
+      // Sessions imported from other sources may carry non-numeric IDs
+      conditions.push(sql`(CASE WHEN ${votingSessions.externalId} ~ '^[0-9]+$' THEN ${votingSessions.externalId}::bigint END) BETWEEN ${Math.min(from, to)} AND ${Math.max(from, to)}`);
+    }
+    
+    if (options.externalId !== undefined) {
+      conditions.push(eq(votingSessions.externalId, options.externalId));
+    }
+    
+    if (term) {
+      conditions.push(eq(electoralTerms.id, term.id));
+    }
+    
+    const query = db
+      .select({
+        sessionId: votingSessions.id,
+        externalId: votingSessions.externalId,
+        chamber: votingSessions.chamber,
+        date: votingSessions.date,
+        voteCount: votingSessions.voteCount,
+        resultSummary: votingSessions.resultSummary,
+        yes: countVotes(VoteType.YES),
+        no: countVotes(VoteType.NO),
+        abstain: countVotes(VoteType.ABSTAIN, VoteType.ABSTAIN_OR_NOT_VOTING),
+        notVoting: countVotes(VoteType.NOT_VOTING),
+        absent: countVotes(VoteType.ABSENT, VoteType.EXCUSED),
+        total: sql<string>`count(${votes.id})`,
+      })
+      .from(votingSessions)
+      .leftJoin(votes, eq(votes.sessionId, votingSessions.id))
+      .leftJoin(electoralTerms, eq(votingSessions.termId, electoralTerms.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(votingSessions.id)
+      .orderBy(asc(votingSessions.date), asc(votingSessions.id));
+    
+    const rows = options.limit ? await query.limit(options.limit) : await query;
+    
+    const issues: IntegrityIssue[] = [];
+    for (const row of rows) {
+      const computed: VoteTotals = {
+        yes: Number(row.yes),
+        no: Number(row.no),
+        abstain: Number(row.abstain),
+        notVoting: Number(row.notVoting),
+        absent: Number(row.absent),
+        total: Number(row.total),
+      };
+      
+      const problems = compareTotals(row.voteCount, row.resultSummary, computed);
+      if (problems.length > 0) {
+        issues.push({
+          sessionId: row.sessionId,
+          externalId: row.externalId,
+          chamber: row.chamber as ChamberValue,
+          date: row.date,
+          problems,
+          stored: { voteCount: row.voteCount, resultSummary: row.resultSummary },
+          computed,
+        });
+      }
+    }
+    
+    await logIntegrityIssues(issues);
+    
+    return { checked: rows.length, issues };
+  } catch (error) {
+    console.error('Error verifying voting sessions:', error);
+    throw new Error('Failed to verify voting sessions');
+  }
+}
+
+/**
+ * Verify a single session by its source ID
+ * @param chamber Chamber that held the session
+ * @returns Flagged session, or null if the session is consistent or unknown
+ */
+export async function verifySession(
+  externalId: string | number,
+  chamber: ChamberValue = Chamber.DEPUTIES
+): Promise<IntegrityIssue | null> {
+  const report = await verifySessions({ externalId: String(externalId), chamber });
+  return report.issues[0] || null;
+}
+
+/**
+ * Repair flagged sessions by recomputing `vote_count` from their vote rows
+ * Differences from the source page totals cannot be repaired locally; re-scrape those sessions.
+ * @returns Number of sessions whose vote count was recomputed
+ */
+export async function repairSessions(issues: IntegrityIssue[]): Promise<number> {
+  try {
+    let repaired = 0;
+    for (const issue of issues) {
+      if ((issue.stored.voteCount ?? 0) !== issue.computed.total) {
+        await recountSessionVotes(issue.sessionId);
+        repaired++;
+      }
+    }
+    return repaired;
+  } catch (error) {
+    console.error('Error repairing voting sessions:', error);
+    throw new Error('Failed to repair voting sessions');
+  }
+}
+
+/**
+ * Re-scrape flagged sessions from the source
+ * Sessions without a numeric source ID cannot be re-scraped and are left out.
+ * Sessions of each chamber are re-scraped from that chamber's source.
+ * @param issues Flagged sessions
+ * @param config Scraper configuration; the range and chamber are ignored and existing sessions are never skipped
+ * @param options Scrape options, e.g. a fixture page loader
+ */
+export async function rescrapeSessions(
+  issues: IntegrityIssue[],
+  config: Partial<ScraperConfig> = {},
+  options: ScrapeOptions = {}
+): Promise<ScrapeResults> {
+  const results: ScrapeResults = { processed: 0, added: 0, votesAdded: 0, skipped: 0, notFound: 0, errors: [], stopped: false };
+  
+  for (const chamber of Object.values(Chamber)) {
+    const ids = issues
+      .filter(issue => issue.chamber === chamber)
+      .map(issue => issue.externalId)
+      .filter((externalId): externalId is string => !!externalId && /^\d+$/.test(externalId))
+      .map(externalId => parseInt(externalId, 10));
+    
+    if (ids.length === 0) {
+      continue;
+    }
+    
+    // European Parliament votes can only be re-read from the files passed in as the source
+    let source: VoteSourceAdapter;
+    try {
+      source = options.source?.chamber === chamber ? options.source : getVoteSource(chamber);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.errors.push(...ids.map(g => ({ g, message })));
+      continue;
+    }
+    
+    const chamberResults = await scrapeVotes(
+      {
+        startG: 0,
+        endG: 0,
+        reverse: false,
+        parallelSessions: 5,
+        dateFilter: null,
+        ...config,
+        chamber,
+        skipExisting: false,
+      },
+      { ...options, source, ids }
+    );
+    
+    results.processed += chamberResults.processed;
+    results.added += chamberResults.added;
+    results.votesAdded += chamberResults.votesAdded;
+    results.skipped += chamberResults.skipped;
+    results.notFound += chamberResults.notFound;
+    results.errors.push(...chamberResults.errors);
+    
+    if (chamberResults.stopped) {
+      results.stopped = true;
+      break;
+    }
+  }
+  
+  return results;
+}
@@ -3,11 +3,35 @@
  * 
  * This module provides functionality for scraping voting data from the parliament website.
  * It includes functions for fetching voting sessions, processing votes, and managing the scraping process.
+ * Where sessions come from is left to the vote source adapters in vote-sources.ts.
  */
 
-import { db } from '../drizzle/db';
-import { votes, voting_sessions, politicians } from '../drizzle/schema';
-import { eq, desc, sql } from 'drizzle-orm';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db, DbExecutor } from '../src/db/config';
+import { votes, votingSessions, politicians, parties, provenanceRecords, CheckpointStatus, MembershipType, AnnulmentReason, ResultSummary, Chamber } from '../src/db/schema';
+import { and, eq, desc, sql, SQL } from 'drizzle-orm';
+import { alias, PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { buildVotingPageUrl, ParsedVotingPage } from './psp-parser';
+import { buildSenateVotingPageUrl } from './senat-parser';
+import { recordCheckpoint, getCheckpoint, findGaps, CheckpointStatusValue } from './scrape-checkpoints';
+import { requirePolitician } from './politician-resolver';
+import { affiliationPartyId, getMembershipHistory, recordMembershipObservation, Membership } from './memberships';
+import { requireTerm, findTermIdForDate, findOrCreateTerm, isDateInTerm, ElectoralTerm } from './terms';
+import { countedSessions, linkRepeatSessions } from './annulments';
+import { isVoteType } from './vote-codes';
+import { linkSessionToBill } from './bills';
+import { chamberScope, ChamberValue, CHAMBER_SOURCES } from './chambers';
+import { getVoteSource, createHttpPageLoader, PageLoader, VoteSourceAdapter } from './vote-sources';
+import { getSharedFetcher } from './http-fetch';
+import { archivePayload } from './raw-archive';
+import { recordProvenance, provenanceColumns, ProvenanceInput, RowProvenance } from './provenance';
+import { parseDocument, recordParserFailure } from './parser-health';
+import { createDryRunReport, addDryRunSession, unsavedSession, planSessionSave, DryRunReport } from './dry-run';
+import { startScrapeJob, stopScrapeJob, getScrapeJob, fetchScrapeJobs, JobProgress, StartedJob } from './scrape-jobs';
+
+export { buildSessionRange, createHttpPageLoader } from './vote-sources';
+export type { PageLoader } from './vote-sources';
 
 /**
  * Vote interface
@@ -28,16 +52,50 @@ export interface Vote {
 export interface VotingSession {
   id: number;
   session_id: string;
+  chamber: string;
   title: string;
   date: string;
+  meeting_number: number | null;
+  vote_number: number | null;
+  voted_at: string | null;
+  outcome: string | null;
+  majority_type: string | null;
+  result_summary: ResultSummary | null;
+  annulled: boolean;
+  annulment_reason: string | null;
+  repeat_session_id: string | null;  // External ID of the vote that repeated an annulled one
   vote_count: number;
   created_at: string;
+  provenance: RowProvenance | null;  // Where the session was last saved from
+}
+
+/**
+ * Session metadata interface
+ * Details of a voting session beyond its title and date
+ */
+export interface SessionMetadata {
+  meetingNumber?: number | null;
+  voteNumber?: number | null;
+  time?: string | null;         // Local time in Europe/Prague (HH:MM:SS)
+  presentCount?: number | null;
+  quorum?: number | null;
+  outcome?: string | null;
+  majorityType?: string | null;
+  resultSummary?: ResultSummary | null;
+  annulled?: boolean;           // Declared void (zmatečné hlasování)
+  termId?: number | null;       // Term named by the source; looked up by date when not given
+  sourceUrl?: string | null;    // Page or file the session was read from; built from the ID when not given
+  archiveHash?: string | null;  // Hash of the archived payload the session was parsed from
+  provenanceId?: number | null; // Provenance record of the fetch the session was saved from
 }
 
 /**
  * Scraper status interface
  */
 export interface ScraperStatus {
+  jobId: number | null;   // Job the status describes, or null if no job has run yet
+  status: string | null;  // Stage of the job (using ScrapeJobStatus values)
+  stopRequested: boolean;
   isRunning: boolean;
   progress: number;
   totalItems: number;
@@ -55,6 +113,37 @@ export interface VoteStats {
   total_sessions: number;
   politicians_with_votes: number;
   latest_session: string;
+  term: number | null;
+  chamber: string | null;
+}
+
+/**
+ * Party vote breakdown interface
+ */
+export interface PartyVoteBreakdown {
+  party: string;
+  total: number;
+  votes: Record<string, number>;
+}
+
+/**
+ * Politician voting data interface
+ */
+export interface PoliticianVotingData {
+  politician: { id: number; name: string; party: string | null; provenance: RowProvenance | null };
+  totalVotes: number;
+  voteStats: Array<{ vote: string; count: string }>;
+  recentVotes: Array<{
+    vote: string;
+    title: string;
+    date: string;
+    session_id: string | null;
+    chamber: string;
+    party: string | null;            // Party or club the politician belonged to on the session date
+    annulled: boolean;
+    provenance: RowProvenance | null;
+  }>;
+  memberships: Membership[];
 }
 
 /**
@@ -67,27 +156,88 @@ export interface ScraperConfig {
   parallelSessions: number;
   dateFilter: string | null;
   skipExisting: boolean;
+  term?: number | null;  // Only save sessions held in this electoral term (e.g., 9)
+  chamber?: ChamberValue; // Chamber whose voting IDs the range covers (defaults to the Chamber of Deputies)
+  dryRun?: boolean;       // Fetch and parse as usual, but only report what would be written
+}
+
+/**
+ * Scrape options interface
+ */
+export interface ScrapeOptions {
+  source?: VoteSourceAdapter; // Where sessions come from; defaults to the configured chamber's adapter
+  loadPage?: PageLoader;      // Replaces the adapter's document fetching, e.g. with saved pages
+  ids?: number[];
+  archive?: boolean;          // Store fetched documents in the raw archive (default true)
+  signal?: AbortSignal;       // Stops the run after the session being saved; fetches in flight are cancelled
+  progress?: JobProgress;     // Receives the number of IDs, each processed ID, logs and errors
 }
 
+/**
+ * Scrape results interface
+ */
+export interface ScrapeResults {
+  processed: number;
+  added: number;
+  votesAdded: number;
+  skipped: number;
+  notFound: number;
+  errors: Array<{ g: number; message: string }>;
+  stopped: boolean;  // The run was stopped before every ID was processed
+  report?: DryRunReport; // What a dry run would have written, per session
+}
+
+// Sessions that repeated an annulled vote, joined to expose their external ID
+const repeatSessions = alias(votingSessions, 'repeat_sessions');
+
 /**
  * Fetch recent voting sessions
+ * Annulled sessions are listed too, marked and linked to the vote that repeated them.
+ * @param termNumber Only return sessions of this electoral term
+ * @param chamber Only return sessions of this chamber; the term number is looked up in it
  */
-export async function fetchRecentSessions(limit: number = 10): Promise<VotingSession[]> {
+export async function fetchRecentSessions(
+  limit: number = 10,
+  termNumber: number | null = null,
+  chamber: ChamberValue | null = null
+): Promise<VotingSession[]> {
+  const term = await requireTerm(termNumber, chamber ?? Chamber.DEPUTIES);
+  
   try {
     const recentSessions = await db
       .select({
-        id: voting_sessions.id,
-        session_id: voting_sessions.session_id,
-        title: voting_sessions.title,
-        date: voting_sessions.date,
-        vote_count: voting_sessions.vote_count,
-        created_at: voting_sessions.created_at,
+        id: votingSessions.id,
+        session_id: votingSessions.externalId,
+        chamber: votingSessions.chamber,
+        title: votingSessions.title,
+        date: votingSessions.date,
+        meeting_number: votingSessions.meetingNumber,
+        vote_number: votingSessions.voteNumber,
+        voted_at: votingSessions.votedAt,
+        outcome: votingSessions.outcome,
+        majority_type: votingSessions.majorityType,
+        result_summary: votingSessions.resultSummary,
+        annulled: votingSessions.annulled,
+        annulment_reason: votingSessions.annulmentReason,
+        repeat_session_id: repeatSessions.externalId,
+        vote_count: votingSessions.voteCount,
+        created_at: votingSessions.createdAt,
+        provenance: provenanceColumns(),
       })
-      .from(voting_sessions)
-      .orderBy(desc(voting_sessions.date))
+      .from(votingSessions)
+      .leftJoin(repeatSessions, eq(votingSessions.repeatSessionId, repeatSessions.id))
+      .leftJoin(provenanceRecords, eq(votingSessions.provenanceId, provenanceRecords.id))
+      .where(and(term ? eq(votingSessions.termId, term.id) : undefined, chamberScope(chamber)))
+      .orderBy(desc(votingSessions.date))
       .limit(limit);
     
-    return recentSessions;
+    return recentSessions.map(session => ({
+      ...session,
+      session_id: session.session_id || '',
+      voted_at: session.voted_at ? session.voted_at.toISOString() : null,
+      vote_count: session.vote_count || 0,
+      created_at: session.created_at ? session.created_at.toISOString() : '',
+    }));
   } catch (error) {
     console.error('Error fetching recent voting sessions:', error);
     throw new Error('Failed to fetch recent voting sessions');
@@ -96,34 +246,52 @@ export async function fetchRecentSessions(limit: number = 10): Promise<VotingSes
 
 /**
  * Fetch vote statistics
+ * @param termNumber Only count sessions and votes of this electoral term
+ * @param includeAnnulled Also count annulled sessions and their votes
+ * @param chamber Only count sessions of this chamber; the term number is looked up in it
  */
-export async function fetchVoteStats(): Promise<VoteStats> {
+export async function fetchVoteStats(
+  termNumber: number | null = null,
+  includeAnnulled: boolean = false,
+  chamber: ChamberValue | null = null
+): Promise<VoteStats> {
+  const term = await requireTerm(termNumber, chamber ?? Chamber.DEPUTIES);
+  const sessionScope = and(term ? eq(votingSessions.termId, term.id) : undefined, countedSessions(includeAnnulled), chamberScope(chamber));
+  
   try {
     // Get total votes count
     const totalVotesResult = await db
       .select({ count: sql<number>`count(*)` })
-      .from(votes);
+      .from(votes)
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .where(sessionScope);
     
     // Get total sessions count
     const totalSessionsResult = await db
       .select({ count: sql<number>`count(*)` })
-      .from(voting_sessions);
+      .from(votingSessions)
+      .where(sessionScope);
     
     // Get count of politicians with votes
     const politiciansWithVotesResult = await db
-      .select({ count: sql<number>`count(distinct ${votes.politician_id})` })
-      .from(votes);
+      .select({ count: sql<number>`count(distinct ${votes.politicianId})` })
+      .from(votes)
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .where(sessionScope);
     
     // Get latest session date
     const latestSessionResult = await db
-      .select({ latest: sql<string>`max(${voting_sessions.date})` })
-      .from(voting_sessions);
+      .select({ latest: sql<string>`max(${votingSessions.date})` })
+      .from(votingSessions)
+      .where(sessionScope);
     
     return {
       total_votes: totalVotesResult[0]?.count || 0,
       total_sessions: totalSessionsResult[0]?.count || 0,
       politicians_with_votes: politiciansWithVotesResult[0]?.count || 0,
       latest_session: latestSessionResult[0]?.latest || new Date().toISOString(),
+      term: term ? term.number : null,
+      chamber,
     };
   } catch (error) {
     console.error('Error fetching vote statistics:', error);
@@ -133,17 +301,27 @@ export async function fetchVoteStats(): Promise<VoteStats> {
 
 /**
  * Fetch politician voting data
+ * Totals leave out annulled sessions unless asked for; recent votes list them, marked as annulled.
+ * @param includeAnnulled Also count votes cast in annulled sessions
+ * @param chamber Only include votes and memberships of this chamber
  */
-export async function fetchPoliticianVotingData(politicianId: number): Promise<any> {
+export async function fetchPoliticianVotingData(
+  politicianId: number,
+  includeAnnulled: boolean = false,
+  chamber: ChamberValue | null = null
+): Promise<PoliticianVotingData> {
   try {
     // Get politician details
     const politician = await db
       .select({
         id: politicians.id,
         name: politicians.name,
-        party: politicians.party,
+        party: parties.shortName,
+        provenance: provenanceColumns(),
       })
       .from(politicians)
+      .leftJoin(parties, eq(politicians.partyId, parties.id))
+      .leftJoin(provenanceRecords, eq(politicians.provenanceId, provenanceRecords.id))
       .where(eq(politicians.id, politicianId))
       .limit(1);
     
@@ -155,7 +333,8 @@ export async function fetchPoliticianVotingData(politicianId: number): Promise<a
     const totalVotesResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(votes)
-      .where(eq(votes.politician_id, politicianId));
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .where(and(eq(votes.politicianId, politicianId), countedSessions(includeAnnulled), chamberScope(chamber)));
     
     // Get vote statistics by vote type
     const voteStatsResult = await db
@@ -164,28 +343,38 @@ export async function fetchPoliticianVotingData(politicianId: number): Promise<a
         count: sql<string>`count(*)`,
       })
       .from(votes)
-      .where(eq(votes.politician_id, politicianId))
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .where(and(eq(votes.politicianId, politicianId), countedSessions(includeAnnulled), chamberScope(chamber)))
       .groupBy(votes.vote);
     
-    // Get recent votes
+    // Get recent votes with the party or club in force on each session date
     const recentVotes = await db
       .select({
         vote: votes.vote,
-        title: voting_sessions.title,
-        date: voting_sessions.date,
-        session_id: voting_sessions.session_id,
+        title: votingSessions.title,
+        date: votingSessions.date,
+        session_id: votingSessions.externalId,
+        chamber: votingSessions.chamber,
+        party: parties.shortName,
+        annulled: votingSessions.annulled,
+        provenance: provenanceColumns(),
       })
       .from(votes)
-      .innerJoin(voting_sessions, eq(votes.session_id, voting_sessions.id))
-      .where(eq(votes.politician_id, politicianId))
-      .orderBy(desc(voting_sessions.date))
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .leftJoin(parties, eq(parties.id, affiliationPartyId(votes.politicianId, votingSessions.date, votingSessions.chamber)))
+      .leftJoin(provenanceRecords, eq(votes.provenanceId, provenanceRecords.id))
+      .where(and(eq(votes.politicianId, politicianId), chamberScope(chamber)))
+      .orderBy(desc(votingSessions.date))
       .limit(10);
     
+    const memberships: Membership[] = await getMembershipHistory(politicianId, chamber);
+    
     return {
       politician: politician[0],
       totalVotes: totalVotesResult[0]?.count || 0,
       voteStats: voteStatsResult,
       recentVotes: recentVotes,
+      memberships: memberships,
     };
   } catch (error) {
     console.error('Error fetching politician voting data:', error);
@@ -193,15 +382,59 @@ export async function fetchPoliticianVotingData(politicianId: number): Promise<a
   }
 }
 
+/**
+ * Fetch how each party voted in a session
+ * Politicians are grouped by the party or club they belonged to on the session date,
+ * not by their current party.
+ * @param sessionId External session ID (the psp.cz or senat.cz `g` value)
+ * @param chamber Chamber that held the session
+ */
+export async function fetchSessionPartyBreakdown(
+  sessionId: string | number,
+  chamber: ChamberValue = Chamber.DEPUTIES
+): Promise<PartyVoteBreakdown[]> {
+  try {
+    const rows = await db
+      .select({
+        party: parties.shortName,
+        vote: votes.vote,
+        count: sql<string>`count(*)`,
+      })
+      .from(votes)
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .leftJoin(parties, eq(parties.id, affiliationPartyId(votes.politicianId, votingSessions.date, votingSessions.chamber)))
+      .where(and(eq(votingSessions.chamber, chamber), eq(votingSessions.externalId, String(sessionId))))
+      .groupBy(parties.shortName, votes.vote)
+      .orderBy(parties.shortName);
+    
+    const breakdown = new Map<string, PartyVoteBreakdown>();
+    for (const row of rows) {
+      const party = row.party || 'Unknown';
+      const entry = breakdown.get(party) || { party, total: 0, votes: {} };
+      const count = parseInt(row.count, 10);
+      entry.votes[row.vote] = count;
+      entry.total += count;
+      breakdown.set(party, entry);
+    }
+    
+    return Array.from(breakdown.values());
+  } catch (error) {
+    console.error('Error fetching session party breakdown:', error);
+    throw new Error('Failed to fetch session party breakdown');
+  }
+}
+
 /**
  * Check if a session exists in the database
+ * @param sessionId External session ID (the psp.cz or senat.cz `g` value)
+ * @param chamber Chamber that held the session
  */
-export async function sessionExists(sessionId: number): Promise<boolean> {
+export async function sessionExists(sessionId: string | number, chamber: ChamberValue = Chamber.DEPUTIES): Promise<boolean> {
   try {
     const session = await db
-      .select({ id: voting_sessions.id })
-      .from(voting_sessions)
-      .where(eq(voting_sessions.id, sessionId))
+      .select({ id: votingSessions.id })
+      .from(votingSessions)
+      .where(and(eq(votingSessions.chamber, chamber), eq(votingSessions.externalId, String(sessionId))))
       .limit(1);
     
     return session.length > 0;
@@ -211,38 +444,93 @@ export async function sessionExists(sessionId: number): Promise<boolean> {
   }
 }
 
+/**
+ * Build the timestamp of a vote from its local date and time
+ * Times on psp.cz are local, so the conversion to UTC is left to PostgreSQL.
+ * @param date Date (YYYY-MM-DD)
+ * @param time Local time in Europe/Prague (HH:MM or HH:MM:SS)
+ */
+export function pragueTimestamp(date: string, time: string): SQL {
+  return sql`(${`${date} ${time}`}::timestamp AT TIME ZONE 'Europe/Prague')`;
+}
+
+/**
+ * Map session metadata to voting session columns, leaving out unknown values
+ */
+function metadataColumns(date: string, metadata: SessionMetadata): PgUpdateSetSource<typeof votingSessions> {
+  const columns: PgUpdateSetSource<typeof votingSessions> = {};
+  
+  if (metadata.meetingNumber != null) columns.meetingNumber = metadata.meetingNumber;
+  if (metadata.voteNumber != null) columns.voteNumber = metadata.voteNumber;
+  if (metadata.time) columns.votedAt = pragueTimestamp(date, metadata.time);
+  if (metadata.presentCount != null) columns.presentCount = metadata.presentCount;
+  if (metadata.quorum != null) columns.quorum = metadata.quorum;
+  if (metadata.outcome) columns.outcome = metadata.outcome;
+  if (metadata.majorityType) columns.majorityType = metadata.majorityType;
+  if (metadata.resultSummary) columns.resultSummary = metadata.resultSummary;
+  if (metadata.annulled) {
+    columns.annulled = true;
+    columns.annulmentReason = AnnulmentReason.VOID;
+  }
+  if (metadata.termId) columns.termId = metadata.termId;
+  if (metadata.archiveHash) columns.archiveHash = metadata.archiveHash;
+  if (metadata.provenanceId) columns.provenanceId = metadata.provenanceId;
+  
+  return columns;
+}
+
 /**
  * Save a voting session to the database
+ * Metadata of an existing session is filled in when given, so re-scraping adds what older runs dropped.
+ * @param metadata Meeting and vote number, time, present count, quorum, outcome and result counts
+ * @param chamber Chamber that held the session; external IDs are unique per chamber
+ * @param executor Database or transaction to save through
+ * @returns Internal ID of the new or existing session
  */
-export async function saveVotingSession(sessionId: string, title: string, date: string): Promise<number> {
+export async function saveVotingSession(
+  sessionId: string,
+  title: string,
+  date: string,
+  metadata: SessionMetadata = {},
+  chamber: ChamberValue = Chamber.DEPUTIES,
+  executor: DbExecutor = db
+): Promise<number> {
   try {
-    const numericSessionId = parseInt(sessionId, 10);
+    const details = metadataColumns(date, metadata);
     
     // Check if session already exists
-    const exists = await sessionExists(numericSessionId);
-    if (exists) {
-      // Get the existing session ID
-      const session = await db
-        .select({ id: voting_sessions.id })
-        .from(voting_sessions)
-        .where(eq(voting_sessions.id, numericSessionId))
-        .limit(1);
-      
+    const session = await executor
+      .select({ id: votingSessions.id })
+      .from(votingSessions)
+      .where(and(eq(votingSessions.chamber, chamber), eq(votingSessions.externalId, sessionId)))
+      .limit(1);
+    
+    if (session.length > 0) {
+      if (Object.keys(details).length > 0) {
+        await executor
+          .update(votingSessions)
+          .set({ ...details, updatedAt: new Date() })
+          .where(eq(votingSessions.id, session[0].id));
+      }
       return session[0].id;
     }
     
     // Insert new session
-    const result = await db
-      .insert(voting_sessions)
+    const result = await executor
+      .insert(votingSessions)
       .values({
-        id: numericSessionId,
-        session_id: sessionId,
-        title: title,
+        chamber,
+        externalId: sessionId,
+        title: title.slice(0, 200),
         date: date,
-        vote_count: 0,
-        created_at: new Date().toISOString(),
+        termId: metadata.termId ?? await findTermIdForDate(date, chamber, executor),
+        sourceUrl: metadata.sourceUrl ?? (chamber === Chamber.SENATE
+          ? buildSenateVotingPageUrl(parseInt(sessionId, 10))
+          : buildVotingPageUrl(parseInt(sessionId, 10))),
+        voteCount: 0,
+        ...details,
       })
-      .returning({ id: voting_sessions.id });
+      .returning({ id: votingSessions.id });
     
     return result[0].id;
   } catch (error) {
@@ -251,94 +539,552 @@ export async function saveVotingSession(sessionId: string, title: string, date:
   }
 }
 
+/**
+ * Recompute the stored vote count of a session from its vote rows
+ * @param sessionId Internal session ID
+ * @returns Number of votes stored for the session
+ */
+export async function recountSessionVotes(sessionId: number, executor: DbExecutor = db): Promise<number> {
+  const result = await executor
+    .update(votingSessions)
+    .set({ voteCount: sql`(SELECT count(*) FROM votes WHERE votes.session_id = voting_sessions.id)` })
+    .where(eq(votingSessions.id, sessionId))
+    .returning({ voteCount: votingSessions.voteCount });
+  
+  return result[0]?.voteCount ?? 0;
+}
+
+/**
+ * Find a party by its short name, creating it if needed
+ * @returns Party ID, or null if no party name was given
+ */
+async function findOrCreateParty(party: string, executor: DbExecutor = db): Promise<number | null> {
+  const shortName = party.trim();
+  if (!shortName) {
+    return null;
+  }
+  
+  const existing = await executor
+    .select({ id: parties.id })
+    .from(parties)
+    .where(eq(parties.shortName, shortName))
+    .limit(1);
+  
+  if (existing.length > 0) {
+    return existing[0].id;
+  }
+  
+  const result = await executor
+    .insert(parties)
+    .values({ name: shortName, shortName: shortName.slice(0, 20) })
+    .returning({ id: parties.id });
+  
+  return result[0].id;
+}
+
 /**
  * Save a vote to the database
+ * @param party Parliamentary club the politician voted in, recorded as a club membership on the session date
+ * @param vote VoteType value
+ * @param externalId Official psp.cz person ID, preferred over the name when matching the politician
+ * @param sessionDate Session date (YYYY-MM-DD); looked up when not given
+ * @param sourceCode Vote code as published by the source (e.g. "M")
+ * @param chamber Chamber that held the session; the club is recorded as a membership in it
+ * @param provenanceId Provenance record of the fetch the vote was read from
+ * @param executor Database or transaction to save through
  */
-export async function saveVote(sessionId: number, politicianName: string, party: string, vote: string): Promise<boolean> {
+export async function saveVote(
+  sessionId: number,
+  politicianName: string,
+  party: string,
+  vote: string,
+  externalId: string | null = null,
+  sessionDate: string | null = null,
+  sourceCode: string | null = null,
+  chamber: ChamberValue = Chamber.DEPUTIES,
+  provenanceId: number | null = null,
+  executor: DbExecutor = db
+): Promise<boolean> {
   try {
-    // Find or create politician
-    let politician = await db
-      .select({ id: politicians.id })
-      .from(politicians)
-      .where(sql`lower(${politicians.name}) = lower(${politicianName})`)
-      .limit(1);
+    if (!isVoteType(vote)) {
+      throw new Error(`Unknown vote type "${vote}"`);
+    }
     
-    let politicianId;
-    if (politician.length === 0) {
-      // Create new politician
-      const result = await db
-        .insert(politicians)
-        .values({
-          name: politicianName,
-          party: party,
-          created_at: new Date().toISOString(),
-        })
-        .returning({ id: politicians.id });
-      
-      politicianId = result[0].id;
-    } else {
-      politicianId = politician[0].id;
-      
-      // Update party if it's different
-      await db
-        .update(politicians)
-        .set({ party: party })
-        .where(eq(politicians.id, politicianId));
+    const partyId = await findOrCreateParty(party, executor);
+    
+    // Resolve politician by official ID, then by name; ambiguous names throw
+    const source = CHAMBER_SOURCES[chamber];
+    const politicianId = await requirePolitician({ name: politicianName, externalId, source, provenanceId }, executor);
+    
+    // Record the club as of the session date instead of overwriting the politician's party
+    if (partyId) {
+      let date = sessionDate;
+      if (!date) {
+        const session = await executor
+          .select({ date: votingSessions.date })
+          .from(votingSessions)
+          .where(eq(votingSessions.id, sessionId))
+          .limit(1);
+        date = session.length > 0 ? session[0].date : null;
+      }
+      if (date) {
+        await recordMembershipObservation(politicianId, partyId, MembershipType.CLUB, date, source, executor, chamber);
+      }
     }
     
     // Check if vote already exists
-    const existingVote = await db
+    const existingVote = await executor
       .select({ id: votes.id })
       .from(votes)
       .where(
-        sql`${votes.session_id} = ${sessionId} AND ${votes.politician_id} = ${politicianId}`
+        sql`${votes.sessionId} = ${sessionId} AND ${votes.politicianId} = ${politicianId}`
       )
       .limit(1);
     
     if (existingVote.length > 0) {
       // Update existing vote
-      await db
+      await executor
         .update(votes)
-        .set({ vote: vote })
+        .set({ vote: vote, sourceCode: sourceCode, provenanceId: provenanceId ?? undefined, updatedAt: new Date() })
         .where(eq(votes.id, existingVote[0].id));
     } else {
       // Insert new vote
-      await db
+      await executor
         .insert(votes)
         .values({
-          session_id: sessionId,
-          politician_id: politicianId,
+          sessionId: sessionId,
+          politicianId: politicianId,
           vote: vote,
-          created_at: new Date().toISOString(),
+          sourceCode: sourceCode,
+          provenanceId: provenanceId,
         });
       
       // Increment vote count for the session
-      await db
-        .update(voting_sessions)
-        .set({ 
-          vote_count: sql`${voting_sessions.vote_count} + 1` 
+      await executor
+        .update(votingSessions)
+        .set({
+          voteCount: sql`${votingSessions.voteCount} + 1`
         })
-        .where(eq(voting_sessions.id, sessionId));
+        .where(eq(votingSessions.id, sessionId));
     }
     
     return true;
   } catch (error) {
     console.error('Error saving vote:', error);
-    throw new Error('Failed to save vote');
+    throw new Error(`Failed to save vote: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Create a page loader that reads saved voting pages from a directory
+ * Pages are expected as UTF-8 files named `g<ID>.html`.
+ */
+export function createFixturePageLoader(directory: string): PageLoader {
+  return async (g: number) => {
+    try {
+      return await fs.readFile(path.join(directory, `g${g}.html`), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Outcome of loading a single voting page
+ */
+type SessionOutcome =
+  | { status: 'parsed'; page: ParsedVotingPage; provenance: ProvenanceInput }
+  | { status: 'skipped'; reason: string }
+  | { status: 'not_found' }
+  | { status: 'failed'; reason: string }
+  | { status: 'broken'; failures: string[] };
+
+/**
+ * Fetch and parse a single session through its source adapter
+ */
+async function loadSession(
+  g: number,
+  config: ScraperConfig,
+  adapter: VoteSourceAdapter,
+  fetchDocument: PageLoader,
+  term: ElectoralTerm | null,
+  archive: boolean,
+  signal?: AbortSignal
+): Promise<SessionOutcome> {
+  // Only IDs that finished saving are skipped, so sessions left half-saved or imported elsewhere get scraped
+  if (config.skipExisting && (await getCheckpoint(g, adapter.name))?.status === CheckpointStatus.DONE) {
+    return { status: 'skipped', reason: 'session already scraped' };
+  }
+  
+  const raw = await fetchDocument(g, signal);
+  if (!raw) {
+    return { status: 'not_found' };
+  }
+  
+  // Archive before parsing, so pages the parser cannot read yet are kept too
+  const fetchedAt = new Date();
+  const sourceUrl = adapter.documentUrl(g);
+  const archiveHash = archive
+    ? await archivePayload({ source: adapter.name, sourceUrl, externalId: String(g), payload: raw, contentType: adapter.contentType, fetchedAt })
+    : null;
+  
+  const parsed = parseDocument(adapter, raw, g);
+  
+  // A page the parser no longer understands must not be saved as empty or partial
+  const failures = adapter.checkStructure?.(raw, parsed) ?? [];
+  if (failures.length > 0) {
+    return { status: 'broken', failures };
   }
+  
+  if (!parsed) {
+    return { status: 'not_found' };
+  }
+  
+  // Date filter matches by prefix, so "2025", "2025-03" and "2025-03-04" all work
+  if (config.dateFilter && !parsed.date.startsWith(config.dateFilter)) {
+    return { status: 'skipped', reason: `date ${parsed.date} outside filter ${config.dateFilter}` };
+  }
+  
+  // Pages that name their term are checked by number, since that term may not be stored yet
+  if (config.term && parsed.termNumber !== null && parsed.termNumber !== config.term) {
+    return { status: 'skipped', reason: `term ${parsed.termNumber} outside term ${config.term}` };
+  }
+  
+  if (term && parsed.termNumber === null && !isDateInTerm(parsed.date, term)) {
+    return { status: 'skipped', reason: `date ${parsed.date} outside term ${term.number}` };
+  }
+  
+  return {
+    status: 'parsed',
+    page: parsed,
+    provenance: { adapter: adapter.name, sourceUrl, fetchedAt, parserVersion: adapter.parserVersion, archiveHash },
+  };
+}
+
+/**
+ * Save a parsed voting page and all of its votes
+ * The session, its votes and any politicians it creates point at one provenance record.
+ * Everything is written in one transaction, so a failing vote leaves no partial session behind.
+ * @param provenance Fetch and parser the page came from, with the hash it was archived under
+ * @returns Number of votes saved
+ */
+export async function saveParsedSession(parsed: ParsedVotingPage, provenance: ProvenanceInput | null = null): Promise<number> {
+  return db.transaction(async (tx) => {
+    const provenanceId = provenance ? await recordProvenance(provenance, tx) : null;
+    const termId = parsed.termNumber !== null
+      ? await findOrCreateTerm(parsed.chamber, parsed.termNumber, parsed.date, tx)
+      : null;
+    
+    const sessionId = await saveVotingSession(String(parsed.g), parsed.title, parsed.date, {
+      meetingNumber: parsed.meetingNumber,
+      voteNumber: parsed.voteNumber,
+      time: parsed.time,
+      presentCount: parsed.presentCount,
+      quorum: parsed.quorum,
+      outcome: parsed.outcome,
+      majorityType: parsed.majorityType,
+      resultSummary: parsed.resultSummary,
+      annulled: parsed.annulled,
+      termId,
+      sourceUrl: parsed.sourceUrl,
+      archiveHash: provenance?.archiveHash ?? null,
+      provenanceId,
+    }, parsed.chamber, tx);
+    
+    for (const vote of parsed.votes) {
+      await saveVote(sessionId, vote.name, vote.party, vote.vote, vote.pspId, parsed.date, vote.symbol, parsed.chamber, provenanceId, tx);
+    }
+    
+    // Increments in saveVote drift when a previous run failed halfway, so settle the count here
+    await recountSessionVotes(sessionId, tx);
+    
+    const { bill, agendaItemNumber } = parsed;
+    if (bill.printNumber || bill.reading || bill.voteKind || agendaItemNumber) {
+      await linkSessionToBill(sessionId, { ...bill, agendaItemNumber }, tx);
+    }
+    
+    return parsed.votes.length;
+  });
+}
+
+/**
+ * Scrape voting sessions in the configured range
+ * Documents are loaded in parallel batches of `parallelSessions`, then saved one
+ * session at a time so concurrent runs do not create the same politician twice.
+ * Every attempted ID gets a checkpoint recording its outcome. When the signal is aborted the
+ * session being saved is finished and the rest are left without a checkpoint, so they show up as gaps.
+ * A page failing the adapter's structure check is logged to system_logs and halts the run with an error.
+ * A dry run writes nothing, not even checkpoints, the archive or fetch validators: `added` and `votesAdded` count what
+ * would be saved, and `report` lists what would happen to each session.
+ */
+export async function scrapeVotes(config: ScraperConfig, options: ScrapeOptions = {}): Promise<ScrapeResults> {
+  const chamber = config.chamber || Chamber.DEPUTIES;
+  const adapter = options.source || getVoteSource(chamber, config.dryRun ? createHttpPageLoader(chamber, getSharedFetcher(true)) : undefined);
+  const source = adapter.name;
+  const fetchDocument = options.loadPage || adapter.fetchDocument;
+  const ids = options.ids || await adapter.listSessionIds(config);
+  const batchSize = Math.max(1, config.parallelSessions || 1);
+  
+  // Sources that name their term create it when first seen, so only the others are resolved up front
+  const term = adapter.namesTerms ? null : await requireTerm(config.term, adapter.chamber);
+  const { signal, progress } = options;
+  const report = config.dryRun ? createDryRunReport() : null;
+  progress?.setTotal(ids.length);
+  
+  const results: ScrapeResults = {
+    processed: 0,
+    added: 0,
+    votesAdded: 0,
+    skipped: 0,
+    notFound: 0,
+    errors: [],
+    stopped: false,
+  };
+  let broken: { g: number; failures: string[] } | null = null;
+  
+  const checkpoint = async (g: number, status: CheckpointStatusValue, reason: string | null) => {
+    if (!report) {
+      await recordCheckpoint(g, status, reason, source);
+    }
+  };
+  
+  const fail = async (g: number, message: string) => {
+    console.error(`Error processing session g=${g}: ${message}`);
+    results.errors.push({ g, message });
+    progress?.error(`g=${g}: ${message}`);
+    if (report) {
+      addDryRunSession(report, unsavedSession(g, 'failed', message));
+    }
+    await checkpoint(g, CheckpointStatus.FAILED, message);
+  };
+  
+  for (let i = 0; i < ids.length; i += batchSize) {
+    if (signal?.aborted) {
+      results.stopped = true;
+      break;
+    }
+    
+    const batch = ids.slice(i, i + batchSize);
+    const loaded = await Promise.all(batch.map(async (g): Promise<{ g: number; outcome: SessionOutcome }> => {
+      try {
+        return { g, outcome: await loadSession(g, config, adapter, fetchDocument, term, options.archive !== false && !report, signal) };
+      } catch (error) {
+        return { g, outcome: { status: 'failed', reason: error instanceof Error ? error.message : String(error) } };
+      }
+    }));
+    
+    for (const { g, outcome } of loaded) {
+      // Outcomes of a stopped run may be cancelled fetches, so none of them is recorded
+      if (signal?.aborted) {
+        results.stopped = true;
+        break;
+      }
+      
+      results.processed++;
+      progress?.advance();
+      
+      if (outcome.status === 'failed') {
+        await fail(g, outcome.reason);
+        continue;
+      }
+      
+      if (outcome.status === 'broken') {
+        await fail(g, `page structure check failed: ${outcome.failures.join('; ')}`);
+        
+        // A dry run saves nothing a broken page could spoil, so it reports the page and goes on
+        if (report) {
+          continue;
+        }
+        await recordParserFailure(adapter, g, outcome.failures);
+        broken = { g, failures: outcome.failures };
+        break;
+      }
+      
+      if (outcome.status === 'skipped') {
+        results.skipped++;
+        if (report) {
+          addDryRunSession(report, unsavedSession(g, 'skip', outcome.reason));
+        }
+        await checkpoint(g, CheckpointStatus.SKIPPED, outcome.reason);
+        continue;
+      }
+      
+      if (outcome.status === 'not_found') {
+        results.notFound++;
+        if (report) {
+          addDryRunSession(report, unsavedSession(g, 'not_found'));
+        }
+        await checkpoint(g, CheckpointStatus.NOT_FOUND, null);
+        continue;
+      }
+      
+      if (report) {
+        try {
+          const plan = await planSessionSave(outcome.page);
+          addDryRunSession(report, plan);
+          if (plan.action !== 'unchanged') {
+            results.added++;
+          }
+          results.votesAdded += plan.votesToInsert + plan.votesToUpdate;
+        } catch (error) {
+          await fail(g, error instanceof Error ? error.message : String(error));
+        }
+        continue;
+      }
+      
+      try {
+        results.votesAdded += await saveParsedSession(outcome.page, outcome.provenance);
+        results.added++;
+        await recordCheckpoint(g, CheckpointStatus.DONE, null, source);
+        console.log(`Saved session g=${g}: ${outcome.page.title} (${outcome.page.date})`);
+        progress?.log(`Saved session g=${g}: ${outcome.page.title} (${outcome.page.date})`);
+      } catch (error) {
+        await fail(g, error instanceof Error ? error.message : String(error));
+      }
+    }
+    
+    if (results.stopped || broken) {
+      break;
+    }
+  }
+  
+  // A repeat may be saved before or after the vote it repeats, so link once the run is done
+  if (results.added > 0 && !report) {
+    await linkRepeatSessions();
+  }
+  
+  if (report) {
+    results.report = report;
+  }
+  
+  if (broken) {
+    throw new Error(`Halted at g=${broken.g}: the ${source} page no longer matches the parser (${broken.failures.join('; ')})`);
+  }
+  
+  return results;
+}
+
+/**
+ * Re-scrape gaps within the configured range
+ * Gaps are IDs that were never attempted or failed on their last attempt.
+ * @param config Scraper configuration whose `startG`..`endG` range is searched
+ * @param options Scrape options; `includeNotFound` also retries IDs that were not found
+ */
+export async function requeueGaps(
+  config: ScraperConfig,
+  options: ScrapeOptions & { includeNotFound?: boolean } = {}
+): Promise<ScrapeResults> {
+  const gaps = await findGaps(config.startG, config.endG, { includeNotFound: options.includeNotFound, chamber: config.chamber });
+  const ids = gaps.map(gap => gap.externalId);
+  
+  console.log(`Re-queueing ${ids.length} gaps between g=${config.startG} and g=${config.endG}`);
+  return scrapeVotes(config, { ...options, ids: config.reverse ? ids.reverse() : ids });
+}
+
+/**
+ * Summarize scrape results in one line
+ */
+function describeResults(results: ScrapeResults): string {
+  return `${results.processed} processed, ${results.added} added, ${results.votesAdded} votes, ` +
+    `${results.skipped} skipped, ${results.notFound} not found, ${results.errors.length} errors`;
+}
+
+/**
+ * Start a vote scraping job
+ * The job runs in the background; follow it with getVoteScraperStatus and stop it with stopVoteScraping.
+ * @returns Job ID and a promise of the scrape results
+ */
+export async function startVoteScrapeJob(config: ScraperConfig, options: ScrapeOptions = {}): Promise<StartedJob<ScrapeResults>> {
+  const job = await startScrapeJob('vote', config, async context => {
+    context.log(`Scraping g=${config.startG}..${config.endG}${config.chamber ? ` (${config.chamber})` : ''}`);
+    const results = await scrapeVotes(config, { ...options, signal: context.signal, progress: context });
+    context.log(`${results.stopped ? 'Stopped' : 'Finished'}: ${describeResults(results)}`);
+    return results;
+  });
+  
+  // Failures are recorded on the job, so callers that do not wait for it need not handle them
+  job.done.catch(() => undefined);
+  
+  console.log(`Started vote scraping job #${job.id}`);
+  return job;
 }
 
 /**
  * Start vote scraping process
+ * Runs as a job, so the run can be followed and stopped like one started through the API.
+ * Dry runs are not recorded as jobs, since they write nothing.
  */
-export async function startVoteScraping(config: ScraperConfig): Promise<boolean> {
+export async function startVoteScraping(config: ScraperConfig, options: ScrapeOptions = {}): Promise<boolean> {
   try {
-    // This would start the scraping process
-    // For now, we'll just return success
     console.log('Starting vote scraping with config:', config);
-    return true;
+    const results = config.dryRun
+      ? await scrapeVotes(config, options)
+      : await (await startVoteScrapeJob(config, options)).done;
+    
+    console.log(`Vote scraping ${results.stopped ? 'stopped' : 'finished'}: ${describeResults(results)}`);
+    
+    return results.errors.length === 0;
   } catch (error) {
     console.error('Error starting vote scraping:', error);
     throw new Error('Failed to start vote scraping');
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Stop vote scraping
+ * Each job finishes the session it is saving and leaves the rest of its range as gaps.
+ * @param jobId Job to stop; every running vote job when not given
+ * @returns IDs of the jobs asked to stop
+ */
+export async function stopVoteScraping(jobId?: number): Promise<number[]> {
+  const ids = jobId !== undefined
+    ? [jobId]
+    : (await fetchScrapeJobs('vote', 100, true)).map(job => job.jobId);
+  
+  const stopped: number[] = [];
+  for (const id of ids) {
+    if (await stopScrapeJob(id)) {
+      stopped.push(id);
+    }
+  }
+  return stopped;
+}
+
+/**
+ * Get the status of vote scraping
+ * @param jobId Job to describe; the latest vote job when not given
+ */
+export async function getVoteScraperStatus(jobId?: number): Promise<ScraperStatus> {
+  const job = jobId !== undefined ? await getScrapeJob(jobId) : (await fetchScrapeJobs('vote', 1))[0] ?? null;
+  
+  if (!job || job.service !== 'vote') {
+    return {
+      jobId: null,
+      status: null,
+      stopRequested: false,
+      isRunning: false,
+      progress: 0,
+      totalItems: 0,
+      processedItems: 0,
+      startTime: null,
+      errors: [],
+      logs: [],
+    };
+  }
+  
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    stopRequested: job.stopRequested,
+    isRunning: job.isRunning,
+    progress: job.progress,
+    totalItems: job.totalItems,
+    processedItems: job.processedItems,
+    startTime: job.startTime,
+    errors: job.errors,
+    logs: job.logs,
+  };
+}
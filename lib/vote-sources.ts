@@ -0,0 +1,225 @@
+/**
+ * Vote Sources Module
+ *
+ * This module defines the contract every legislature's vote source implements, so the
+ * scraper can enumerate, fetch and parse sessions without knowing where they come from.
+ * It ships adapters for psp.cz, senat.cz and European Parliament roll-call XML read from disk.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Chamber } from '../src/db/schema';
+import { buildVotingPageUrl, parseVotingPage, checkVotingPageStructure, ParsedSession, ParsedVote, ParsedVotingPage, PSP_PARSER_VERSION } from './psp-parser';
+import { buildSenateVotingPageUrl, parseSenateVotingPage, SENATE_PARSER_VERSION } from './senat-parser';
+import { listEuroparlVoteIds, extractEuroparlVote, parseEuroparlVote, parseEuroparlMembers, EUROPARL_PARSER_VERSION } from './europarl-parser';
+import { ChamberValue, CHAMBER_SOURCES } from './chambers';
+import { getSharedFetcher, PoliteFetcher } from './http-fetch';
+import type { ScraperConfig } from './vote-scraper';
+
+/**
+ * Page loader returning the HTML of a voting page, or null if the page does not exist
+ * Loaders that download pages cancel the download when the signal is aborted.
+ */
+export type PageLoader = (g: number, signal?: AbortSignal) => Promise<string | null>;
+
+/**
+ * Vote source adapter interface
+ * Session IDs are numbers scoped to the adapter's chamber, such as the `g` of psp.cz pages.
+ */
+export interface VoteSourceAdapter {
+  name: string;          // Source name recorded on checkpoints and politician aliases
+  chamber: ChamberValue; // Chamber the sessions are saved under
+  namesTerms: boolean;   // Parsed sessions carry their term number, so terms are created when first seen
+  contentType: string;   // Media type of the raw documents, recorded in the raw archive
+  parserVersion: string; // Version of the parser behind the parse hooks, recorded as provenance of saved rows
+  
+  // URL of the raw document of a session, under which it is archived
+  documentUrl(id: number): string;
+  
+  // Enumerate the session IDs covered by a configuration, in scraping order
+  listSessionIds(config: ScraperConfig): Promise<number[]>;
+  
+  // Fetch the raw document of a session, or null if the source has none; the signal cancels the fetch
+  fetchDocument(id: number, signal?: AbortSignal): Promise<string | null>;
+  
+  // Parse the session itself, or return null if the document holds no vote
+  parseSession(raw: string, id: number): ParsedSession | null;
+  
+  // Parse how each member voted
+  parseMembers(raw: string, id: number): ParsedVote[];
+  
+  // Check what the parse hooks made of a document against its raw structure, returning failed assertions
+  checkStructure?(raw: string, page: ParsedVotingPage | null): string[];
+}
+
+/**
+ * European Parliament source options
+ */
+export interface EuroparlSourceOptions {
+  members?: Record<string, string>; // Person ID (PersId) to full name; only these members are saved
+}
+
+/**
+ * Build the ordered list of session IDs covered by a configuration
+ */
+export function buildSessionRange(config: ScraperConfig): number[] {
+  const from = Math.min(config.startG, config.endG);
+  const to = Math.max(config.startG, config.endG);
+  const ids: number[] = [];
+  
+  for (let g = from; g <= to; g++) {
+    ids.push(g);
+  }
+  
+  return config.reverse ? ids.reverse() : ids;
+}
+
+/**
+ * Create a page loader that downloads voting pages from psp.cz or senat.cz
+ * Pages are served as windows-1250 unless the response says otherwise.
+ * @param chamber Chamber whose pages are downloaded
+ * @param fetcher Fetcher pacing the requests, e.g. one with a fixture server as transport
+ */
+export function createHttpPageLoader(chamber: ChamberValue = Chamber.DEPUTIES, fetcher: PoliteFetcher = getSharedFetcher()): PageLoader {
+  return async (g: number, signal?: AbortSignal) => {
+    const url = chamber === Chamber.SENATE ? buildSenateVotingPageUrl(g) : buildVotingPageUrl(g);
+    const page = await fetcher.fetchPage(url, 'windows-1250', signal);
+    return page.body;
+  };
+}
+
+/**
+ * Create an adapter for a source publishing one HTML page per session
+ * Pages hold the session and its members together, so both hooks parse the same page.
+ */
+function createPageSource(
+  chamber: ChamberValue,
+  namesTerms: boolean,
+  parserVersion: string,
+  buildUrl: (g: number) => string,
+  parse: (html: string, g: number) => ParsedVotingPage | null,
+  loadPage: PageLoader,
+  checkStructure?: (html: string, page: ParsedVotingPage | null) => string[]
+): VoteSourceAdapter {
+  return {
+    name: CHAMBER_SOURCES[chamber],
+    chamber,
+    namesTerms,
+    contentType: 'text/html',
+    parserVersion,
+    documentUrl: buildUrl,
+    listSessionIds: async config => buildSessionRange(config),
+    fetchDocument: loadPage,
+    parseSession: (raw, id) => {
+      const page = parse(raw, id);
+      if (!page) {
+        return null;
+      }
+      
+      const session: ParsedSession & { votes?: ParsedVote[] } = { ...page };
+      delete session.votes;
+      return session;
+    },
+    parseMembers: (raw, id) => parse(raw, id)?.votes ?? [],
+    checkStructure,
+  };
+}
+
+/**
+ * Create the Chamber of Deputies adapter reading hlasy.sqw pages on psp.cz
+ * @param loadPage Page loader, e.g. one reading saved pages
+ */
+export function createPspSource(loadPage: PageLoader = createHttpPageLoader(Chamber.DEPUTIES)): VoteSourceAdapter {
+  return createPageSource(Chamber.DEPUTIES, false, PSP_PARSER_VERSION, buildVotingPageUrl, parseVotingPage, loadPage, checkVotingPageStructure);
+}
+
+/**
+ * Create the Senate adapter reading roll-call pages on senat.cz
+ * @param loadPage Page loader, e.g. one reading saved pages
+ */
+export function createSenateSource(loadPage: PageLoader = createHttpPageLoader(Chamber.SENATE)): VoteSourceAdapter {
+  return createPageSource(Chamber.SENATE, true, SENATE_PARSER_VERSION, buildSenateVotingPageUrl, parseSenateVotingPage, loadPage);
+}
+
+/**
+ * Create the European Parliament adapter reading roll-call XML files from a directory
+ * Files hold every vote of a sitting, so the directory is indexed once and the vote is cut out of its file.
+ * Only IDs within the configured range are listed.
+ * @param directory Directory of PV-*-RCV_*.xml files
+ * @param options Members to keep and the full names to save them under
+ */
+export function createEuroparlSource(directory: string, options: EuroparlSourceOptions = {}): VoteSourceAdapter {
+  let index: Promise<Map<number, string>> | null = null;
+  let voteFiles = new Map<number, string>();
+  let cached: { file: string; xml: Promise<string> } | null = null;
+  
+  // Votes of a sitting are fetched one after another, so the last file read is kept
+  const readFile = (file: string): Promise<string> => {
+    if (!cached || cached.file !== file) {
+      cached = { file, xml: fs.readFile(path.join(directory, file), 'utf8') };
+    }
+    return cached.xml;
+  };
+  
+  const buildIndex = (): Promise<Map<number, string>> => {
+    if (!index) {
+      index = (async () => {
+        const files = (await fs.readdir(directory)).filter(file => file.toLowerCase().endsWith('.xml')).sort();
+        const ids = new Map<number, string>();
+        for (const file of files) {
+          for (const id of listEuroparlVoteIds(await readFile(file))) {
+            ids.set(id, file);
+          }
+        }
+        voteFiles = ids;
+        return ids;
+      })();
+    }
+    return index;
+  };
+  
+  return {
+    name: CHAMBER_SOURCES[Chamber.EUROPEAN_PARLIAMENT],
+    chamber: Chamber.EUROPEAN_PARLIAMENT,
+    namesTerms: true,
+    contentType: 'application/xml',
+    parserVersion: EUROPARL_PARSER_VERSION,
+    // Votes are archived as cut out of their file, under the file's URL with the vote as fragment
+    documentUrl: id => {
+      const file = voteFiles.get(id);
+      return `${pathToFileURL(file ? path.resolve(directory, file) : path.resolve(directory)).href}#${id}`;
+    },
+    listSessionIds: async config => {
+      const from = Math.min(config.startG, config.endG);
+      const to = Math.max(config.startG, config.endG);
+      const ids = Array.from((await buildIndex()).keys())
+        .filter(id => id >= from && id <= to)
+        .sort((a, b) => a - b);
+      
+      return config.reverse ? ids.reverse() : ids;
+    },
+    fetchDocument: async id => {
+      const file = (await buildIndex()).get(id);
+      return file ? extractEuroparlVote(await readFile(file), id) : null;
+    },
+    parseSession: (raw, id) => parseEuroparlVote(raw, id),
+    parseMembers: (raw, id) => parseEuroparlMembers(raw, id, options.members),
+  };
+}
+
+/**
+ * Get the default adapter of a chamber
+ * European Parliament votes are read from files, so that adapter has to be created with its directory.
+ * @param loadPage Page loader replacing the adapter's default one
+ */
+export function getVoteSource(chamber: ChamberValue, loadPage?: PageLoader): VoteSourceAdapter {
+  switch (chamber) {
+    case Chamber.DEPUTIES:
+      return createPspSource(loadPage);
+    case Chamber.SENATE:
+      return createSenateSource(loadPage);
+    default:
+      throw new Error(`No default vote source for ${chamber}; create one with its files, e.g. createEuroparlSource(directory)`);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Backfill Aliases Script
+ * 
+ * This script creates name aliases for politicians stored before aliases existed
+ * and lists politicians that share a normalised name for manual review.
+ * 
+ * Usage: npm run db:backfill-aliases
+ */
+
+import { backfillPoliticianAliases, findDuplicatePoliticians } from '../lib/politician-resolver';
+
+async function main() {
+  try {
+    console.log('Backfilling politician aliases...');
+    const created = await backfillPoliticianAliases();
+    console.log(`Created aliases for ${created} politicians`);
+    
+    const duplicates = await findDuplicatePoliticians();
+    console.log(`\nFound ${duplicates.length} names shared by more than one politician`);
+    for (const duplicate of duplicates) {
+      console.log(`- "${duplicate.normalizedAlias}": politicians ${duplicate.politicianIds.join(', ')}`);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,486 @@
+/**
+ * Check HTTP Fetch Script
+ *
+ * This script runs the polite fetcher against a local server whose responses each check sets up,
+ * and reports every check whose requests or results differ from what lib/http-fetch.ts promises:
+ * robots.txt rules, the per-host cap and delay, retries with backoff, conditional requests
+ * answered with 304, missing pages, charsets and the fallback transport.
+ *
+ * Usage: npm run check-http-fetch -- [--only name]
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createPoliteFetcher, parseRobotsTxt, fetchTransport, FetchTransport, PoliteFetchOptions } from '../lib/http-fetch';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const only = optionValue('--only');
+
+const USER_AGENT = 'VoxEngineBot/0.1';
+
+// Slack allowed on timings, since timers fire a little early or late
+const TIMING_SLACK_MS = 20;
+
+/**
+ * Request the server received
+ */
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  at: number;
+}
+
+/**
+ * Response a check sets up for a path; `attempt` counts the requests to that path from 1
+ */
+type Route = (attempt: number, request: http.IncomingMessage) => {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+  delayMs?: number;
+};
+
+/**
+ * Local server answering from the routes of the running check
+ */
+interface CheckServer {
+  baseUrl: string;
+  requests: ReceivedRequest[];
+  inFlight: number;
+  maxInFlight: number;
+  reset(routes: Record<string, Route>): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Check case: sets up routes, runs fetches and returns what differs from the expectation
+ */
+interface FetchCheck {
+  name: string;
+  description: string;
+  run(server: CheckServer): Promise<string[]>;
+}
+
+/**
+ * Start the local server
+ * Paths without a route are answered with 404, robots.txt included, so robots rules only apply where a check sets them.
+ */
+async function startServer(): Promise<CheckServer> {
+  let routes: Record<string, Route> = {};
+  const attempts = new Map<string, number>();
+  
+  const state: CheckServer = {
+    baseUrl: '',
+    requests: [],
+    inFlight: 0,
+    maxInFlight: 0,
+    reset: next => {
+      routes = next;
+      attempts.clear();
+      state.requests = [];
+      state.inFlight = 0;
+      state.maxInFlight = 0;
+    },
+    close: () => new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }),
+  };
+  
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const attempt = (attempts.get(url.pathname) ?? 0) + 1;
+    attempts.set(url.pathname, attempt);
+    state.requests.push({ path: `${url.pathname}${url.search}`, headers: request.headers, at: Date.now() });
+    state.inFlight++;
+    state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+    
+    const route = routes[url.pathname];
+    const answer = route ? route(attempt, request) : { status: 404, body: 'Not found' };
+    setTimeout(() => {
+      state.inFlight--;
+      response.writeHead(answer.status, answer.headers);
+      response.end(answer.body ?? '');
+    }, answer.delayMs ?? 0);
+  });
+  
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  state.baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  return state;
+}
+
+/**
+ * Create a fetcher for a check, fast by default so the checks run quickly
+ */
+function fetcherFor(options: PoliteFetchOptions = {}) {
+  return createPoliteFetcher({ userAgent: USER_AGENT, delayMs: 0, backoffMs: 10, ...options });
+}
+
+/**
+ * Compare a value with the expected one, adding a difference when they do not match
+ */
+function expect(differences: string[], label: string, actual: unknown, expected: unknown): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    differences.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+/**
+ * Run a fetch that should fail
+ * @returns The error message, or null if the fetch succeeded
+ */
+async function failure(fetch: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await fetch();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Gaps between the starts of consecutive requests to a path prefix
+ */
+function startGaps(server: CheckServer, prefix: string): number[] {
+  const starts = server.requests.filter(request => request.path.startsWith(prefix)).map(request => request.at);
+  return starts.slice(1).map((at, index) => at - starts[index]);
+}
+
+const page = (body: string, headers: Record<string, string> = {}): Route => () => ({
+  status: 200,
+  headers: { 'Content-Type': 'text/html; charset=utf-8', ...headers },
+  body,
+});
+
+const CHECKS: FetchCheck[] = [
+  {
+    name: 'robots-rules',
+    description: 'parseRobotsTxt picks the agent group, the longest rule, Allow on ties, wildcards, anchors and Crawl-delay',
+    run: async () => {
+      const differences: string[] = [];
+      const rules = parseRobotsTxt([
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: OtherBot',
+        'User-agent: voxenginebot  # matched case-insensitively',
+        'Disallow: /sqw/',
+        'Allow: /sqw/hlasy.sqw',
+        'Disallow: /*.pdf$',
+        'Allow: /tie',
+        'Disallow: /tie',
+        'Crawl-delay: 2.5',
+      ].join('\n'), USER_AGENT);
+      
+      expect(differences, 'allows /', rules.allows('/'), true);
+      expect(differences, 'allows /sqw/hlasy.sqw?g=1', rules.allows('/sqw/hlasy.sqw?g=1'), true);
+      expect(differences, 'allows /sqw/other.sqw', rules.allows('/sqw/other.sqw'), false);
+      expect(differences, 'allows /docs/a.pdf', rules.allows('/docs/a.pdf'), false);
+      expect(differences, 'allows /docs/a.pdf?x', rules.allows('/docs/a.pdf?x'), true);
+      expect(differences, 'allows /tie', rules.allows('/tie'), true);
+      expect(differences, 'crawlDelayMs', rules.crawlDelayMs, 2500);
+      
+      const fallback = parseRobotsTxt('User-agent: *\nDisallow: /private', USER_AGENT);
+      expect(differences, '* group allows /private', fallback.allows('/private/x'), false);
+      expect(differences, '* group allows /public', fallback.allows('/public'), true);
+      expect(differences, 'empty robots.txt allows /', parseRobotsTxt('', USER_AGENT).allows('/'), true);
+      return differences;
+    },
+  },
+  {
+    name: 'robots-fetch',
+    description: 'robots.txt is read once per host, disallowed URLs are refused and the rest fetched',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({
+        '/robots.txt': page('User-agent: *\nDisallow: /private\n', { 'Content-Type': 'text/plain' }),
+        '/public': page('public'),
+        '/private': page('private'),
+      });
+      const fetcher = fetcherFor();
+      
+      expect(differences, 'public body', (await fetcher.fetchPage(`${server.baseUrl}/public`)).body, 'public');
+      const refused = await failure(() => fetcher.fetchPage(`${server.baseUrl}/private`));
+      expect(differences, 'private refused', refused !== null && refused.includes('disallows'), true);
+      await fetcher.fetchPage(`${server.baseUrl}/public`);
+      
+      expect(differences, 'requests', server.requests.map(request => request.path), ['/robots.txt', '/public', '/public']);
+      expect(differences, 'user agent', server.requests[0]?.headers['user-agent'], USER_AGENT);
+      return differences;
+    },
+  },
+  {
+    name: 'robots-missing',
+    description: 'A missing robots.txt allows everything',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({ '/page': page('ok') });
+      const fetcher = fetcherFor();
+      
+      expect(differences, 'body', (await fetcher.fetchPage(`${server.baseUrl}/page`)).body, 'ok');
+      return differences;
+    },
+  },
+  {
+    name: 'robots-unreachable',
+    description: 'A robots.txt answering 5xx disallows everything until it can be read',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({
+        '/robots.txt': attempt => (attempt <= 2 ? { status: 503 } : { status: 200, body: 'User-agent: *\nAllow: /' }),
+        '/page': page('ok'),
+      });
+      const fetcher = fetcherFor({ maxRetries: 1 });
+      
+      const refused = await failure(() => fetcher.fetchPage(`${server.baseUrl}/page`));
+      expect(differences, 'refused while unreachable', refused !== null && refused.includes('disallows'), true);
+      expect(differences, 'body once readable', (await fetcher.fetchPage(`${server.baseUrl}/page`)).body, 'ok');
+      expect(differences, 'requests', server.requests.map(request => request.path), ['/robots.txt', '/robots.txt', '/robots.txt', '/page']);
+      return differences;
+    },
+  },
+  {
+    name: 'host-cap',
+    description: 'No more than maxPerHost requests are in flight per host',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({ '/slow': () => ({ status: 200, body: 'slow', delayMs: 50 }) });
+      const fetcher = fetcherFor({ maxPerHost: 2 });
+      
+      const pages = await Promise.all(Array.from({ length: 6 }, (_, i) => fetcher.fetchPage(`${server.baseUrl}/slow?i=${i}`)));
+      expect(differences, 'bodies', pages.map(result => result.body), Array(6).fill('slow'));
+      expect(differences, 'most in flight', server.maxInFlight, 2);
+      return differences;
+    },
+  },
+  {
+    name: 'host-delay',
+    description: 'Request starts to a host are spaced by delayMs',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({ '/page': page('ok') });
+      const fetcher = fetcherFor({ delayMs: 100, maxPerHost: 4 });
+      
+      await Promise.all(Array.from({ length: 3 }, (_, i) => fetcher.fetchPage(`${server.baseUrl}/page?i=${i}`)));
+      const gaps = startGaps(server, '/page');
+      expect(differences, 'gaps', gaps.length, 2);
+      if (gaps.some(gap => gap < 100 - TIMING_SLACK_MS)) {
+        differences.push(`gaps: expected at least 100 ms, got ${gaps.join(', ')} ms`);
+      }
+      return differences;
+    },
+  },
+  {
+    name: 'crawl-delay',
+    description: 'A Crawl-delay longer than delayMs wins',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({
+        '/robots.txt': page('User-agent: *\nCrawl-delay: 0.2\n', { 'Content-Type': 'text/plain' }),
+        '/page': page('ok'),
+      });
+      const fetcher = fetcherFor({ delayMs: 0 });
+      
+      await Promise.all(Array.from({ length: 2 }, (_, i) => fetcher.fetchPage(`${server.baseUrl}/page?i=${i}`)));
+      const gaps = startGaps(server, '/page');
+      if (gaps.length !== 1 || gaps[0] < 200 - TIMING_SLACK_MS) {
+        differences.push(`gaps: expected one of at least 200 ms, got ${gaps.join(', ') || 'none'}`);
+      }
+      return differences;
+    },
+  },
+  {
+    name: 'retry-backoff',
+    description: 'Retryable statuses are retried with backoff until the page loads',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({ '/flaky': attempt => (attempt <= 2 ? { status: 503 } : { status: 200, body: 'recovered' }) });
+      const fetcher = fetcherFor({ maxRetries: 3, backoffMs: 40 });
+      
+      const result = await fetcher.fetchPage(`${server.baseUrl}/flaky`);
+      expect(differences, 'body', result.body, 'recovered');
+      expect(differences, 'attempts', server.requests.filter(request => request.path === '/flaky').length, 3);
+      return differences;
+    },
+  },
+  {
+    name: 'retry-after',
+    description: 'A 429 waits at least as long as Retry-After asks',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({ '/limited': attempt => (attempt === 1 ? { status: 429, headers: { 'Retry-After': '1' } } : { status: 200, body: 'ok' }) });
+      const fetcher = fetcherFor({ backoffMs: 1 });
+      
+      expect(differences, 'body', (await fetcher.fetchPage(`${server.baseUrl}/limited`)).body, 'ok');
+      const gaps = startGaps(server, '/limited');
+      if (gaps.length !== 1 || gaps[0] < 1000 - TIMING_SLACK_MS) {
+        differences.push(`wait: expected at least 1000 ms, got ${gaps.join(', ') || 'none'}`);
+      }
+      return differences;
+    },
+  },
+  {
+    name: 'retry-exhausted',
+    description: 'Retries stop after maxRetries and other errors are not retried',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({
+        '/down': () => ({ status: 502 }),
+        '/bad': () => ({ status: 400 }),
+      });
+      const fetcher = fetcherFor({ maxRetries: 2 });
+      
+      const down = await failure(() => fetcher.fetchPage(`${server.baseUrl}/down`));
+      expect(differences, 'down fails', down !== null && down.includes('502'), true);
+      const bad = await failure(() => fetcher.fetchPage(`${server.baseUrl}/bad`));
+      expect(differences, 'bad fails', bad !== null && bad.includes('400'), true);
+      expect(differences, 'down attempts', server.requests.filter(request => request.path === '/down').length, 3);
+      expect(differences, 'bad attempts', server.requests.filter(request => request.path === '/bad').length, 1);
+      return differences;
+    },
+  },
+  {
+    name: 'not-modified',
+    description: 'Pages with validators are requested conditionally and a 304 is served from the store',
+    run: async server => {
+      const differences: string[] = [];
+      const lastModified = 'Tue, 04 Mar 2025 10:00:00 GMT';
+      server.reset({
+        '/cached': (attempt, request) => (request.headers['if-none-match'] === '"v1"'
+          ? { status: 304 }
+          : { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8', ETag: '"v1"', 'Last-Modified': lastModified }, body: 'first' }),
+      });
+      const fetcher = fetcherFor();
+      
+      const first = await fetcher.fetchPage(`${server.baseUrl}/cached`);
+      const second = await fetcher.fetchPage(`${server.baseUrl}/cached`);
+      expect(differences, 'first', { body: first.body, notModified: first.notModified }, { body: 'first', notModified: false });
+      expect(differences, 'second', { status: second.status, body: second.body, notModified: second.notModified }, { status: 304, body: 'first', notModified: true });
+      
+      const conditional = server.requests.filter(request => request.path === '/cached')[1]?.headers;
+      expect(differences, 'if-none-match', conditional?.['if-none-match'], '"v1"');
+      expect(differences, 'if-modified-since', conditional?.['if-modified-since'], lastModified);
+      
+      // Without a validator store nothing is requested conditionally
+      const plain = fetcherFor({ validators: null });
+      await plain.fetchPage(`${server.baseUrl}/cached`);
+      await plain.fetchPage(`${server.baseUrl}/cached`);
+      expect(differences, 'unconditional', server.requests.slice(-1)[0]?.headers['if-none-match'], undefined);
+      return differences;
+    },
+  },
+  {
+    name: 'missing-page',
+    description: '404 and 410 return no body instead of failing',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({ '/gone': () => ({ status: 410 }) });
+      const fetcher = fetcherFor();
+      
+      const missing = await fetcher.fetchPage(`${server.baseUrl}/missing`);
+      const gone = await fetcher.fetchPage(`${server.baseUrl}/gone`);
+      expect(differences, 'missing', { status: missing.status, body: missing.body }, { status: 404, body: null });
+      expect(differences, 'gone', { status: gone.status, body: gone.body }, { status: 410, body: null });
+      return differences;
+    },
+  },
+  {
+    name: 'charset',
+    description: 'Bodies are decoded with the charset they name, or else the one given',
+    run: async server => {
+      const differences: string[] = [];
+      const text = 'Hlasování o návrhu zákona';
+      // á and í have the same byte in latin1 and windows-1250
+      const windows1250 = Buffer.from(text, 'latin1');
+      server.reset({
+        '/unnamed': () => ({ status: 200, headers: { 'Content-Type': 'text/html' }, body: windows1250 }),
+        '/named': () => ({ status: 200, headers: { 'Content-Type': 'text/html; charset=windows-1250' }, body: windows1250 }),
+      });
+      const fetcher = fetcherFor();
+      
+      expect(differences, 'unnamed', (await fetcher.fetchPage(`${server.baseUrl}/unnamed`, 'windows-1250')).body, text);
+      expect(differences, 'named', (await fetcher.fetchPage(`${server.baseUrl}/named`)).body, text);
+      return differences;
+    },
+  },
+  {
+    name: 'fallback',
+    description: 'The fallback transport is tried once the retries fail, with an unconditional request',
+    run: async server => {
+      const differences: string[] = [];
+      server.reset({
+        '/page': (attempt, request) => (request.headers['if-none-match']
+          ? { status: 503 }
+          : { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8', ETag: '"v1"' }, body: 'direct' }),
+      });
+      const calls: Array<Record<string, string>> = [];
+      const fallback: FetchTransport = async request => {
+        calls.push(request.headers);
+        return { status: 200, statusText: 'OK', headers: { 'content-type': 'text/html; charset=utf-8' }, body: new TextEncoder().encode('from fallback') };
+      };
+      const fetcher = fetcherFor({ transport: fetchTransport, fallback, maxRetries: 1 });
+      
+      expect(differences, 'first body', (await fetcher.fetchPage(`${server.baseUrl}/page`)).body, 'direct');
+      expect(differences, 'fallback body', (await fetcher.fetchPage(`${server.baseUrl}/page`)).body, 'from fallback');
+      expect(differences, 'plain attempts', server.requests.filter(request => request.path === '/page').length, 3);
+      expect(differences, 'fallback requests', calls, [{ 'user-agent': USER_AGENT }]);
+      return differences;
+    },
+  },
+];
+
+async function main() {
+  const checks = CHECKS.filter(check => !only || check.name === only);
+  if (checks.length === 0) {
+    console.error(`Usage: npm run check-http-fetch -- [--only name]; names: ${CHECKS.map(check => check.name).join(', ')}`);
+    process.exit(1);
+  }
+  
+  const server = await startServer();
+  
+  try {
+    let failed = 0;
+    
+    for (const check of checks) {
+      let differences: string[];
+      try {
+        differences = await check.run(server);
+      } catch (error) {
+        differences = [`check threw (${error instanceof Error ? error.message : String(error)})`];
+      }
+      
+      console.log(`${differences.length === 0 ? 'ok  ' : 'FAIL'} ${check.name}`);
+      for (const difference of differences) {
+        console.log(`       ${difference}`);
+      }
+      if (differences.length > 0) {
+        failed++;
+      }
+    }
+    
+    console.log(`\n${checks.length - failed} of ${checks.length} checks passed`);
+    if (failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    await server.close();
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,79 @@
+/**
+ * Check Parsers Script
+ *
+ * This script parses the golden fixtures of the vote parsers and compares the result with
+ * the expected output saved next to each page, running the page structure checks as well.
+ * After an intended parser change, --update saves the new output as expected (bump the parser version too).
+ * --capture downloads every listed page from psp.cz again and saves the output it parses into.
+ *
+ * Usage: npm run check-parsers -- [--update | --capture] [--dir path]
+ */
+
+import path from 'path';
+import { checkGoldenFixtures, captureGoldenPages } from '../lib/parser-health';
+import { createPspSource, createHttpPageLoader } from '../lib/vote-sources';
+import { createPoliteFetcher } from '../lib/http-fetch';
+import { Chamber } from '../src/db/schema';
+import { createFixturePageLoader } from '../lib/vote-scraper';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const directory = optionValue('--dir') || path.join(__dirname, '..', 'data', 'fixtures', 'psp-golden');
+const capture = args.includes('--capture');
+const update = capture || args.includes('--update');
+
+async function main() {
+  try {
+    if (capture) {
+      // Unconditional requests, so every page is downloaded in full
+      const fetcher = createPoliteFetcher({ validators: null });
+      const captured = await captureGoldenPages(createHttpPageLoader(Chamber.DEPUTIES, fetcher), directory);
+      await fetcher.close();
+      console.log(`Captured ${captured.length} pages from psp.cz`);
+    }
+    
+    const results = await checkGoldenFixtures(createPspSource(createFixturePageLoader(directory)), directory, update);
+    
+    for (const result of results) {
+      console.log(`${result.passed ? 'ok  ' : 'FAIL'} g=${result.g} (${result.name}${result.captured ? '' : ', hand-written page'})`);
+      for (const difference of result.differences) {
+        console.log(`       ${difference}`);
+      }
+      for (const failure of result.structure) {
+        console.log(`       structure: ${failure}`);
+      }
+    }
+    
+    const failed = results.filter(result => !result.passed).length;
+    if (update) {
+      console.log(`\nSaved the expected output of ${results.length} fixtures`);
+    }
+    console.log(`\n${results.length - failed} of ${results.length} fixtures passed`);
+    
+    const handWritten = results.filter(result => !result.captured).length;
+    if (handWritten > 0) {
+      console.log(`${handWritten} pages are hand-written; replace them with real ones through --capture`);
+    }
+    
+    if (failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,192 @@
+/**
+ * Check Social Sources Script
+ *
+ * This script runs the Mastodon and Bluesky providers against a local mock server that answers
+ * their API requests from saved responses, and compares the feeds read with the expected ones.
+ * With --serve the mock server is kept running instead, so syncs can be pointed at it through
+ * MASTODON_BASE_URL and BLUESKY_BASE_URL.
+ *
+ * Usage: npm run check-social-sources -- [--serve] [--port N] [--dir path]
+ */
+
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { createMastodonProvider, createBlueskyProvider, SocialFeedOptions } from '../lib/social-sources';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const directory = optionValue('--dir') || path.join(__dirname, '..', 'data', 'fixtures', 'social');
+const serve = args.includes('--serve');
+const port = optionValue('--port') ? parseInt(optionValue('--port') as string, 10) : 0;
+
+// Pages are kept small so the checks follow pagination
+const PAGE_SIZE = 2;
+
+/**
+ * Check case, as listed in cases.json
+ */
+interface SocialCase {
+  name: string;
+  description: string;
+  platform: 'mastodon' | 'bluesky';
+  handle: string;
+  options: { sinceId?: string; untilId?: string; startTime?: string; maxPosts?: number };
+  expected: {
+    ids: string[];
+    exhausted: boolean;
+    first?: { externalId: string; text: string; url: string };
+  };
+}
+
+/**
+ * Compare numeric status IDs, as Mastodon orders them
+ */
+function compareStatusIds(a: string, b: string): number {
+  return a.length !== b.length ? a.length - b.length : a.localeCompare(b);
+}
+
+/**
+ * Create the mock server answering Mastodon and Bluesky requests from the saved responses
+ * The Mastodon statuses and the Bluesky feed are single files, listed newest first, served to any account.
+ */
+async function createMockServer(): Promise<http.Server> {
+  const statuses: Array<{ id: string; in_reply_to_id: string | null; reblog: unknown }> =
+    JSON.parse(await fs.readFile(path.join(directory, 'mastodon-statuses.json'), 'utf8'));
+  const feed: unknown[] = JSON.parse(await fs.readFile(path.join(directory, 'bluesky-feed.json'), 'utf8'));
+  
+  return http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const params = url.searchParams;
+    const limit = parseInt(params.get('limit') || '20', 10);
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+    
+    if (url.pathname === '/api/v1/accounts/lookup') {
+      send(200, { id: '109876543210', acct: params.get('acct') });
+      return;
+    }
+    
+    if (/^\/api\/v1\/accounts\/\d+\/statuses$/.test(url.pathname)) {
+      const sinceId = params.get('since_id');
+      const maxId = params.get('max_id');
+      send(200, statuses
+        .filter(status => params.get('exclude_replies') !== 'true' || !status.in_reply_to_id)
+        .filter(status => params.get('exclude_reblogs') !== 'true' || !status.reblog)
+        .filter(status => !sinceId || compareStatusIds(status.id, sinceId) > 0)
+        .filter(status => !maxId || compareStatusIds(status.id, maxId) < 0)
+        .slice(0, limit));
+      return;
+    }
+    
+    if (url.pathname === '/xrpc/app.bsky.feed.getAuthorFeed') {
+      const offset = parseInt(params.get('cursor') || '0', 10);
+      const next = offset + limit;
+      send(200, { feed: feed.slice(offset, next), ...(next < feed.length ? { cursor: String(next) } : {}) });
+      return;
+    }
+    
+    send(404, { error: 'NotFound', message: `No mock response for ${url.pathname}` });
+  });
+}
+
+/**
+ * Read a case's feed and list how it differs from the expected one
+ */
+async function checkCase(socialCase: SocialCase, baseUrl: string): Promise<string[]> {
+  const provider = socialCase.platform === 'mastodon'
+    ? createMastodonProvider({ baseUrl, pageSize: PAGE_SIZE })
+    : createBlueskyProvider({ baseUrl, pageSize: PAGE_SIZE });
+  const options: SocialFeedOptions = {
+    ...socialCase.options,
+    startTime: socialCase.options.startTime ? new Date(socialCase.options.startTime) : null,
+  };
+  const differences: string[] = [];
+  
+  const result = await provider.fetchFeed(socialCase.handle, options);
+  const ids = result.posts.map(post => post.id);
+  if (ids.join(',') !== socialCase.expected.ids.join(',')) {
+    differences.push(`ids: expected ${JSON.stringify(socialCase.expected.ids)}, got ${JSON.stringify(ids)}`);
+  }
+  if (result.exhausted !== socialCase.expected.exhausted) {
+    differences.push(`exhausted: expected ${socialCase.expected.exhausted}, got ${result.exhausted}`);
+  }
+  
+  const expectedFirst = socialCase.expected.first;
+  if (expectedFirst) {
+    const first = result.posts[0];
+    for (const key of Object.keys(expectedFirst) as Array<keyof typeof expectedFirst>) {
+      if (first?.[key] !== expectedFirst[key]) {
+        differences.push(`first.${key}: expected ${JSON.stringify(expectedFirst[key])}, got ${JSON.stringify(first?.[key])}`);
+      }
+    }
+  }
+  
+  return differences;
+}
+
+async function main() {
+  if (isNaN(port)) {
+    console.error('Usage: npm run check-social-sources -- [--serve] [--port N] [--dir path]');
+    process.exit(1);
+  }
+  
+  const server = await createMockServer();
+  await new Promise<void>(resolve => server.listen(port, 'localhost', resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  
+  if (serve) {
+    console.log(`Mock Mastodon and Bluesky APIs listening on ${baseUrl}`);
+    console.log(`Point syncs at it with MASTODON_BASE_URL=${baseUrl} BLUESKY_BASE_URL=${baseUrl}; stop with Ctrl+C`);
+    return new Promise<never>(() => undefined);
+  }
+  
+  try {
+    const cases: SocialCase[] = JSON.parse(await fs.readFile(path.join(directory, 'cases.json'), 'utf8'));
+    let failed = 0;
+    
+    for (const socialCase of cases) {
+      let differences: string[];
+      try {
+        differences = await checkCase(socialCase, baseUrl);
+      } catch (error) {
+        differences = [`feed unreadable (${error instanceof Error ? error.message : String(error)})`];
+      }
+      
+      console.log(`${differences.length === 0 ? 'ok  ' : 'FAIL'} ${socialCase.name}`);
+      for (const difference of differences) {
+        console.log(`       ${difference}`);
+      }
+      if (differences.length > 0) {
+        failed++;
+      }
+    }
+    
+    console.log(`\n${cases.length - failed} of ${cases.length} cases passed`);
+    if (failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    server.close();
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
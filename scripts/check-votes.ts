@@ -0,0 +1,78 @@
+/**
+ * Check Votes Script
+ *
+ * This script recomputes vote totals of stored sessions, compares them with
+ * the totals from the source page and the stored vote count, and optionally
+ * repairs or re-scrapes the sessions that disagree.
+ *
+ * Usage: npm run check-votes -- [startG endG] [--term N] [--limit N] [--senate] [--repair] [--rescrape]
+ */
+
+import { verifySessions, repairSessions, rescrapeSessions, IntegrityCheckOptions } from '../lib/vote-integrity';
+import { createFixturePageLoader, ScrapeOptions } from '../lib/vote-scraper';
+import { Chamber } from '../src/db/schema';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const positional = args.filter((arg, index) => !arg.startsWith('--') && !['--term', '--limit'].includes(args[index - 1]));
+
+const options: IntegrityCheckOptions = {
+  from: positional[0] ? parseInt(positional[0], 10) : undefined,
+  to: positional[1] ? parseInt(positional[1], 10) : undefined,
+  term: optionValue('--term') ? parseInt(optionValue('--term') as string, 10) : null,
+  limit: optionValue('--limit') ? parseInt(optionValue('--limit') as string, 10) : undefined,
+  chamber: args.includes('--senate') ? Chamber.SENATE : Chamber.DEPUTIES,
+};
+const repair = args.includes('--repair');
+const rescrape = args.includes('--rescrape');
+
+// Read saved pages instead of psp.cz when VOTE_FIXTURE_DIR is set
+const fixtureDir = process.env.VOTE_FIXTURE_DIR;
+const scrapeOptions: ScrapeOptions = fixtureDir ? { loadPage: createFixturePageLoader(fixtureDir) } : {};
+
+async function main() {
+  try {
+    const range = options.from !== undefined ? `g=${options.from} to g=${options.to ?? options.from}` : 'all sessions';
+    console.log(`Checking ${options.chamber === Chamber.SENATE ? 'Senate ' : ''}vote totals for ${range}${options.term ? ` in term ${options.term}` : ''}...`);
+    
+    const report = await verifySessions(options);
+    console.log(`\nChecked ${report.checked} sessions, ${report.issues.length} flagged`);
+    for (const issue of report.issues.slice(0, 100)) {
+      console.log(`- ${issue.externalId ? `g=${issue.externalId}` : `#${issue.sessionId}`} (${issue.date}): ${issue.problems.join('; ')}`);
+    }
+    if (report.issues.length > 100) {
+      console.log(`... and ${report.issues.length - 100} more`);
+    }
+    
+    if (report.issues.length === 0) {
+      return;
+    }
+    
+    if (rescrape) {
+      const results = await rescrapeSessions(report.issues, { term: options.term }, scrapeOptions);
+      console.log(`\nRe-scraped ${results.processed} sessions: ${results.added} saved, ${results.notFound} not found, ${results.errors.length} errors`);
+    } else if (repair) {
+      const repaired = await repairSessions(report.issues);
+      console.log(`\nRecomputed vote count of ${repaired} sessions`);
+    } else {
+      console.log('\nRun with --repair to recompute vote counts or --rescrape to fetch flagged sessions again');
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -2,7 +2,8 @@
  * Fetch Tweets Script
  * 
  * This script fetches tweets from politicians with Twitter handles
- * and saves them to the database.
+ * and saves them to the database. With --dry-run it only reports what
+ * would be saved, as JSON with --json.
  */
 
 import { 
@@ -12,17 +13,39 @@ import {
   fetchTweetsForAllPoliticians
 } from '../lib/twitter-scraper';
 
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const json = args.includes('--json');
+
 async function main() {
   try {
-    console.log('Starting Twitter scraping process...');
+    // Keep stdout for the results when they are printed as JSON
+    if (json) {
+      console.log = console.error;
+    }
+    
+    console.log(`Starting Twitter scraping process${dryRun ? ' (dry run, nothing is saved)' : ''}...`);
     
     // Use the new consolidated function to fetch tweets for all politicians
-    const results = await fetchTweetsForAllPoliticians(100);
+    const results = await fetchTweetsForAllPoliticians(100, { dryRun });
     
-    console.log('\n=== FINAL RESULTS ===');
+    if (json) {
+      process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+      return;
+    }
+    
+    console.log(`\n=== ${dryRun ? 'DRY RUN' : 'FINAL'} RESULTS ===`);
     console.log(`Total politicians processed: ${results.processedPoliticians}/${results.totalPoliticians}`);
-    console.log(`Total new tweets added: ${results.totalNewTweets}`);
-    console.log(`Total tweets skipped (duplicates): ${results.totalSkippedTweets}`);
+    console.log(`Total new tweets ${dryRun ? 'to add' : 'added'}: ${results.totalNewTweets}`);
+    console.log(`Total tweets ${dryRun ? 'to skip' : 'skipped'} (duplicates): ${results.totalSkippedTweets}`);
+    
+    if (results.budget) {
+      const { budget } = results;
+      console.log(
+        `API budget for ${budget.month}: ${budget.spentReads} of ${budget.plannedReads} planned reads spent ` +
+        `(run allowance ${budget.allowance}, monthly budget ${budget.monthlyBudget}); ${budget.deferred} politicians left for later runs`
+      );
+    }
     
     if (results.rateLimited) {
       console.warn('\n⚠️ Some requests were rate limited. Not all tweets could be fetched.');
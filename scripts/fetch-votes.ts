@@ -6,36 +6,128 @@
  */
 
 import { 
-  startVoteScraping,
-  ScraperConfig
+  scrapeVotes,
+  startVoteScrapeJob,
+  stopVoteScraping,
+  createFixturePageLoader,
+  ScraperConfig,
+  ScrapeOptions
 } from '../lib/vote-scraper';
+import { isChamber } from '../lib/chambers';
+import { Chamber } from '../src/db/schema';
+import { DryRunReport } from '../lib/dry-run';
 
-// Parse command line arguments
-const args = process.argv.slice(2);
+// Parse command line arguments; --dry-run reports what would be saved instead of saving, as JSON with --json
+const argv = process.argv.slice(2);
+const dryRun = argv.includes('--dry-run');
+const json = argv.includes('--json');
+const args = argv.filter(arg => arg !== '--dry-run' && arg !== '--json');
 const config: ScraperConfig = {
   startG: parseInt(args[0] || '50000', 10),
   endG: parseInt(args[1] || '100000', 10),
   reverse: args[2] === 'true' || args[2] === '1' || false,
   parallelSessions: parseInt(args[3] || '5', 10),
   dateFilter: args[4] || null,
-  skipExisting: args[5] !== 'false' && args[5] !== '0'
+  skipExisting: args[5] !== 'false' && args[5] !== '0',
+  term: args[6] ? parseInt(args[6], 10) : null,
+  chamber: args[7] && isChamber(args[7]) ? args[7] : undefined,
+  dryRun
 };
 
+// Read saved pages instead of psp.cz when VOTE_FIXTURE_DIR is set
+const fixtureDir = process.env.VOTE_FIXTURE_DIR;
+const options: ScrapeOptions = fixtureDir ? { loadPage: createFixturePageLoader(fixtureDir) } : {};
+
+/**
+ * Print what a dry run would have saved, one line per session
+ */
+function printReport(report: DryRunReport) {
+  console.log('\n=== DRY RUN ===');
+  for (const session of report.sessions) {
+    const parts = [`g=${session.g}: ${session.action}`];
+    if (session.reason) {
+      parts.push(`(${session.reason})`);
+    }
+    if (session.action === 'insert' || session.action === 'update' || session.action === 'unchanged') {
+      parts.push(`${session.votesToInsert} votes to insert, ${session.votesToUpdate} to update`);
+    }
+    if (session.fields.length > 0) {
+      parts.push(`fields: ${session.fields.map(change => change.field).join(', ')}`);
+    }
+    if (session.newPoliticians.length > 0) {
+      parts.push(`new politicians: ${session.newPoliticians.join(', ')}`);
+    }
+    if (session.ambiguousPoliticians.length > 0) {
+      parts.push(`ambiguous: ${session.ambiguousPoliticians.join(', ')}`);
+    }
+    console.log(`- ${parts.join('; ')}`);
+  }
+  
+  const { totals } = report;
+  console.log(
+    `\nWould insert ${totals.insert} and update ${totals.update} sessions (${totals.unchanged} unchanged, ` +
+    `${totals.skip} skipped, ${totals.notFound} not found, ${totals.failed} failed), ` +
+    `with ${totals.votesToInsert} votes to insert, ${totals.votesToUpdate} to update and ${totals.newPoliticians} new politicians`
+  );
+}
+
 async function main() {
   try {
+    if (args[7] && !isChamber(args[7])) {
+      console.error(`Unknown chamber "${args[7]}" (use "deputies" or "senate")`);
+      process.exit(1);
+    }
+    
+    if (config.chamber === Chamber.EUROPEAN_PARLIAMENT) {
+      console.error('European Parliament votes are read from files; use npm run import-europarl');
+      process.exit(1);
+    }
+    
+    // Dry runs write nothing, so they run directly rather than as a job
+    if (dryRun) {
+      // Keep stdout for the report when it is printed as JSON
+      if (json) {
+        console.log = console.error;
+      }
+      
+      const results = await scrapeVotes(config, options);
+      if (json) {
+        process.stdout.write(`${JSON.stringify(results.report, null, 2)}\n`);
+      } else if (results.report) {
+        printReport(results.report);
+      }
+      return;
+    }
+    
     console.log('Starting vote scraping process with configuration:');
     console.log(`- Session range: ${config.startG} to ${config.endG} (${config.reverse ? 'reverse' : 'forward'} order)`);
     console.log(`- Parallel sessions: ${config.parallelSessions}`);
     console.log(`- Date filter: ${config.dateFilter || 'none'}`);
     console.log(`- Skip existing: ${config.skipExisting ? 'yes' : 'no'}`);
+    console.log(`- Electoral term: ${config.term || 'any'}`);
+    console.log(`- Source: ${fixtureDir ? `fixtures in ${fixtureDir}` : config.chamber === Chamber.SENATE ? 'senat.cz' : 'psp.cz'}`);
     
     // Start the scraping process
-    const success = await startVoteScraping(config);
+    const job = await startVoteScrapeJob(config, options);
+    
+    // Ctrl+C stops the job cleanly after the session being saved; a second Ctrl+C exits at once
+    process.once('SIGINT', () => {
+      console.log(`\nStopping job #${job.id} after the current session (press Ctrl+C again to exit now)...`);
+      stopVoteScraping(job.id).catch(error => console.error('Error stopping job:', error));
+    });
+    
+    const results = await job.done;
+    console.log(
+      `\nProcessed ${results.processed} sessions: ${results.added} added, ${results.skipped} skipped, ` +
+      `${results.notFound} not found, ${results.errors.length} errors`
+    );
     
-    if (success) {
-      console.log('\nVote scraping completed successfully');
+    if (results.stopped) {
+      console.log('Vote scraping stopped; run npm run find-gaps to pick up the rest of the range');
+    } else if (results.errors.length === 0) {
+      console.log('Vote scraping completed successfully');
     } else {
-      console.error('\nVote scraping failed');
+      console.error('Vote scraping failed');
       process.exit(1);
     }
   } catch (error) {
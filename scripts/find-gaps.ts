@@ -0,0 +1,66 @@
+/**
+ * Find Gaps Script
+ * 
+ * This script lists voting IDs within a range that were never scraped
+ * or failed on their last attempt, and optionally re-queues them.
+ * 
+ * Usage: npm run find-gaps -- <startG> <endG> [--requeue] [--include-not-found] [--senate]
+ */
+
+import { findGaps, getCheckpointSummary } from '../lib/scrape-checkpoints';
+import { requeueGaps, ScraperConfig } from '../lib/vote-scraper';
+import { CHAMBER_SOURCES } from '../lib/chambers';
+import { Chamber } from '../src/db/schema';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const flags = args.filter(arg => arg.startsWith('--'));
+const positional = args.filter(arg => !arg.startsWith('--'));
+
+const config: ScraperConfig = {
+  startG: parseInt(positional[0] || '50000', 10),
+  endG: parseInt(positional[1] || '100000', 10),
+  reverse: false,
+  parallelSessions: parseInt(positional[2] || '5', 10),
+  dateFilter: null,
+  skipExisting: false,
+  chamber: flags.includes('--senate') ? Chamber.SENATE : Chamber.DEPUTIES
+};
+const requeue = flags.includes('--requeue');
+const includeNotFound = flags.includes('--include-not-found');
+
+async function main() {
+  try {
+    console.log(`Checking ${config.chamber === Chamber.SENATE ? 'Senate ' : ''}g=${config.startG} to g=${config.endG} for gaps...`);
+    
+    const summary = await getCheckpointSummary(config.startG, config.endG, CHAMBER_SOURCES[config.chamber || Chamber.DEPUTIES]);
+    console.log('Checkpoints in range:', summary);
+    
+    const gaps = await findGaps(config.startG, config.endG, { includeNotFound, chamber: config.chamber });
+    console.log(`\nFound ${gaps.length} gaps`);
+    for (const gap of gaps.slice(0, 100)) {
+      console.log(`- g=${gap.externalId}: ${gap.status}${gap.reason ? ` (${gap.reason})` : ''}, ${gap.attempts} attempts`);
+    }
+    if (gaps.length > 100) {
+      console.log(`... and ${gaps.length - 100} more`);
+    }
+    
+    if (requeue && gaps.length > 0) {
+      const results = await requeueGaps(config, { includeNotFound });
+      console.log(`\nRe-queued ${results.processed} IDs: ${results.added} added, ${results.notFound} not found, ${results.errors.length} errors`);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,76 @@
+/**
+ * Import European Parliament Votes Script
+ * 
+ * This script reads European Parliament roll-call XML files (PV-*-RCV_*.xml)
+ * from a local directory and saves their votes through the scraper.
+ * 
+ * Usage: npm run import-europarl -- <directory> [--members members.json] [--all]
+ * 
+ * The members file maps person IDs (PersId) to full names, e.g. of Czech MEPs.
+ * Only the listed members are saved; --all saves every member under the surname given in the XML.
+ */
+
+import { promises as fs } from 'fs';
+import { scrapeVotes } from '../lib/vote-scraper';
+import { createEuroparlSource } from '../lib/vote-sources';
+import { Chamber } from '../src/db/schema';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const directory = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+const membersFile = optionValue('--members');
+const allMembers = args.includes('--all');
+
+async function main() {
+  if (!directory || (!membersFile && !allMembers)) {
+    console.error('Usage: npm run import-europarl -- <directory> [--members members.json] [--all]');
+    process.exit(1);
+  }
+  
+  try {
+    const members = membersFile
+      ? JSON.parse(await fs.readFile(membersFile, 'utf8')) as Record<string, string>
+      : undefined;
+    
+    console.log(`Importing European Parliament roll-call votes from ${directory}`);
+    console.log(`- Members: ${members ? `${Object.keys(members).length} listed in ${membersFile}` : 'all'}`);
+    
+    const results = await scrapeVotes(
+      {
+        startG: 0,
+        endG: Number.MAX_SAFE_INTEGER,
+        reverse: false,
+        parallelSessions: 5,
+        dateFilter: null,
+        skipExisting: true,
+        chamber: Chamber.EUROPEAN_PARLIAMENT,
+      },
+      { source: createEuroparlSource(directory, { members }) }
+    );
+    
+    console.log(
+      `\nImported ${results.added} votes with ${results.votesAdded} member votes: ` +
+      `${results.skipped} skipped, ${results.notFound} not found, ${results.errors.length} errors`
+    );
+    if (results.errors.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,64 @@
+/**
+ * Import Open Data Script
+ * 
+ * This script imports the voting archive published by the Chamber of Deputies
+ * as open data (UNL dumps) from a local directory into the database.
+ * 
+ * Usage: npm run import-open-data -- <directory> [year...]
+ */
+
+import { importOpenData, ImportCounters } from '../lib/psp-open-data';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const directory = args[0];
+const years = args.slice(1);
+
+function formatCounters(counters: ImportCounters): string {
+  return `${counters.inserted} inserted, ${counters.updated} updated, ${counters.unchanged} unchanged`;
+}
+
+async function main() {
+  if (!directory) {
+    console.error('Usage: npm run import-open-data -- <directory> [year...]');
+    process.exit(1);
+  }
+  
+  try {
+    console.log(`Importing open data archive from ${directory}${years.length > 0 ? ` (years: ${years.join(', ')})` : ''}`);
+    
+    const results = await importOpenData(directory, years.length > 0 ? { years } : {});
+    
+    console.log('\n=== IMPORT RESULTS ===');
+    console.log(`Years: ${results.years.join(', ')}`);
+    console.log(`Parties: ${formatCounters(results.parties)}`);
+    console.log(`Politicians: ${formatCounters(results.politicians)}`);
+    console.log(`Voting sessions: ${formatCounters(results.sessions)}`);
+    console.log(`Votes: ${formatCounters(results.votes)}`);
+    console.log(`Memberships: ${formatCounters(results.memberships)}`);
+    console.log(`Electoral terms: ${formatCounters(results.terms)}`);
+    console.log(`Term seats: ${formatCounters(results.seats)}`);
+    console.log(`Annulled sessions: ${results.annulledSessions}`);
+    console.log(`Annulments cleared: ${results.clearedAnnulments}`);
+    console.log(`Sessions linked to bills: ${results.billLinks}`);
+    console.log(`Votes skipped (unknown MP, session or result code): ${results.skippedVotes}`);
+    if (results.ambiguousPoliticians.length > 0) {
+      console.log(`Ambiguous politicians (votes skipped): ${results.ambiguousPoliticians.length}`);
+      results.ambiguousPoliticians.forEach(message => console.log(`- ${message}`));
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    console.log('\nOpen data import completed successfully');
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,62 @@
+/**
+ * Link Bills Script
+ *
+ * This script links stored voting sessions to bills and readings by parsing
+ * their titles, or prints the voting history of one bill.
+ *
+ * Usage: npm run link-bills -- [--term N]
+ *        npm run link-bills -- --term N --print N
+ */
+
+import { backfillBillLinks, fetchBillVotingHistory } from '../lib/bills';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const term = optionValue('--term') ? parseInt(optionValue('--term') as string, 10) : null;
+const printNumber = optionValue('--print') ? parseInt(optionValue('--print') as string, 10) : null;
+
+async function main() {
+  try {
+    if (printNumber) {
+      if (!term) {
+        console.error('--print needs --term, since print numbers restart every term');
+        process.exit(1);
+      }
+      
+      const history = await fetchBillVotingHistory(term, printNumber);
+      if (!history) {
+        console.log(`No votes linked to print ${printNumber} in term ${term}`);
+        return;
+      }
+      
+      console.log(`Print ${printNumber}/${term}: ${history.bill.title || '(no title)'}`);
+      for (const vote of history.votes) {
+        const reading = vote.reading ? `${vote.reading}. reading` : 'reading unknown';
+        const annulled = vote.annulled ? ' [annulled]' : '';
+        console.log(`- ${vote.date} g=${vote.sessionId} (${reading}, ${vote.voteKind || 'other'}): ${vote.outcome || 'no result'}${annulled}`);
+      }
+      return;
+    }
+    
+    console.log(`Linking voting sessions to bills${term ? ` in term ${term}` : ''}...`);
+    const results = await backfillBillLinks(term);
+    console.log(`Checked ${results.checked} unlinked sessions, linked ${results.linked} to a bill`);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,80 @@
+/**
+ * Re-parse Archive Script
+ *
+ * This script parses archived voting pages of a source ID range again with the
+ * current parsers and reports how the result differs from what is stored.
+ *
+ * Usage: npm run reparse-archive -- <startG> <endG> [--senate] [--apply]
+ */
+
+import { reparseArchive, ReparsedSession } from '../lib/archive-reparse';
+import { Chamber } from '../src/db/schema';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const positional = args.filter(arg => !arg.startsWith('--'));
+const from = positional[0] ? parseInt(positional[0], 10) : NaN;
+const to = positional[1] ? parseInt(positional[1], 10) : from;
+const chamber = args.includes('--senate') ? Chamber.SENATE : Chamber.DEPUTIES;
+const apply = args.includes('--apply');
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? '-' : JSON.stringify(value);
+}
+
+function describe(session: ReparsedSession): string[] {
+  const lines = [`- g=${session.externalId} (${session.status}, archived ${session.fetchedAt.toISOString()})`];
+  for (const change of session.fields) {
+    lines.push(`    ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`);
+  }
+  for (const change of session.votes.slice(0, 20)) {
+    lines.push(`    vote of ${change.name}: ${change.before ?? '-'} -> ${change.after ?? '-'}`);
+  }
+  if (session.votes.length > 20) {
+    lines.push(`    ... and ${session.votes.length - 20} more vote changes`);
+  }
+  return lines;
+}
+
+async function main() {
+  if (isNaN(from) || isNaN(to)) {
+    console.error('Usage: npm run reparse-archive -- <startG> <endG> [--senate] [--apply]');
+    process.exit(1);
+  }
+  
+  try {
+    console.log(`Re-parsing archived ${chamber === Chamber.SENATE ? 'Senate ' : ''}pages g=${from} to g=${to}${apply ? ' and saving the results' : ''}...`);
+    
+    const report = await reparseArchive({ from, to, chamber, apply });
+    
+    console.log(
+      `\nChecked ${report.checked} pages: ${report.unchanged} unchanged, ${report.changed} changed, ` +
+      `${report.added} not stored yet, ${report.unparseable} unparseable, ${report.missing} missing from the archive`
+    );
+    for (const session of report.sessions.slice(0, 100)) {
+      describe(session).forEach(line => console.log(line));
+    }
+    if (report.sessions.length > 100) {
+      console.log(`... and ${report.sessions.length - 100} more`);
+    }
+    
+    if (apply) {
+      console.log(`\nSaved ${report.applied} re-parsed sessions`);
+    } else if (report.changed + report.added > 0) {
+      console.log('\nRun with --apply to save the re-parsed sessions');
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
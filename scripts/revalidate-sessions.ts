@@ -0,0 +1,120 @@
+/**
+ * Revalidate Sessions Script
+ *
+ * This script reads sessions saved or last checked more than N days ago from their
+ * source again, logs every difference to session_changes and stages or applies it.
+ * Changes to members' recorded votes are listed first.
+ *
+ * Usage: npm run revalidate-sessions -- [--days N] [--limit N] [--senate] [--from-archive] [--apply]
+ *        npm run revalidate-sessions -- --apply-staged [sessionId...]
+ */
+
+import { revalidateSessions, applyStagedChanges, RevalidatedSession } from '../lib/revalidation';
+import { createPspSource, createSenateSource } from '../lib/vote-sources';
+import { createFixturePageLoader } from '../lib/vote-scraper';
+import { Chamber } from '../src/db/schema';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const positional = args.filter((arg, index) => !arg.startsWith('--') && !['--days', '--limit'].includes(args[index - 1]));
+const days = optionValue('--days') ? parseInt(optionValue('--days') as string, 10) : 30;
+const limit = optionValue('--limit') ? parseInt(optionValue('--limit') as string, 10) : undefined;
+const chamber = args.includes('--senate') ? Chamber.SENATE : Chamber.DEPUTIES;
+const fromArchive = args.includes('--from-archive');
+const apply = args.includes('--apply');
+const applyStaged = args.includes('--apply-staged');
+
+// Read saved pages instead of the live site when VOTE_FIXTURE_DIR is set
+const fixtureDir = process.env.VOTE_FIXTURE_DIR;
+const source = fixtureDir
+  ? (chamber === Chamber.SENATE ? createSenateSource : createPspSource)(createFixturePageLoader(fixtureDir))
+  : undefined;
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? '-' : JSON.stringify(value);
+}
+
+function describe(session: RevalidatedSession): string[] {
+  const lines = [`- g=${session.externalId} (${session.status}${session.message ? `: ${session.message}` : ''})`];
+  for (const change of session.fields) {
+    lines.push(`    ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`);
+  }
+  if (session.votes.length > 0) {
+    lines.push(`    ${session.votes.length} member vote changes`);
+  }
+  return lines;
+}
+
+async function main() {
+  if (isNaN(days) || days < 0 || (limit !== undefined && isNaN(limit))) {
+    console.error('Usage: npm run revalidate-sessions -- [--days N] [--limit N] [--senate] [--from-archive] [--apply]');
+    process.exit(1);
+  }
+  
+  try {
+    if (applyStaged) {
+      const sessionIds = positional.map(id => parseInt(id, 10)).filter(id => !isNaN(id));
+      console.log(`Applying staged changes${sessionIds.length > 0 ? ` of sessions ${sessionIds.join(', ')}` : ''}...`);
+      
+      const results = await applyStagedChanges(sessionIds.length > 0 ? sessionIds : null, source);
+      console.log(`\nApplied ${results.changes} changes to ${results.sessions} sessions, ${results.errors.length} errors`);
+      for (const error of results.errors) {
+        console.log(`- session #${error.sessionId}: ${error.message}`);
+      }
+      return;
+    }
+    
+    console.log(
+      `Revalidating ${chamber === Chamber.SENATE ? 'Senate ' : ''}sessions not checked for ${days} days` +
+      `${fromArchive ? ' from the archive' : ''}${apply ? ' and applying the changes' : ''}...`
+    );
+    
+    const report = await revalidateSessions({ olderThanDays: days, chamber, source, limit, fromArchive, apply });
+    
+    console.log(
+      `\nChecked ${report.checked} sessions: ${report.unchanged} unchanged, ${report.changed} changed, ` +
+      `${report.unavailable} unavailable, ${report.failed} failed`
+    );
+    
+    // Corrected votes of members matter most to anyone citing a voting record, so they come first
+    if (report.voteChanges.length > 0) {
+      console.log(`\nMember votes changed at the source (${report.voteChanges.length}):`);
+      for (const change of report.voteChanges) {
+        console.log(`  g=${change.externalId} (${change.date}) ${change.name}: ${change.before ?? '-'} -> ${change.after ?? '-'}`);
+      }
+    }
+    
+    if (report.sessions.length > 0) {
+      console.log('');
+    }
+    for (const session of report.sessions.slice(0, 100)) {
+      describe(session).forEach(line => console.log(line));
+    }
+    if (report.sessions.length > 100) {
+      console.log(`... and ${report.sessions.length - 100} more`);
+    }
+    
+    if (apply) {
+      console.log(`\nUpdated ${report.applied} sessions${report.staged > 0 ? `, ${report.staged} removed members left staged for review` : ''}`);
+    } else if (report.staged > 0) {
+      console.log(`\nStaged ${report.staged} changes; run with --apply-staged to apply them`);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
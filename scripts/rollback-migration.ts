@@ -0,0 +1,107 @@
+/**
+ * Migration Rollback Script
+ * This script reverts a migration by running its down script from drizzle/down
+ *
+ * Usage: npm run db:rollback -- <migration tag>
+ * Example: npm run db:rollback -- 0008_handy_charles_xavier
+ *
+ * Only the latest applied migration can be reverted: drizzle only applies migrations newer than
+ * the latest one it recorded, so an older migration reverted under newer ones would never be
+ * applied again. Revert the newer migrations first, newest first.
+ *
+ * Down scripts also remove the migration from the drizzle journal table, so
+ * `npm run db:migrate` applies it again. Revert the schema code before migrating.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+
+// Parse database URL from environment variables
+const POSTGRES_URL = process.env.POSTGRES_URL || process.env.DATABASE_URL;
+
+if (!POSTGRES_URL) {
+  console.error('❌ POSTGRES_URL or DATABASE_URL environment variable is not set');
+  process.exit(1);
+}
+
+const tag = process.argv[2];
+
+/**
+ * Get the creation time drizzle records for a migration, from the migration journal
+ */
+async function migrationTime(migrationTag: string): Promise<number | null> {
+  const journal: { entries: Array<{ tag: string; when: number }> } =
+    JSON.parse(await fs.readFile('./drizzle/meta/_journal.json', 'utf8'));
+  const entry = journal.entries.find(candidate => candidate.tag === migrationTag);
+  return entry ? entry.when : null;
+}
+
+async function main() {
+  if (!tag) {
+    console.error('Usage: npm run db:rollback -- <migration tag>');
+    process.exit(1);
+  }
+
+  const downFile = path.join('./drizzle/down', `${tag}.sql`);
+  const statements = await fs.readFile(downFile, 'utf8').catch(() => null);
+  if (statements === null) {
+    console.error(`❌ No down script found at ${downFile}`);
+    process.exit(1);
+  }
+
+  const when = await migrationTime(tag);
+  if (when === null) {
+    console.error(`❌ Migration ${tag} is not in drizzle/meta/_journal.json`);
+    process.exit(1);
+  }
+
+  const pool = new Pool({
+    connectionString: POSTGRES_URL,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : undefined,
+  });
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the journal so no migration is applied between the check and the revert
+    await client.query('LOCK TABLE "drizzle"."__drizzle_migrations" IN EXCLUSIVE MODE');
+    const latest = await client.query<{ created_at: string }>(
+      'SELECT created_at FROM "drizzle"."__drizzle_migrations" ORDER BY created_at DESC LIMIT 1'
+    );
+    if (latest.rows.length === 0 || Number(latest.rows[0].created_at) !== when) {
+      await client.query('ROLLBACK');
+      const applied = await client.query('SELECT 1 FROM "drizzle"."__drizzle_migrations" WHERE created_at = $1', [when]);
+      console.error(applied.rows.length === 0
+        ? `❌ Migration ${tag} is not applied`
+        : `❌ Migration ${tag} is not the latest applied migration; revert the newer ones first`);
+      process.exit(1);
+    }
+
+    console.log(`Reverting migration ${tag}...`);
+    await client.query(statements);
+    await client.query('COMMIT');
+    console.log(`✅ Migration ${tag} reverted; run \`npm run db:migrate\` to apply it again`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Rollback failed:', error);
+    process.exit(1);
+  } finally {
+    client.release();
+    await pool.end();
+    console.log('Database connection closed');
+  }
+}
+
+// Run the rollback
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Rollback script failed:', error);
+    process.exit(1);
+  });
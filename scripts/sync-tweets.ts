@@ -0,0 +1,78 @@
+/**
+ * Sync Tweets Script
+ *
+ * This script fetches the tweets each politician posted since their last sync, or with
+ * --backfill pages back through older tweets until a date, and saves them with the
+ * moved sync cursors. --platform syncs Mastodon or Bluesky posts instead. With --dry-run the
+ * posts are fetched but nothing is saved; the counts are what saving would insert.
+ *
+ * Usage: npm run sync-tweets -- [--platform twitter|mastodon|bluesky] [--backfill] [--until YYYY-MM-DD] [--max N] [--dry-run]
+ */
+
+import { syncAllPoliticianTweets } from '../lib/twitter-api';
+import { isSocialPlatform } from '../lib/social-sources';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const optionValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const platform = optionValue('--platform') || 'twitter';
+const backfill = args.includes('--backfill');
+const until = optionValue('--until') ? new Date(optionValue('--until') as string) : null;
+const maxTweets = optionValue('--max') ? parseInt(optionValue('--max') as string, 10) : undefined;
+const dryRun = args.includes('--dry-run');
+
+async function main() {
+  if (
+    !isSocialPlatform(platform) ||
+    (until && isNaN(until.getTime())) ||
+    (maxTweets !== undefined && (isNaN(maxTweets) || maxTweets < 1))
+  ) {
+    console.error('Usage: npm run sync-tweets -- [--platform twitter|mastodon|bluesky] [--backfill] [--until YYYY-MM-DD] [--max N] [--dry-run]');
+    process.exit(1);
+  }
+  
+  try {
+    console.log(
+      backfill
+        ? `Backfilling ${platform} posts${until ? ` back to ${until.toISOString().slice(0, 10)}` : ''}...`
+        : `Fetching ${platform} posts made since the last sync...`
+    );
+    if (dryRun) {
+      console.log('Dry run, nothing is saved');
+    }
+    
+    const results = await syncAllPoliticianTweets({ platform, mode: backfill ? 'backfill' : 'forward', backfillUntil: until, maxTweets, dryRun });
+    
+    for (const result of results) {
+      if (result.error) {
+        console.error(`❌ ${result.name}: ${result.error}`);
+      } else {
+        const cutShort = result.gapUntilId ? ' (cut short by --max; the next sync reads the rest)' : ' (cut short by --max)';
+        console.log(`✅ ${result.name}: ${result.fetched} fetched, ${result.saved} ${dryRun ? 'to add' : 'new'}${result.complete ? '' : cutShort}`);
+      }
+    }
+    
+    const failed = results.filter(result => result.error).length;
+    console.log(
+      `\n${dryRun ? 'Checked' : 'Synced'} ${results.length - failed} politicians: ` +
+      `${results.reduce((sum, result) => sum + result.saved, 0)} ${dryRun ? 'posts to add' : 'new posts'}, ` +
+      `${failed} errors`
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
@@ -58,6 +58,12 @@ pool.on('remove', () => {
 // Create a Drizzle instance with the schema
 export const db = drizzle(pool, { schema });
 
+// Transaction handle passed to db.transaction callbacks
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Anything that can run queries: the shared instance or an open transaction
+export type DbExecutor = typeof db | Transaction;
+
 /**
  * Get a client from the pool with retry logic
  * @param {number} retries - Number of retries
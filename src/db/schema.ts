@@ -1,4 +1,5 @@
-import { pgTable, serial, text, timestamp, integer, boolean, index, uniqueIndex, varchar, date, primaryKey, json } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, integer, boolean, index, uniqueIndex, varchar, date, primaryKey, json, check, AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 /**
  * Party table
@@ -17,6 +18,62 @@ export const parties = pgTable('parties', {
     shortNameIdx: index('party_short_name_idx').on(table.shortName),
 }));
 
+/**
+ * Chamber enum
+ * Defines the chambers of Parliament whose votes are collected, including the European Parliament for Czech MEPs
+ */
+export const Chamber = {
+    DEPUTIES: 'deputies', // Poslanecká sněmovna (psp.cz)
+    SENATE: 'senate',     // Senát (senat.cz)
+    EUROPEAN_PARLIAMENT: 'european_parliament', // European Parliament (europarl.europa.eu roll-call XML)
+} as const;
+
+/**
+ * Electoral terms table
+ * Stores the electoral terms (volební období) of the Chamber of Deputies,
+ * the terms (funkční období) of the Senate and the terms of the European Parliament
+ */
+export const electoralTerms = pgTable('electoral_terms', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    chamber: varchar('chamber', { length: 20 }).default(Chamber.DEPUTIES).notNull(), // Chamber the term belongs to (using Chamber values)
+    number: integer('number').notNull(),                  // Ordinal number of the term within its chamber (e.g., 9 for 2021–2025)
+    name: varchar('name', { length: 100 }).notNull(),     // Display name of the term
+    externalId: varchar('external_id', { length: 50 }),   // Organ code from the source system (e.g., "PSP9")
+    startDate: date('start_date').notNull(),              // First day of the term
+    endDate: date('end_date'),                            // Last day of the term (null while ongoing)
+    seatCount: integer('seat_count').default(200).notNull(), // Number of seats in the chamber
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    startDateIdx: index('electoral_term_start_date_idx').on(table.startDate),
+    chamberNumberIdx: uniqueIndex('electoral_term_chamber_number_idx').on(table.chamber, table.number),
+}));
+
+/**
+ * Term seats table
+ * Stores the number of seats each party held in an electoral term
+ */
+export const termSeats = pgTable('term_seats', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    termId: integer('term_id').references(() => electoralTerms.id).notNull(), // Foreign key reference to electoral terms
+    partyId: integer('party_id').references(() => parties.id).notNull(), // Foreign key reference to parties
+    seats: integer('seats').notNull(),                    // Number of mandates won from the party's list
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    uniqueConstraint: uniqueIndex('term_seat_unique_idx').on(table.termId, table.partyId),
+}));
+
+/**
+ * Twitter priority enum
+ * Defines how eagerly a politician's tweets are polled when the API budget is tight
+ */
+export const TwitterPriority = {
+    HIGH: 1,     // Polled first, e.g. party leaders and ministers
+    NORMAL: 2,
+    LOW: 3,      // Polled only when the budget has room left
+} as const;
+
 /**
  * Politicians table
  * Stores information about politicians
@@ -24,52 +81,221 @@ export const parties = pgTable('parties', {
 export const politicians = pgTable('politicians', {
     id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
     name: varchar('name', { length: 100 }).notNull(),     // Politician's full name
+    externalId: varchar('external_id', { length: 50 }), // Official person ID from the source system (e.g., psp.cz id_osoba), unique through politician_external_id_idx
     partyId: integer('party_id').references(() => parties.id), // Foreign key reference to parties
     twitterHandle: varchar('twitter_handle', { length: 50 }), // Politician's Twitter handle (without @)
+    mastodonHandle: varchar('mastodon_handle', { length: 100 }), // Politician's Mastodon account (user@instance, without the leading @)
+    blueskyHandle: varchar('bluesky_handle', { length: 100 }), // Politician's Bluesky handle (e.g., name.bsky.social)
     officialTitle: varchar('official_title', { length: 100 }), // Official title or position
     biography: text('biography'),                       // Short biography
     profileImageUrl: text('profile_image_url'),         // URL to profile image
     isVerified: boolean('is_verified').default(false),    // Whether the politician is verified
     lastTwitterSync: timestamp('last_twitter_sync'),      // Last time Twitter data was synced
+    twitterPriority: integer('twitter_priority').default(2).notNull(), // Polling priority tier (using TwitterPriority values)
+    provenanceId: integer('provenance_id').references(() => provenanceRecords.id), // Fetch the politician was first created from
     createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
     updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
 }, (table) => ({
     nameIdx: index('politician_name_idx').on(table.name),
     twitterIdx: index('politician_twitter_idx').on(table.twitterHandle),
     partyIdx: index('politician_party_idx').on(table.partyId),
+    externalIdIdx: uniqueIndex('politician_external_id_idx').on(table.externalId),
 }));
 
+/**
+ * Politician aliases table
+ * Stores name variants (titles, diacritics, word order) under which a politician appears in sources
+ */
+export const politicianAliases = pgTable('politician_aliases', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    politicianId: integer('politician_id').references(() => politicians.id).notNull(), // Foreign key reference to politicians
+    alias: varchar('alias', { length: 150 }).notNull(),   // Name exactly as it appeared in the source
+    normalizedAlias: varchar('normalized_alias', { length: 150 }).notNull(), // Name without titles, diacritics and case, tokens sorted
+    source: varchar('source', { length: 50 }),            // Source where the alias was seen (e.g., 'psp', 'open_data')
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+}, (table) => ({
+    politicianIdx: index('politician_alias_politician_idx').on(table.politicianId),
+    normalizedIdx: index('politician_alias_normalized_idx').on(table.normalizedAlias),
+    uniqueConstraint: uniqueIndex('politician_alias_unique_idx').on(table.politicianId, table.normalizedAlias),
+}));
+
+/**
+ * Membership types enum
+ * Defines the kinds of affiliation a politician can hold
+ */
+export const MembershipType = {
+    PARTY: 'party',
+    CLUB: 'club',
+} as const;
+
+/**
+ * Politician memberships table
+ * Stores dated party and parliamentary club memberships, so votes can be attributed
+ * to the affiliation in force on the session date
+ */
+export const politicianMemberships = pgTable('politician_memberships', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    politicianId: integer('politician_id').references(() => politicians.id).notNull(), // Foreign key reference to politicians
+    partyId: integer('party_id').references(() => parties.id).notNull(), // Foreign key reference to the party or club
+    type: varchar('type', { length: 20 }).notNull(),      // Kind of affiliation (using MembershipType values)
+    validFrom: date('valid_from').notNull(),              // First day of the membership
+    validTo: date('valid_to'),                            // Last day of the membership (null while ongoing)
+    source: varchar('source', { length: 50 }),            // Source of the range (e.g., 'psp', 'open_data', 'backfill')
+    termId: integer('term_id').references(() => electoralTerms.id), // Electoral term the membership started in
+    chamber: varchar('chamber', { length: 20 }).default(Chamber.DEPUTIES).notNull(), // Chamber the club or party list belongs to (using Chamber values)
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    politicianIdx: index('politician_membership_politician_idx').on(table.politicianId, table.validFrom),
+    partyIdx: index('politician_membership_party_idx').on(table.partyId),
+    termIdx: index('politician_membership_term_idx').on(table.termId),
+    uniqueConstraint: uniqueIndex('politician_membership_unique_idx').on(table.politicianId, table.chamber, table.type, table.validFrom),
+}));
+
+/**
+ * Bills table
+ * Stores bills (sněmovní tisky) put to the vote, numbered per electoral term
+ */
+export const bills = pgTable('bills', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    termId: integer('term_id').references(() => electoralTerms.id).notNull(), // Electoral term the print was filed in
+    printNumber: integer('print_number').notNull(),       // Print (tisk) number within the term (e.g., 123)
+    title: text('title'),                                 // Title of the bill
+    externalId: varchar('external_id', { length: 50 }),   // Print ID in the source system (id_tisk)
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    termPrintIdx: uniqueIndex('bill_term_print_idx').on(table.termId, table.printNumber),
+}));
+
+/**
+ * Agenda items table
+ * Stores items (body) of meeting agendas, optionally linked to the bill they discuss
+ */
+export const agendaItems = pgTable('agenda_items', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    termId: integer('term_id').references(() => electoralTerms.id).notNull(), // Electoral term of the meeting
+    meetingNumber: integer('meeting_number').notNull(),   // Meeting (schůze) number within the term
+    itemNumber: integer('item_number').notNull(),         // Item (bod) number within the meeting
+    title: text('title'),                                 // Title of the agenda item
+    billId: integer('bill_id').references(() => bills.id), // Bill discussed under the item
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    meetingItemIdx: uniqueIndex('agenda_item_meeting_item_idx').on(table.termId, table.meetingNumber, table.itemNumber),
+    billIdx: index('agenda_item_bill_idx').on(table.billId),
+}));
+
+/**
+ * Vote kind enum
+ * Defines what a vote on a bill decided
+ */
+export const VoteKind = {
+    AMENDMENT: 'amendment',   // An amendment (pozměňovací návrh)
+    FINAL: 'final',           // The bill as a whole (hlasování o návrhu jako celku)
+    PROCEDURAL: 'procedural', // The proceedings, e.g. the agenda or a deadline
+} as const;
+
+/**
+ * Session outcome enum
+ * Defines whether the motion put to the vote passed
+ */
+export const SessionOutcome = {
+    PASSED: 'passed',
+    REJECTED: 'rejected',
+} as const;
+
+/**
+ * Majority type enum
+ * Defines the majority a motion needed to pass
+ */
+export const MajorityType = {
+    SIMPLE: 'simple',                 // More than half of the members present
+    ABSOLUTE: 'absolute',             // More than half of all members (101 of 200)
+    CONSTITUTIONAL: 'constitutional', // Three fifths (120 of 200 members, or of those present)
+} as const;
+
+/**
+ * Annulment reason enum
+ * Defines why a vote does not count
+ */
+export const AnnulmentReason = {
+    VOID: 'void',           // Declared void (zmatečné hlasování)
+    CONTESTED: 'contested', // Result contested and the vote repeated (zpochybnění)
+} as const;
+
+/**
+ * Result summary
+ * Typed counts stored in voting_sessions.result_summary
+ */
+export interface ResultSummary {
+    yes: number;
+    no: number;
+    abstain: number;
+    notVoting: number;
+    absent: number | null;
+    present: number | null;
+    required: number | null;
+}
+
 /**
  * Voting sessions table
  * Stores information about voting sessions
  */
 export const votingSessions = pgTable('voting_sessions', {
     id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
-    externalId: varchar('external_id', { length: 50 }).unique(), // External ID from the source system (e.g., "G12345")
+    chamber: varchar('chamber', { length: 20 }).default(Chamber.DEPUTIES).notNull(), // Chamber that held the vote (using Chamber values)
+    externalId: varchar('external_id', { length: 50 }),   // External ID from the source system, unique per chamber (e.g., "G12345")
     title: varchar('title', { length: 200 }).notNull(),   // Title of the voting session
     description: text('description'),                     // Description of the voting session
     date: date('date').notNull(),                         // Date of the voting session
+    termId: integer('term_id').references(() => electoralTerms.id), // Electoral term the session belongs to
     category: varchar('category', { length: 100 }),       // Category or type of vote
-    resultSummary: json('result_summary'),                // Summary of voting results as JSON (counts, percentages)
+    resultSummary: json('result_summary').$type<ResultSummary>(), // Summary of voting results as JSON (typed counts)
+    meetingNumber: integer('meeting_number'),             // Meeting (schůze) number within the term
+    voteNumber: integer('vote_number'),                   // Vote (hlasování) number within the meeting
+    votedAt: timestamp('voted_at', { withTimezone: true }), // Exact time of the vote (recorded in Europe/Prague)
+    presentCount: integer('present_count'),               // Number of members present
+    quorum: integer('quorum'),                            // Number of yes votes required to pass
+    outcome: varchar('outcome', { length: 20 }),          // Whether the motion passed (using SessionOutcome values)
+    majorityType: varchar('majority_type', { length: 20 }), // Required majority (using MajorityType values)
+    annulled: boolean('annulled').default(false).notNull(), // Whether the vote was annulled and does not count
+    annulmentReason: varchar('annulment_reason', { length: 20 }), // Why the vote was annulled (using AnnulmentReason values)
+    repeatSessionId: integer('repeat_session_id').references((): AnyPgColumn => votingSessions.id), // Session that repeated the annulled vote
+    agendaItemId: integer('agenda_item_id').references(() => agendaItems.id), // Agenda item the vote was held under
+    billId: integer('bill_id').references(() => bills.id), // Bill the vote decided
+    reading: integer('reading'),                          // Reading of the bill (1, 2 or 3)
+    voteKind: varchar('vote_kind', { length: 20 }),       // What the vote decided (using VoteKind values)
+    voteCount: integer('vote_count').default(0),          // Number of individual votes stored for the session
     sourceUrl: text('source_url'),                        // URL to the source of the data
+    archiveHash: varchar('archive_hash', { length: 64 }), // SHA-256 of the archived payload the session was last parsed from
+    provenanceId: integer('provenance_id').references(() => provenanceRecords.id), // Fetch and parser the session was last saved from
+    revalidatedAt: timestamp('revalidated_at', { withTimezone: true }), // Last time the session was re-read from its source and compared
     createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
     updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
 }, (table) => ({
     dateIdx: index('voting_session_date_idx').on(table.date),
-    externalIdIdx: uniqueIndex('voting_session_external_id_idx').on(table.externalId),
+    externalIdIdx: uniqueIndex('voting_session_external_id_idx').on(table.chamber, table.externalId),
     categoryIdx: index('voting_session_category_idx').on(table.category),
+    termIdx: index('voting_session_term_idx').on(table.termId),
+    meetingVoteIdx: index('voting_session_meeting_vote_idx').on(table.termId, table.meetingNumber, table.voteNumber),
+    repeatIdx: index('voting_session_repeat_idx').on(table.repeatSessionId),
+    billIdx: index('voting_session_bill_idx').on(table.billId),
+    agendaItemIdx: index('voting_session_agenda_item_idx').on(table.agendaItemId),
 }));
 
 /**
  * Vote types enum
- * Defines the possible types of votes
+ * Defines the possible types of votes; source codes are mapped in lib/vote-codes.ts
  */
 export const VoteType = {
-    YES: 'yes',
-    NO: 'no',
-    ABSTAIN: 'abstain',
-    ABSENT: 'absent',
-    NOT_VOTING: 'not_voting',
+    YES: 'yes',                                      // ano
+    NO: 'no',                                        // ne
+    ABSTAIN: 'abstain',                              // zdržel se
+    NOT_VOTING: 'not_voting',                        // přihlášen, nehlasoval (present but did not vote)
+    ABSENT: 'absent',                                // nepřihlášen (not logged in)
+    EXCUSED: 'excused',                              // omluven (excused absence)
+    ABSTAIN_OR_NOT_VOTING: 'abstain_or_not_voting',  // zdržel se / nehlasoval, not told apart in older terms
 } as const;
 
 /**
@@ -80,7 +306,9 @@ export const votes = pgTable('votes', {
     id: serial('id').primaryKey(),                               // Auto-incremented unique identifier
     sessionId: integer('session_id').references(() => votingSessions.id).notNull(), // Foreign key reference to voting sessions
     politicianId: integer('politician_id').references(() => politicians.id).notNull(), // Foreign key reference to politicians
-    vote: varchar('vote', { length: 20 }).notNull(),              // The actual vote (using VoteType values)
+    vote: varchar('vote', { length: 30 }).notNull(),              // The actual vote (using VoteType values)
+    sourceCode: varchar('source_code', { length: 5 }),           // Vote code as published by the source (e.g., "M")
+    provenanceId: integer('provenance_id').references(() => provenanceRecords.id), // Fetch and parser the vote was last saved from
     comment: text('comment'),                                    // Optional comment or explanation for the vote
     metadata: json('metadata'),                                  // Additional metadata as JSON
     createdAt: timestamp('created_at').defaultNow(),             // Timestamp when the record was created
@@ -91,15 +319,59 @@ export const votes = pgTable('votes', {
     voteTypeIdx: index('vote_type_idx').on(table.vote),
     // Unique constraint to ensure one vote per politician per session
     uniqueConstraint: uniqueIndex('vote_unique_idx').on(table.politicianId, table.sessionId), 
+    // Allowed values are enforced by the database (created in migration 0008)
+    voteTypeCheck: check('vote_type_check', sql`${table.vote} IN (${sql.raw(Object.values(VoteType).map(type => `'${type}'`).join(', '))})`),
+}));
+
+/**
+ * Social platforms enum
+ * Defines the platforms posts are collected from
+ */
+export const SocialPlatform = {
+    TWITTER: 'twitter',
+    MASTODON: 'mastodon',
+    BLUESKY: 'bluesky',
+} as const;
+
+/**
+ * Social account types enum
+ * Defines whether an account speaks for the politician's office or is their own
+ */
+export const SocialAccountType = {
+    OFFICIAL: 'official',
+    PERSONAL: 'personal',
+} as const;
+
+/**
+ * Social accounts table
+ * Stores the dated history of politicians' accounts on social platforms, one row per handle
+ */
+export const socialAccounts = pgTable('social_accounts', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    politicianId: integer('politician_id').references(() => politicians.id).notNull(), // Foreign key reference to politicians
+    platform: varchar('platform', { length: 20 }).notNull(), // Platform of the account (using SocialPlatform values)
+    handle: varchar('handle', { length: 100 }).notNull(), // Handle the account went by during the period (without the leading @)
+    platformUserId: varchar('platform_user_id', { length: 100 }), // Stable user ID on the platform, which survives renames
+    accountType: varchar('account_type', { length: 20 }).default('official').notNull(), // Official or personal account (using SocialAccountType values)
+    validFrom: timestamp('valid_from').defaultNow().notNull(), // When the account was first seen under the handle
+    validTo: timestamp('valid_to'),                       // When the handle stopped being used (null while current)
+    source: varchar('source', { length: 50 }),            // Source of the record (e.g., 'manual', 'handle_check', 'backfill')
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    politicianIdx: index('social_account_politician_idx').on(table.politicianId, table.platform),
+    handleIdx: index('social_account_handle_idx').on(table.platform, table.handle),
+    userIdIdx: index('social_account_user_id_idx').on(table.platform, table.platformUserId),
 }));
 
 /**
  * Tweets table
- * Stores tweets from politicians
+ * Stores posts from politicians on every social platform; the name predates the other platforms
  */
 export const tweets = pgTable('tweets', {
     id: serial('id').primaryKey(),                                 // Auto-incremented unique identifier
-    externalId: varchar('external_id', { length: 50 }).unique().notNull(), // Unique tweet ID from Twitter
+    platform: varchar('platform', { length: 20 }).default('twitter').notNull(), // Platform the post was made on (using SocialPlatform values)
+    externalId: varchar('external_id', { length: 300 }).unique().notNull(), // Unique post ID: the tweet ID, or the status or record URI on other platforms
     politicianId: integer('politician_id').references(() => politicians.id).notNull(), // Foreign key reference to politicians
     content: text('content').notNull(),                            // Tweet content/text
     url: text('url'),                                              // URL to the original tweet
@@ -108,15 +380,68 @@ export const tweets = pgTable('tweets', {
     metrics: json('metrics'),                                      // Engagement metrics as JSON (likes, retweets, etc.)
     relatedSessionId: integer('related_session_id').references(() => votingSessions.id), // Optional reference to a related voting session
     sentimentScore: integer('sentiment_score'),                    // Optional sentiment analysis score
+    archiveHash: varchar('archive_hash', { length: 64 }),          // SHA-256 of the archived API response the tweet came from
+    provenanceId: integer('provenance_id').references(() => provenanceRecords.id), // Fetch and parser the tweet was saved from
     createdAt: timestamp('created_at').defaultNow(),               // Timestamp when the record was created
     updatedAt: timestamp('updated_at').defaultNow(),               // Timestamp when the record was last updated
 }, (table) => ({
     politicianIdx: index('tweet_politician_idx').on(table.politicianId),
     postedAtIdx: index('tweet_posted_at_idx').on(table.postedAt),
     externalIdIdx: uniqueIndex('tweet_external_id_idx').on(table.externalId),
+    platformIdx: index('tweet_platform_idx').on(table.platform),
     relatedSessionIdx: index('tweet_related_session_idx').on(table.relatedSessionId),
 }));
 
+/**
+ * Tweet sync cursors table
+ * Records how far each politician's timeline has been synced in both directions
+ */
+export const tweetSyncCursors = pgTable('tweet_sync_cursors', {
+    politicianId: integer('politician_id').references(() => politicians.id).notNull(), // Politician whose timeline is synced
+    platform: varchar('platform', { length: 20 }).default('twitter').notNull(), // Platform of the timeline (using SocialPlatform values)
+    newestTweetId: varchar('newest_tweet_id', { length: 50 }), // Newest post fetched; forward syncs ask for posts after it
+    oldestTweetId: varchar('oldest_tweet_id', { length: 50 }), // Oldest post fetched; backfills continue before it
+    backfilledTo: timestamp('backfilled_to'),                  // Date a backfill has fully covered the timeline back to
+    gapSinceId: varchar('gap_since_id', { length: 50 }),       // Newest post before a forward sync cut short by its cap; the unread gap lies above it
+    gapUntilId: varchar('gap_until_id', { length: 50 }),       // Oldest post that sync fetched; the unread gap lies below it
+    updatedAt: timestamp('updated_at').defaultNow(),           // Timestamp when the cursors last moved
+}, (table) => ({
+    pk: primaryKey(table.politicianId, table.platform),
+}));
+
+/**
+ * Tweet fetch runs table
+ * Records the API reads each tweet fetch run planned and spent, against the monthly budget
+ */
+export const tweetFetchRuns = pgTable('tweet_fetch_runs', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    month: varchar('month', { length: 7 }).notNull(),     // Budget month the run counts against (e.g., '2024-05')
+    monthlyBudget: integer('monthly_budget').notNull(),   // Monthly read budget the run was planned with
+    plannedReads: integer('planned_reads').notNull(),     // Reads the planner expected the run to spend
+    spentReads: integer('spent_reads').default(0).notNull(), // Reads spent so far, updated after each politician
+    politicians: integer('politicians').notNull(),        // Politicians scheduled for the run
+    startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(), // When the run started
+    finishedAt: timestamp('finished_at', { withTimezone: true }), // When the run finished
+}, (table) => ({
+    monthIdx: index('tweet_fetch_run_month_idx').on(table.month),
+}));
+
+/**
+ * API rate limits table
+ * Shares the rate-limit window of each API endpoint between processes
+ */
+export const apiRateLimits = pgTable('api_rate_limits', {
+    id: serial('id').primaryKey(),                              // Auto-incremented unique identifier
+    service: varchar('service', { length: 50 }).notNull(),      // API the limit belongs to (e.g., 'twitter')
+    endpoint: varchar('endpoint', { length: 200 }).notNull(),   // Method and path template (e.g., 'GET /2/users/:id/tweets')
+    requestLimit: integer('request_limit'),                     // Requests allowed per window, if the API said
+    remaining: integer('remaining').notNull(),                  // Requests left in the current window
+    resetAt: timestamp('reset_at', { withTimezone: true }).notNull(), // When the current window ends
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(), // When the API last reported the window
+}, (table) => ({
+    serviceEndpointIdx: uniqueIndex('api_rate_limit_service_endpoint_idx').on(table.service, table.endpoint),
+}));
+
 /**
  * System logs table
  * Stores logs of system operations
@@ -134,6 +459,165 @@ export const systemLogs = pgTable('system_logs', {
     createdAtIdx: index('system_log_created_at_idx').on(table.createdAt),
 }));
 
+/**
+ * Checkpoint status enum
+ * Defines the possible outcomes of a scrape attempt
+ */
+export const CheckpointStatus = {
+    DONE: 'done',
+    FAILED: 'failed',
+    NOT_FOUND: 'not_found',
+    SKIPPED: 'skipped',
+} as const;
+
+/**
+ * Scrape checkpoints table
+ * Records the outcome of every source ID a scraper has attempted
+ */
+export const scrapeCheckpoints = pgTable('scrape_checkpoints', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    source: varchar('source', { length: 50 }).notNull(),  // Source being scraped (e.g., 'psp')
+    externalId: integer('external_id').notNull(),         // Source ID that was attempted (e.g., the psp.cz "g" value)
+    status: varchar('status', { length: 20 }).notNull(),  // Outcome of the last attempt (using CheckpointStatus values)
+    reason: text('reason'),                               // Failure or skip reason
+    attempts: integer('attempts').default(1).notNull(),   // Number of attempts so far
+    lastAttemptAt: timestamp('last_attempt_at').defaultNow(), // Timestamp of the last attempt
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    sourceIdIdx: uniqueIndex('scrape_checkpoint_source_id_idx').on(table.source, table.externalId),
+    statusIdx: index('scrape_checkpoint_status_idx').on(table.status),
+}));
+
+/**
+ * Scrape job status enum
+ * Defines the stages of a scrape job
+ */
+export const ScrapeJobStatus = {
+    RUNNING: 'running',
+    STOPPING: 'stopping',     // Stop requested; the job finishes the session it is saving
+    STOPPED: 'stopped',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+} as const;
+
+/**
+ * Scrape job message type
+ * Timestamped entry of a job's log or error list
+ */
+export type ScrapeJobMessage = { time: string; message: string };
+
+/**
+ * Scrape jobs table
+ * Records every scrape run with its progress, so runs can be watched and stopped from another process
+ */
+export const scrapeJobs = pgTable('scrape_jobs', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier, used as the job ID
+    service: varchar('service', { length: 20 }).notNull(), // Scraper running the job (e.g., 'vote')
+    status: varchar('status', { length: 20 }).notNull(),  // Stage of the job (using ScrapeJobStatus values)
+    config: json('config'),                               // Configuration the job was started with
+    totalItems: integer('total_items').default(0).notNull(), // Number of items the job covers
+    processedItems: integer('processed_items').default(0).notNull(), // Number of items done so far
+    errors: json('errors').$type<ScrapeJobMessage[]>().default([]).notNull(), // Latest errors
+    logs: json('logs').$type<ScrapeJobMessage[]>().default([]).notNull(), // Latest log messages
+    results: json('results'),                             // Results once the job has finished
+    stopRequestedAt: timestamp('stop_requested_at', { withTimezone: true }), // When a stop was requested
+    startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(), // When the job started
+    finishedAt: timestamp('finished_at', { withTimezone: true }), // When the job completed, stopped or failed
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(), // When progress was last saved
+}, (table) => ({
+    serviceStatusIdx: index('scrape_job_service_status_idx').on(table.service, table.status),
+}));
+
+/**
+ * Raw archive entries table
+ * Records every payload fetched from a source; the payload itself is stored once per hash in the archive directory
+ */
+export const rawArchiveEntries = pgTable('raw_archive_entries', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    source: varchar('source', { length: 50 }).notNull(),  // Source the payload came from (e.g., 'psp', 'twitter')
+    sourceUrl: text('source_url').notNull(),              // URL the payload was fetched from
+    fetchedAt: timestamp('fetched_at', { withTimezone: true }).notNull(), // When the payload was fetched
+    externalId: varchar('external_id', { length: 50 }),   // Source ID the payload describes (e.g., the psp.cz "g" value)
+    hash: varchar('hash', { length: 64 }).notNull(),      // SHA-256 of the payload, naming its file in the archive
+    contentType: varchar('content_type', { length: 100 }), // Media type of the payload (e.g., 'text/html')
+    byteSize: integer('byte_size').notNull(),             // Size of the payload in bytes
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+}, (table) => ({
+    urlFetchedIdx: uniqueIndex('raw_archive_url_fetched_idx').on(table.sourceUrl, table.fetchedAt),
+    sourceIdIdx: index('raw_archive_source_id_idx').on(table.source, table.externalId),
+    hashIdx: index('raw_archive_hash_idx').on(table.hash),
+}));
+
+/**
+ * HTTP validators table
+ * Keeps the ETag and Last-Modified of the last response per URL for conditional requests;
+ * the body is kept in the raw archive and served again on 304 Not Modified
+ */
+export const httpValidators = pgTable('http_validators', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    url: text('url').notNull(),                           // Requested URL
+    etag: varchar('etag', { length: 200 }),               // ETag of the last response
+    lastModified: varchar('last_modified', { length: 100 }), // Last-Modified of the last response, as sent
+    contentType: varchar('content_type', { length: 100 }), // Content type of the last response
+    hash: varchar('hash', { length: 64 }).notNull(),      // SHA-256 of the decoded body in the raw archive
+    checkedAt: timestamp('checked_at', { withTimezone: true }).notNull(), // When the URL was last requested
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+    updatedAt: timestamp('updated_at').defaultNow(),      // Timestamp when the record was last updated
+}, (table) => ({
+    urlIdx: uniqueIndex('http_validator_url_idx').on(table.url),
+}));
+
+/**
+ * Provenance records table
+ * Records which adapter fetched a payload from which URL and when, and which parser version read it;
+ * sessions, votes, tweets and politicians point at the record they were saved from
+ */
+export const provenanceRecords = pgTable('provenance_records', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    adapter: varchar('adapter', { length: 50 }).notNull(), // Adapter or importer that fetched the payload (e.g., 'psp', 'open_data', 'twitter')
+    sourceUrl: text('source_url').notNull(),              // URL or file the payload was fetched from
+    fetchedAt: timestamp('fetched_at', { withTimezone: true }).notNull(), // When the payload was fetched
+    parserVersion: varchar('parser_version', { length: 30 }).notNull(), // Version of the parser that turned the payload into rows
+    archiveHash: varchar('archive_hash', { length: 64 }), // SHA-256 of the archived payload, if it was archived
+    createdAt: timestamp('created_at').defaultNow(),      // Timestamp when the record was created
+}, (table) => ({
+    uniqueConstraint: uniqueIndex('provenance_unique_idx').on(table.adapter, table.sourceUrl, table.fetchedAt, table.parserVersion),
+    archiveHashIdx: index('provenance_archive_hash_idx').on(table.archiveHash),
+}));
+
+/**
+ * Session change statuses enum
+ * Defines what happened to a difference found when revalidating a session
+ */
+export const SessionChangeStatus = {
+    STAGED: 'staged',          // Waiting for review
+    APPLIED: 'applied',        // Written to the session or vote
+    SUPERSEDED: 'superseded',  // Replaced by a later revalidation before it was applied
+} as const;
+
+/**
+ * Session changes table
+ * Change log of differences found between stored sessions and their source on revalidation
+ */
+export const sessionChanges = pgTable('session_changes', {
+    id: serial('id').primaryKey(),                        // Auto-incremented unique identifier
+    sessionId: integer('session_id').references(() => votingSessions.id).notNull(), // Foreign key reference to voting sessions
+    field: varchar('field', { length: 50 }).notNull(),    // Changed field (e.g., 'title', 'resultSummary.yes'), or 'vote' for a member's vote
+    politicianId: integer('politician_id').references(() => politicians.id), // Member whose vote changed, for vote changes of stored members
+    memberName: varchar('member_name', { length: 150 }),  // Member name as listed by the source, for vote changes
+    beforeValue: json('before_value'),                    // Stored value
+    afterValue: json('after_value'),                      // Value read from the source
+    status: varchar('status', { length: 20 }).notNull(),  // What happened to the change (using SessionChangeStatus values)
+    provenanceId: integer('provenance_id').references(() => provenanceRecords.id), // Fetch the change was seen in
+    detectedAt: timestamp('detected_at', { withTimezone: true }).defaultNow().notNull(), // When the change was found
+    appliedAt: timestamp('applied_at', { withTimezone: true }), // When the change was applied
+}, (table) => ({
+    sessionIdx: index('session_change_session_idx').on(table.sessionId),
+    statusIdx: index('session_change_status_idx').on(table.status),
+    politicianIdx: index('session_change_politician_idx').on(table.politicianId),
+}));
+
 /**
  * Tweet-Vote association table
  * Optional: Links tweets to potentially related votes for analysis
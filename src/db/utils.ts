@@ -10,8 +10,8 @@ import { Pool, PoolClient } from 'pg';
 import dotenv from 'dotenv';
 import LRUCache from 'lru-cache';
 import { db } from './config';
-import { politicians, tweets, votes, voting_sessions } from './schema';
-import { eq, desc, sql as drizzleSql } from 'drizzle-orm';
+import { politicians, tweets, votes, voting_sessions, votingSessions, electoralTerms, Chamber } from './schema';
+import { and, eq, desc, sql as drizzleSql } from 'drizzle-orm';
 
 // Load environment variables from .env.local
 dotenv.config({ path: '.env.local' });
@@ -105,10 +105,15 @@ export async function executeTransaction(callback: (client: PoolClient) => Promi
 
 /**
  * Get database statistics
+ * @param {number|null} termNumber - Only count sessions and votes of this electoral term
+ * @param {boolean} includeAnnulled - Also count annulled sessions and their votes
+ * @param {string|null} chamber - Only count sessions and votes of this chamber ('deputies', 'senate' or 'european_parliament'); the term number is looked up in it
  * @returns {Promise<Object>} - Database statistics
  */
-export async function getDatabaseStats() {
-  const cacheKey = 'db_stats';
+export async function getDatabaseStats(termNumber: number | null = null, includeAnnulled: boolean = false, chamber: string | null = null) {
+  const cacheKey = (termNumber === null ? 'db_stats' : `db_stats:term:${termNumber}`)
+    + (chamber ? `:${chamber}` : '')
+    + (includeAnnulled ? ':annulled' : '');
   const cachedStats = cache.get(cacheKey);
   
   if (cachedStats) {
@@ -116,18 +121,46 @@ export async function getDatabaseStats() {
   }
   
   try {
+    // Resolve the term scope first so an unknown term fails instead of counting everything
+    let termId: number | null = null;
+    if (termNumber !== null) {
+      const term = await db
+        .select({ id: electoralTerms.id })
+        .from(electoralTerms)
+        .where(and(eq(electoralTerms.chamber, chamber ?? Chamber.DEPUTIES), eq(electoralTerms.number, termNumber)))
+        .limit(1);
+      if (term.length === 0) {
+        throw new Error(`Unknown electoral term ${termNumber}`);
+      }
+      termId = term[0].id;
+    }
+    const sessionScope = and(
+      termId !== null ? eq(votingSessions.termId, termId) : undefined,
+      chamber ? eq(votingSessions.chamber, chamber) : undefined,
+      includeAnnulled ? undefined : eq(votingSessions.annulled, false)
+    );
+    
     // Use Drizzle ORM for better type safety
-    const politiciansCount = await db
-      .select({ count: drizzleSql<number>`count(*)` })
-      .from(politicians);
+    const politiciansCount = termId !== null || chamber
+      ? await db
+        .select({ count: drizzleSql<number>`count(distinct ${votes.politicianId})` })
+        .from(votes)
+        .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+        .where(sessionScope)
+      : await db
+        .select({ count: drizzleSql<number>`count(*)` })
+        .from(politicians);
     
     const votesCount = await db
       .select({ count: drizzleSql<number>`count(*)` })
-      .from(votes);
+      .from(votes)
+      .innerJoin(votingSessions, eq(votes.sessionId, votingSessions.id))
+      .where(sessionScope);
     
     const sessionsCount = await db
       .select({ count: drizzleSql<number>`count(*)` })
-      .from(voting_sessions);
+      .from(votingSessions)
+      .where(sessionScope);
     
     const tweetsCount = await db
       .select({ count: drizzleSql<number>`count(*)` })
@@ -138,6 +171,8 @@ export async function getDatabaseStats() {
       votes: votesCount[0]?.count || 0,
       sessions: sessionsCount[0]?.count || 0,
       tweets: tweetsCount[0]?.count || 0,
+      term: termNumber,
+      chamber,
       lastUpdated: new Date().toISOString()
     };
     
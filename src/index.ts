@@ -63,11 +63,130 @@ import {
   sessionExists,
   saveVotingSession,
   saveVote,
-  startVoteScraping
+  startVoteScraping,
+  startVoteScrapeJob,
+  stopVoteScraping,
+  getVoteScraperStatus,
+  scrapeVotes,
+  fetchSessionPartyBreakdown,
+  createHttpPageLoader,
+  createFixturePageLoader,
+  requeueGaps,
+  recountSessionVotes
 } from '../lib/vote-scraper';
 
+import {
+  verifySessions,
+  verifySession,
+  repairSessions,
+  rescrapeSessions
+} from '../lib/vote-integrity';
+
+import {
+  markSessionAnnulled,
+  linkRepeatSessions
+} from '../lib/annulments';
+
+import {
+  fetchBills,
+  fetchBillVotingHistory,
+  linkSessionToBill,
+  backfillBillLinks
+} from '../lib/bills';
+
+import { parseBillReference } from '../lib/bill-parser';
+
+import {
+  recordCheckpoint,
+  getCheckpoint,
+  getCheckpointSummary,
+  findGaps
+} from '../lib/scrape-checkpoints';
+
+import {
+  normalizeName,
+  resolvePolitician,
+  requirePolitician,
+  findPoliticianCandidates,
+  backfillPoliticianAliases,
+  findDuplicatePoliticians
+} from '../lib/politician-resolver';
+
+import {
+  fetchTerms,
+  getTermByNumber,
+  findOrCreateTerm,
+  fetchTermSeatCounts
+} from '../lib/terms';
+
+import { isChamber, chamberScope } from '../lib/chambers';
+
+import { parseSenateVotingPage, buildSenateVotingPageUrl } from '../lib/senat-parser';
+
+import type { VoteSourceAdapter } from '../lib/vote-sources';
+import {
+  createPspSource,
+  createSenateSource,
+  createEuroparlSource,
+  getVoteSource
+} from '../lib/vote-sources';
+
+import { parseEuroparlVote, parseEuroparlMembers } from '../lib/europarl-parser';
+
+import {
+  archivePayload,
+  readArchivedPayload,
+  fetchArchiveEntries
+} from '../lib/raw-archive';
+
+import { reparseArchive } from '../lib/archive-reparse';
+
+import { checkGoldenFixtures, recordParserFailure } from '../lib/parser-health';
+
+import type { DryRunReport, DryRunSession } from '../lib/dry-run';
+import { createDryRunReport, planSessionSave, planTweetSave } from '../lib/dry-run';
+
+import type { ScrapeJob, JobContext } from '../lib/scrape-jobs';
+import { startScrapeJob, stopScrapeJob, getScrapeJob, fetchScrapeJobs } from '../lib/scrape-jobs';
+
+import type { FetchTransport, PoliteFetcher, PoliteFetchOptions } from '../lib/http-fetch';
+import {
+  createPoliteFetcher,
+  createPuppeteerTransport,
+  createArchiveValidatorStore,
+  getSharedFetcher,
+  parseRobotsTxt
+} from '../lib/http-fetch';
+
+import {
+  revalidateSessions,
+  applyStagedChanges,
+  fetchSessionChanges
+} from '../lib/revalidation';
+
+import type { TweetRunPlan, TweetBudgetSummary } from '../lib/tweet-budget';
+import { planTweetRun, getTweetBudgetSummary } from '../lib/tweet-budget';
+
+import type { SocialPost, SocialFeed, SocialSourceProvider } from '../lib/social-sources';
+import { createMastodonProvider, createBlueskyProvider, getPoliticianAccounts } from '../lib/social-sources';
+
+import type { SocialAccount, SocialAccountObservation } from '../lib/social-accounts';
+import { recordSocialAccount, endSocialAccount, getSocialAccounts } from '../lib/social-accounts';
+
+import type { RateLimitWindow, EndpointRateLimit } from '../lib/rate-limits';
+import { reserveRequest, recordRateLimit, fetchRateLimits } from '../lib/rate-limits';
+
+import type { ProvenanceInput, RowProvenance } from '../lib/provenance';
+import { recordProvenance } from '../lib/provenance';
+
+import {
+  recordMembershipObservation,
+  getMembershipHistory,
+  getAffiliationOn
+} from '../lib/memberships';
+
 // Export types with 'export type'
-export type { TwitterScraperStatusType, VoteScraperStatusType };
+export type { TwitterScraperStatusType, VoteScraperStatusType, VoteSourceAdapter, ProvenanceInput, RowProvenance, FetchTransport, PoliteFetcher, PoliteFetchOptions, ScrapeJob, JobContext, DryRunReport, DryRunSession, RateLimitWindow, EndpointRateLimit, TweetRunPlan, TweetBudgetSummary, SocialPost, SocialFeed, SocialSourceProvider, SocialAccount, SocialAccountObservation };
 
 // Export scraper functions
 export {
@@ -86,7 +205,106 @@ export {
   sessionExists,
   saveVotingSession,
   saveVote,
-  startVoteScraping
+  startVoteScraping,
+  startVoteScrapeJob,
+  stopVoteScraping,
+  getVoteScraperStatus,
+  scrapeVotes,
+  fetchSessionPartyBreakdown,
+  createHttpPageLoader,
+  createFixturePageLoader,
+  requeueGaps,
+  recountSessionVotes,
+  
+  verifySessions,
+  verifySession,
+  repairSessions,
+  rescrapeSessions,
+  
+  markSessionAnnulled,
+  linkRepeatSessions,
+  
+  fetchBills,
+  fetchBillVotingHistory,
+  linkSessionToBill,
+  backfillBillLinks,
+  parseBillReference,
+  
+  recordCheckpoint,
+  getCheckpoint,
+  getCheckpointSummary,
+  findGaps,
+  
+  normalizeName,
+  resolvePolitician,
+  requirePolitician,
+  findPoliticianCandidates,
+  backfillPoliticianAliases,
+  findDuplicatePoliticians,
+  
+  recordMembershipObservation,
+  getMembershipHistory,
+  getAffiliationOn,
+  
+  fetchTerms,
+  getTermByNumber,
+  findOrCreateTerm,
+  fetchTermSeatCounts,
+  
+  isChamber,
+  chamberScope,
+  parseSenateVotingPage,
+  buildSenateVotingPageUrl,
+  
+  createPspSource,
+  createSenateSource,
+  createEuroparlSource,
+  getVoteSource,
+  parseEuroparlVote,
+  parseEuroparlMembers,
+  
+  archivePayload,
+  readArchivedPayload,
+  fetchArchiveEntries,
+  reparseArchive,
+  recordProvenance,
+  
+  createPoliteFetcher,
+  createPuppeteerTransport,
+  createArchiveValidatorStore,
+  getSharedFetcher,
+  parseRobotsTxt,
+  
+  reserveRequest,
+  recordRateLimit,
+  fetchRateLimits,
+  
+  planTweetRun,
+  getTweetBudgetSummary,
+  
+  createMastodonProvider,
+  createBlueskyProvider,
+  getPoliticianAccounts,
+  
+  recordSocialAccount,
+  endSocialAccount,
+  getSocialAccounts,
+  
+  startScrapeJob,
+  stopScrapeJob,
+  getScrapeJob,
+  fetchScrapeJobs,
+  
+  checkGoldenFixtures,
+  recordParserFailure,
+  
+  createDryRunReport,
+  planSessionSave,
+  planTweetSave,
+  
+  revalidateSessions,
+  applyStagedChanges,
+  fetchSessionChanges
 };
 
 // Log initialization